@@ -0,0 +1,38 @@
+import { handleAdminRequest } from '../src/admin';
+
+async function readJsonBody(req: any): Promise<unknown> {
+  if (req.body !== undefined) return req.body;
+  const raw = await new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Admin API on Vercel: /admin/* is rewritten here (vercel.json), routes live in src/admin.ts
+ */
+export default async function handler(req: any, res: any) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  // Requests that hit /api/admin/... directly map onto the same routes
+  const path = url.pathname.replace(/^\/api\/admin/, '/admin');
+
+  const result = await handleAdminRequest({
+    method: req.method ?? 'GET',
+    path,
+    query: Object.fromEntries(url.searchParams),
+    body: await readJsonBody(req),
+    authorization: req.headers?.['authorization'] as string | undefined
+  });
+
+  res.statusCode = result.status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(result.body));
+}
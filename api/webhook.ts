@@ -1,17 +1,17 @@
+import crypto from 'crypto';
 import { env } from '../src/config';
 import { logger } from '../src/logger';
-import { handleConversation } from '../src/conversation';
-import { sendSenderAction, sendTextMessage, sendProductCarousel } from '../src/social/facebook';
-import { RateLimiter } from '../src/utils/rate-limiter';
 import { verifyWebhookSignature, verifyWebhookChallenge, extractMessagingEvents } from '../src/utils/webhook';
 import { clampText } from '../src/utils/text';
+import { assertEmbeddingDimension } from '../src/embeddings';
+import { enqueueWebhookEvents } from '../src/services/jobs';
+import { claimDeliveries, releaseDeliveries } from '../src/services/idempotency';
+import { runWebhookWorker } from '../src/worker';
+import { admitEvents } from '../src/ratelimit';
 
 const MAX_MESSAGE_CHARS = 800;
-const RATE_LIMIT_WINDOW_MS = 30_000;
-const RATE_LIMIT_MAX_EVENTS = 4;
-
-// Initialize rate limiter (persists across serverless invocations in warm container)
-const rateLimiter = new RateLimiter(RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX_EVENTS);
+// Work done after answering Meta; anything unfinished is picked up by the /api/worker cron
+const INLINE_WORKER_BUDGET_MS = 8_000;
 
 async function readRawBody(req: any): Promise<Buffer> {
   return await new Promise<Buffer>((resolve, reject) => {
@@ -34,6 +34,16 @@ export default async function handler(req: any, res: any) {
     return;
   }
 
+  // Product search compares query embeddings against the stored vectors
+  try {
+    assertEmbeddingDimension();
+  } catch (err: any) {
+    logger.error({ error: err.message }, 'Server misconfigured');
+    res.statusCode = 500;
+    res.end('Server misconfigured');
+    return;
+  }
+
   if (req.method === 'GET') {
     const mode = req.query?.['hub.mode'] as string | undefined;
     const token = req.query?.['hub.verify_token'] as string | undefined;
@@ -77,46 +87,37 @@ export default async function handler(req: any, res: any) {
     }
 
     const events = extractMessagingEvents(body);
-    const tasks: Promise<void>[] = [];
-
-    // Process each messaging event
-    for (const event of events) {
-      const { senderId, messageText, mid, imageUrl, hasImage } = event;
-
-      // Apply rate limiting
-      if (!rateLimiter.allowEvent(senderId)) {
-        logger.warn({ senderId }, 'Rate limit exceeded, skipping event');
-        continue;
-      }
-
-      const clipped = clampText(messageText, MAX_MESSAGE_CHARS);
-      
-      tasks.push((async () => {
-        try {
-          await sendSenderAction(PAGE_ACCESS_TOKEN, senderId, 'typing_on');
-          
-          // Prepare conversation options (with image if present)
-          const conversationOpts = {
-            mid,
-            ...(hasImage && imageUrl ? { imageUrl } : {})
-          };
-          
-          const resp = await handleConversation(senderId, clipped, conversationOpts);
-          
-          if (resp.products && resp.products.length > 0) {
-            await sendProductCarousel(PAGE_ACCESS_TOKEN, senderId, resp.products);
-          }
-          
-          await sendTextMessage(PAGE_ACCESS_TOKEN, senderId, resp.text);
-        } catch (err: any) {
-          logger.error({ err, senderId }, 'Failed to handle message event');
-        }
-      })());
+    // Redeliveries of messages already received don't count against the rate limits
+    const deliveryId = crypto.randomUUID();
+    const fresh = await claimDeliveries(events, deliveryId);
+    // Per-user rate limits; set RATE_LIMIT_BACKEND=postgres or redis so warm containers share counts
+    const accepted = (await admitEvents(fresh))
+      .map((event) => ({ ...event, messageText: clampText(event.messageText, MAX_MESSAGE_CHARS) }));
+
+    // Store events durably before answering; Meta redelivers on a non-200
+    try {
+      await enqueueWebhookEvents(accepted);
+    } catch (err: any) {
+      logger.error({ err }, 'Failed to enqueue webhook events');
+      // Let the redelivery through
+      await releaseDeliveries(accepted, deliveryId).catch((releaseErr: any) => {
+        logger.error({ err: releaseErr }, 'Failed to release webhook deliveries');
+      });
+      res.statusCode = 500;
+      res.end('Enqueue failed');
+      return;
     }
 
-    void Promise.allSettled(tasks);
     res.statusCode = 200;
     res.end('OK');
+
+    if (accepted.length > 0) {
+      try {
+        await runWebhookWorker({ budgetMs: INLINE_WORKER_BUDGET_MS });
+      } catch (err: any) {
+        logger.error({ err }, 'Inline worker run failed');
+      }
+    }
     return;
   }
 
@@ -0,0 +1,31 @@
+import { env } from '../src/config';
+import { logger } from '../src/logger';
+import { runWebhookWorker } from '../src/worker';
+import { isBearerAuthorized } from '../src/admin';
+
+// Stay well inside the function timeout; the next cron run continues
+const WORKER_BUDGET_MS = 20_000;
+
+/**
+ * Cron entry point (vercel.json "crons"): processes retries and jobs the webhook didn't finish
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>`; ADMIN_API_TOKEN also works for manual runs
+ */
+export default async function handler(req: any, res: any) {
+  const authorization = req.headers?.['authorization'] as string | undefined;
+  if (!isBearerAuthorized(authorization, env.CRON_SECRET) && !isBearerAuthorized(authorization, env.ADMIN_API_TOKEN)) {
+    res.statusCode = 401;
+    res.end('Unauthorized');
+    return;
+  }
+
+  try {
+    const stats = await runWebhookWorker({ budgetMs: WORKER_BUDGET_MS });
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(stats));
+  } catch (err: any) {
+    logger.error({ err }, 'Worker run failed');
+    res.statusCode = 500;
+    res.end('Worker run failed');
+  }
+}
@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import { env } from './config';
+import { logger } from './logger';
+import { getWebhookJob, listWebhookJobs, replayWebhookJob, type WebhookJobStatus } from './services/jobs';
+import { findLead, listLeads, updateLead, type ConversationStage } from './services/leads-supabase';
+import { getChatHistory, saveAssistantMessage } from './services/history-supabase';
+import { acceptOrder, getOrder, getOrderHistory, updateOrderStatus, type Order } from './services/orders';
+import { isOrderStatus, nextOrderStatuses, ORDER_STATUSES, OrderTransitionError, type OrderActor } from './services/order-lifecycle';
+import { endHandover, isInHandover, startHandover } from './services/handover';
+import { onOrderStatusChange } from './services/order-notifications';
+import { sendTextMessage } from './social/facebook';
+import { getRepositories } from './repositories';
+
+/**
+ * Admin API
+ *
+ * Framework-agnostic so the Express server (src/server.ts) and the Vercel
+ * function (api/admin.ts) share the same routes. Every request needs
+ * `Authorization: Bearer <ADMIN_API_TOKEN>`; the API is disabled when the token is unset.
+ *
+ *   GET  /admin/jobs?status=dead&sender=<psid>&limit=50   List webhook jobs (newest first)
+ *   GET  /admin/jobs/:id                                  One job, with its event and last error
+ *   POST /admin/jobs/:id/replay                           Re-queue a dead or stuck job
+ *   GET  /admin/handovers                                 Conversations currently handled by staff
+ *   POST /admin/handovers/:psid   { "minutes": 120 }      Pause the bot for a customer (staff take over)
+ *   POST /admin/handovers/:psid/release                   Hand the conversation back to the bot
+ *   GET  /admin/leads?stage=ask_phone&q=dara&limit=50     List leads (most recently active first)
+ *   GET  /admin/leads/:psid                               One lead, with its cart and collected details
+ *   GET  /admin/leads/:psid/messages?limit=100            Chat transcript (oldest first)
+ *   POST /admin/leads/:psid/messages { "text": "..." }    Send a message to the customer as the page
+ *   POST /admin/leads/:psid/reset { "stage": "ask_item", "clearCart": true }
+ *                                                         Move a stuck lead to another stage
+ *   GET  /admin/orders/:id                                One order with its items, status history and next statuses
+ *   POST /admin/orders/:id/status { "status": "shipped", "actor": "Sokha" }
+ *                                                         Change the status (the customer is messaged)
+ *   POST /admin/orders/:id/accept                         Mark paid and decrement stock (the customer is messaged)
+ */
+
+export type AdminRequest = {
+  method: string;
+  path: string;                                   // e.g. "/admin/jobs/123/replay"
+  query: Record<string, string | undefined>;
+  body: unknown;
+  authorization: string | undefined;
+};
+
+export type AdminResponse = {
+  status: number;
+  body: unknown;
+};
+
+type Route = {
+  method: string;
+  id: string | undefined;
+  action: string | undefined;
+  query: AdminRequest['query'];
+  body: Record<string, unknown>;
+};
+
+const JOB_STATUSES: WebhookJobStatus[] = ['pending', 'processing', 'done', 'dead'];
+const LEAD_STAGES: ConversationStage[] = [
+  'ask_item', 'ask_size', 'ask_name', 'ask_phone', 'ask_email', 'ask_address',
+  'completed', 'confirm_order', 'processing_order', 'human_handover'
+];
+// human_handover has its own endpoints; processing_order is only held while an order is written
+const RESETTABLE_STAGES: ConversationStage[] = LEAD_STAGES.filter(stage => stage !== 'human_handover' && stage !== 'processing_order');
+const MAX_MESSAGE_CHARS = 2000;  // Messenger's text limit
+
+/**
+ * Constant-time check of a `Bearer <token>` header
+ */
+export function isBearerAuthorized(header: string | undefined, token: string | undefined): boolean {
+  if (!token || !header?.startsWith('Bearer ')) return false;
+  const received = crypto.createHash('sha256').update(header.slice('Bearer '.length)).digest();
+  const expected = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(received, expected);
+}
+
+function notFound(): AdminResponse {
+  return { status: 404, body: { error: 'Not found' } };
+}
+
+function badRequest(error: string): AdminResponse {
+  return { status: 400, body: { error } };
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  const limit = value ? Number(value) : undefined;
+  return limit !== undefined && Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+async function handleJobs({ method, id, action, query }: Route): Promise<AdminResponse> {
+  if (method === 'GET' && !id) {
+    const status = query['status'] as WebhookJobStatus | undefined;
+    if (status && !JOB_STATUSES.includes(status)) {
+      return badRequest(`status must be one of ${JOB_STATUSES.join(', ')}`);
+    }
+    const jobs = await listWebhookJobs({ status, senderId: query['sender'], limit: parseLimit(query['limit']) });
+    return { status: 200, body: { jobs } };
+  }
+
+  if (method === 'GET' && id && !action) {
+    const job = await getWebhookJob(id);
+    return job ? { status: 200, body: { job } } : notFound();
+  }
+
+  if (method === 'POST' && id && action === 'replay') {
+    const job = await replayWebhookJob(id);
+    if (!job) {
+      return { status: 409, body: { error: 'Job not found or not replayable (only dead or stuck jobs can be replayed)' } };
+    }
+    return { status: 200, body: { job } };
+  }
+
+  return notFound();
+}
+
+async function handleHandovers({ method, id, action, body }: Route): Promise<AdminResponse> {
+  if (method === 'GET' && !id) {
+    const leads = await listLeads({ stage: 'human_handover', limit: 200 });
+    return { status: 200, body: { handovers: leads.map(lead => ({ userId: lead.userId, name: lead.name ?? null, ...lead.handover })) } };
+  }
+
+  if (method === 'POST' && id && !action) {
+    const minutes = body['minutes'];
+    if (minutes !== undefined && (typeof minutes !== 'number' || !(minutes > 0))) {
+      return badRequest('minutes must be a positive number');
+    }
+    const repos = getRepositories();
+    const lead = await startHandover(repos, await repos.leads.getOrCreate(id), 'staff', minutes !== undefined ? { minutes } : {});
+    return { status: 200, body: { handover: { userId: lead.userId, ...lead.handover } } };
+  }
+
+  if (method === 'POST' && id && action === 'release') {
+    const repos = getRepositories();
+    const lead = await repos.leads.getOrCreate(id);
+    if (!isInHandover(lead)) {
+      return { status: 409, body: { error: 'Conversation is not handed over' } };
+    }
+    const released = await endHandover(repos, lead, 'released');
+    return { status: 200, body: { userId: released.userId, stage: released.stage } };
+  }
+
+  return notFound();
+}
+
+async function handleLeads({ method, id, action, query, body }: Route): Promise<AdminResponse> {
+  if (method === 'GET' && !id) {
+    const stage = query['stage'] as ConversationStage | undefined;
+    if (stage && !LEAD_STAGES.includes(stage)) {
+      return badRequest(`stage must be one of ${LEAD_STAGES.join(', ')}`);
+    }
+    const leads = await listLeads({ stage, search: query['q'], limit: parseLimit(query['limit']) });
+    return { status: 200, body: { leads } };
+  }
+
+  if (!id) return notFound();
+
+  if (method === 'GET' && !action) {
+    const lead = await findLead(id);
+    return lead ? { status: 200, body: { lead } } : notFound();
+  }
+
+  if (method === 'GET' && action === 'messages') {
+    const messages = await getChatHistory(id, Math.min(parseLimit(query['limit']) ?? 100, 500));
+    return { status: 200, body: { messages: messages.reverse() } };
+  }
+
+  if (method === 'POST' && action === 'messages') {
+    const text = typeof body['text'] === 'string' ? body['text'].trim() : '';
+    if (!text) return badRequest('text is required');
+    if (text.length > MAX_MESSAGE_CHARS) return badRequest(`text must be at most ${MAX_MESSAGE_CHARS} characters`);
+
+    try {
+      await sendTextMessage(env.PAGE_ACCESS_TOKEN, id, text);
+    } catch (err: any) {
+      // Usually the 24-hour messaging window has closed, or the PSID is unknown to the page
+      const detail = err.response?.data?.error?.message ?? err.message;
+      logger.warn({ userId: id, error: detail }, '⚠️ Admin: Failed to send message');
+      return { status: 502, body: { error: `Messenger rejected the message: ${detail}` } };
+    }
+    // Keep the transcript (and the bot's context) complete
+    await saveAssistantMessage(id, text);
+    logger.info({ userId: id }, '✅ Admin: Message sent to customer');
+    return { status: 200, body: { sent: true } };
+  }
+
+  if (method === 'POST' && action === 'reset') {
+    const stage = (body['stage'] ?? 'ask_item') as ConversationStage;
+    if (!RESETTABLE_STAGES.includes(stage)) {
+      return badRequest(`stage must be one of ${RESETTABLE_STAGES.join(', ')}`);
+    }
+    const lead = await findLead(id);
+    if (!lead) return notFound();
+
+    // No expected version: staff override whatever a turn in flight read (it retries on the new state)
+    await updateLead(id, {
+      stage,
+      handover: null,
+      ...(body['clearCart'] === true ? { pendingOrder: null } : {})
+    });
+    logger.info({ userId: id, from: lead.stage, to: stage, clearCart: body['clearCart'] === true }, '✅ Admin: Lead stage reset');
+    return { status: 200, body: { lead: await findLead(id) } };
+  }
+
+  return notFound();
+}
+
+function staffActor(body: Record<string, unknown>): OrderActor {
+  return typeof body['actor'] === 'string' && body['actor'].trim()
+    ? { type: 'staff', id: body['actor'].trim().slice(0, 100) }
+    : { type: 'staff' };
+}
+
+/**
+ * Apply a status change and reply with the updated order, after queueing a message to the customer
+ */
+async function changeOrderStatus(before: Order, change: () => Promise<void>): Promise<AdminResponse> {
+  try {
+    await change();
+  } catch (err: any) {
+    if (err instanceof OrderTransitionError) {
+      return { status: 409, body: { error: err.message, allowed: nextOrderStatuses(err.from) } };
+    }
+    // accept_order refuses orders short on stock; restock_order refuses orders that changed meanwhile
+    return { status: 409, body: { error: err.message } };
+  }
+
+  const order = await getOrder(before.id);
+  if (!order) return notFound();
+  const notification = await onOrderStatusChange(order, before.status);
+  return { status: 200, body: { order, notification } };
+}
+
+async function handleOrders({ method, id, action, body }: Route): Promise<AdminResponse> {
+  if (!id) return notFound();
+
+  if (method === 'GET' && !action) {
+    const order = await getOrder(id);
+    if (!order) return notFound();
+    return { status: 200, body: { order, history: await getOrderHistory(id), next: nextOrderStatuses(order.status) } };
+  }
+
+  if (method === 'POST' && action === 'status') {
+    const status = body['status'];
+    if (!isOrderStatus(status)) {
+      return badRequest(`status must be one of ${ORDER_STATUSES.join(', ')}`);
+    }
+    const before = await getOrder(id);
+    if (!before) return notFound();
+    return changeOrderStatus(before, () => updateOrderStatus(id, status, staffActor(body)));
+  }
+
+  if (method === 'POST' && action === 'accept') {
+    const before = await getOrder(id);
+    if (!before) return notFound();
+    return changeOrderStatus(before, () => acceptOrder(id, staffActor(body)));
+  }
+
+  return notFound();
+}
+
+const RESOURCES = new Map<string, (route: Route) => Promise<AdminResponse>>([
+  ['jobs', handleJobs],
+  ['handovers', handleHandovers],
+  ['leads', handleLeads],
+  ['orders', handleOrders]
+]);
+
+export async function handleAdminRequest(req: AdminRequest): Promise<AdminResponse> {
+  if (!env.ADMIN_API_TOKEN) {
+    return { status: 503, body: { error: 'Admin API disabled (ADMIN_API_TOKEN not set)' } };
+  }
+  if (!isBearerAuthorized(req.authorization, env.ADMIN_API_TOKEN)) {
+    return { status: 401, body: { error: 'Unauthorized' } };
+  }
+
+  const segments = req.path.replace(/\/+$/, '').split('/').filter(Boolean);
+  if (segments[0] !== 'admin' || segments.length > 4) return notFound();
+  const [, resource, id, action] = segments;
+
+  const handler = resource ? RESOURCES.get(resource) : undefined;
+  if (!handler) return notFound();
+
+  const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body)
+    ? req.body as Record<string, unknown>
+    : {};
+
+  try {
+    return await handler({ method: req.method, id: id && decodeURIComponent(id), action, query: req.query, body });
+  } catch (err: any) {
+    logger.error({ err, method: req.method, path: req.path }, '❌ Admin: Request failed');
+    return { status: 500, body: { error: 'Internal error' } };
+  }
+}
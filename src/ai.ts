@@ -1,84 +1,108 @@
-import OpenAI from 'openai';
 import { getSystemPrompt } from './prompts';
-import { buildRagContext, retrieveSimilarContext } from './services/rag';
-import { getChatHistory, getConversationSummary, updateConversationSummary } from './services/history-supabase';
+import { buildRagContext } from './services/rag';
+import { currencyFor, formatPrice } from './services/money';
+import { isCollectingStage } from './services/checkout';
 import type { LeadDoc } from './services/leads-supabase';
 import { logger } from './logger';
 import { clampText } from './utils/text';
 import { cleanAIResponse, detectLanguage } from './utils';
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('Missing required env var: OPENAI_API_KEY');
-    }
-    openaiClient = new OpenAI({ apiKey, timeout: 8000, maxRetries: 2 });
-  }
-  return openaiClient;
+import { env, llmSettings } from './config';
+import { getLlmProvider, type LlmMessage, type ToolRunner } from './llm';
+import { getRepositories, type Repositories } from './repositories';
+
+// The system prompt asks the model to start with this marker when it can't help confidently
+const HANDOVER_MARKER = /^\s*\[\[HANDOVER\]\]\s*/;
+
+// Rounds of tool calls before the model has to answer in text
+const MAX_TOOL_ROUNDS = 3;
+
+export type AiReply<R = never> = {
+  reply: string;
+  language: 'km' | 'en';
+  needsHuman: boolean;  // Model flagged low confidence; the conversation should go to staff
+  result?: R;           // A tool ended the turn with its own response (reply is empty)
+  toolsUsed: string[];
+};
+
+function splitHandoverMarker(text: string): { text: string; needsHuman: boolean } {
+  const needsHuman = HANDOVER_MARKER.test(text);
+  return { text: needsHuman ? text.replace(HANDOVER_MARKER, '') : text, needsHuman };
 }
 
-export async function generateAiReply(userMessageText: string): Promise<{ reply: string; language: 'km' | 'en' }> {
+export async function generateAiReply(userMessageText: string): Promise<AiReply> {
   const safeUser = clampText(userMessageText, 800);
   const language = detectLanguage(userMessageText);
 
-  const completion = await getOpenAI().chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0.7,
-    max_completion_tokens: 300,
+  const { content } = await getLlmProvider().complete({
+    purpose: 'reply',
+    ...llmSettings.reply,
     messages: [
       { role: 'system', content: getSystemPrompt(language) },
       { role: 'user', content: safeUser }
     ]
   });
 
-  const content = completion.choices?.[0]?.message?.content?.trim();
   // Clamp output as well to prevent excessive message size
   const fallback = language === 'km' 
     ? "ខ្ញុំត្រៀមខ្លួនរួចហើយដើម្បីជួយអ្នក! តើអ្នកអាចសួរម្តងទៀតបានទេ?"
     : "I'm here and ready to help! Could you rephrase your question?";
     
-  const response = content && content.length > 0 ? content : fallback;
+  const { text: response, needsHuman } = splitHandoverMarker(content ?? fallback);
   
   // Clean markdown formatting that Messenger doesn't support
   const cleaned = cleanAIResponse(response);
-  return { reply: clampText(cleaned, 800), language };
+  return { reply: clampText(cleaned, 800), language, needsHuman, toolsUsed: [] };
 }
 
-// History-aware generation with lead-context injection
-export async function generateAiReplyWithHistory(
+/**
+ * History-aware generation with lead-context injection
+ * With tools, the model searches the catalog itself and can act (cart, checkout, order);
+ * without them, products are retrieved up front for the context.
+ */
+export async function generateAiReplyWithHistory<R = never>(
   userId: string,
   userMessageText: string,
   lead?: LeadDoc,
-  preRetrievedProducts?: any[] // Avoid duplicate RAG calls
-): Promise<{ reply: string; language: 'km' | 'en' }> {
+  preRetrievedProducts?: any[], // Avoid duplicate RAG calls
+  repos: Repositories = getRepositories(),
+  tools?: ToolRunner<R>
+): Promise<AiReply<R>> {
   logger.info({ userId, query: userMessageText.slice(0, 100) }, '🤖 AI: Starting context-aware reply generation');
 
   const [recent, summary] = await Promise.all([
-    getChatHistory(userId, 8),
-    getConversationSummary(userId)
+    repos.messages.getHistory(userId, 8),
+    repos.summaries.get(userId)
   ]);
   
   // Detect language from current message (prioritize current over history)
   const language = detectLanguage(userMessageText);
   
-  // Use pre-retrieved products if available, otherwise fetch
-  const retrieved = preRetrievedProducts ?? await retrieveSimilarContext(userMessageText).catch(() => []);
-
+  // Use pre-retrieved products if available, otherwise fetch (unless the model searches with tools)
+  const retrieved = preRetrievedProducts ?? (tools ? [] : await repos.products.search(userMessageText).catch(() => []));
+
+  const cart = lead?.pendingOrder?.items.length
+    ? lead.pendingOrder.items.map(item => `${item.quantity}x ${item.productName} (${item.productId})`).join(', ')
+    : null;
+  const currency = currencyFor(language);
+  const deliveryFees = `Delivery fee: ${formatPrice(env.DELIVERY_FEE_PHNOM_PENH, currency)} in Phnom Penh, ` +
+    `${formatPrice(env.DELIVERY_FEE_PROVINCE, currency)} to provinces`;
   const leadFacts = lead
     ? [
         lead.name ? `Name: ${lead.name}` : null,
+        lead.customerId ? 'Returning customer (has ordered before): welcome them back by name when they greet you' : null,
         lead.phone ? `Phone: ${lead.phone}` : null,
         lead.address ? `Address: ${lead.address}` : null,
-        lead.item ? `Interested Item: ${lead.item}` : null
+        lead.item ? `Interested Item: ${lead.item}` : null,
+        cart ? `Cart: ${cart}` : null,
+        cart ? deliveryFees : null,
+        isCollectingStage(lead.stage) ? `Checkout in progress (${lead.stage}); the customer's answer to that step is asked for after your reply` : null,
+        lead.stage === 'confirm_order' ? 'Waiting for the customer to confirm the order summary' : null
       ]
         .filter(Boolean)
         .join('\n')
     : '';
 
-  const ragBlock = buildRagContext(retrieved as any);
+  const ragBlock = buildRagContext(retrieved as any, currency);
   const contextPreamble = [
     getSystemPrompt(language),  // Language-aware system prompt
     leadFacts ? `Known customer details:\n${leadFacts}` : null,
@@ -88,7 +112,7 @@ export async function generateAiReplyWithHistory(
     .filter(Boolean)
     .join('\n\n');
 
-  // Reverse to get chronological order (getChatHistory returns DESC)
+  // Reverse to get chronological order (history comes back most recent first)
   const historyMessages = recent.reverse().map((m) => ({
     role: m.role as 'user' | 'assistant',
     content: clampText(m.content, 800)
@@ -106,22 +130,48 @@ export async function generateAiReplyWithHistory(
     '📝 AI: Context assembled'
   );
 
-  const completion = await getOpenAI().chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0.3,
-    max_tokens: 300,
-    messages: [
-      { role: 'system', content: contextPreamble },
-      ...historyMessages,
-      { role: 'user', content: clampText(userMessageText, 800) }
-    ]
-  });
+  const messages: LlmMessage[] = [
+    { role: 'system', content: contextPreamble },
+    ...historyMessages,
+    { role: 'user', content: clampText(userMessageText, 800) }
+  ];
+  const toolsUsed: string[] = [];
+  let tokensUsed = 0;
+  let content: string | null = null;
+
+  for (let round = 0; ; round++) {
+    // The last round offers no tools, so the model has to answer
+    const offerTools = !!tools && round < MAX_TOOL_ROUNDS;
+    const completion = await getLlmProvider().complete({
+      purpose: 'chat',
+      ...llmSettings.chat,
+      messages,
+      ...(offerTools ? { tools: tools.definitions } : {})
+    });
+    tokensUsed += completion.usage?.totalTokens ?? 0;
+
+    if (!offerTools || !completion.toolCalls?.length) {
+      content = completion.content;
+      break;
+    }
+
+    messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      toolsUsed.push(call.name);
+      const outcome = await tools.run(call);
+      logger.info({ userId, tool: call.name, args: call.arguments, endsTurn: outcome.result !== undefined }, '🔧 AI: Tool called');
+
+      if (outcome.result !== undefined) {
+        return { reply: '', language, needsHuman: false, result: outcome.result, toolsUsed };
+      }
+      messages.push({ role: 'tool', toolCallId: call.id, content: clampText(outcome.output, 2000) });
+    }
+  }
 
-  const content = completion.choices?.[0]?.message?.content?.trim();
   const fallback = language === 'km' 
     ? "ពិតណាស់ — តើខ្ញុំអាចជួយអ្វីបានទៀត?"
     : 'Sure—how can I help further?';
-  const response = content && content.length > 0 ? content : fallback;
+  const { text: response, needsHuman } = splitHandoverMarker(content ?? fallback);
   
   // Clean markdown formatting that Messenger doesn't support
   const cleaned = cleanAIResponse(response);
@@ -131,17 +181,19 @@ export async function generateAiReplyWithHistory(
       userId,
       language,
       responseLength: cleaned.length,
-      tokensUsed: completion.usage?.total_tokens
+      tokensUsed,
+      toolsUsed,
+      needsHuman
     },
     '✅ AI: Reply generated'
   );
 
-  return { reply: clampText(cleaned, 800), language };
+  return { reply: clampText(cleaned, 800), language, needsHuman, toolsUsed };
 }
 
 // Optional: summarize long threads to reduce tokens
-export async function refreshThreadSummary(userId: string): Promise<void> {
-  const recent = await getChatHistory(userId, 50);
+export async function refreshThreadSummary(userId: string, repos: Repositories = getRepositories()): Promise<void> {
+  const recent = await repos.messages.getHistory(userId, 50);
   if (recent.length < 20) return; // summarize only when long enough
   const text = recent
     .reverse() // Reverse to chronological order
@@ -149,10 +201,9 @@ export async function refreshThreadSummary(userId: string): Promise<void> {
     .join('\n')
     .slice(0, 6000);
 
-  const completion = await getOpenAI().chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0.2,
-    max_tokens: 250,
+  const { content: summary } = await getLlmProvider().complete({
+    purpose: 'summary',
+    ...llmSettings.summary,
     messages: [
       {
         role: 'system',
@@ -162,7 +213,6 @@ export async function refreshThreadSummary(userId: string): Promise<void> {
       { role: 'user', content: text }
     ]
   });
-  const summary = completion.choices?.[0]?.message?.content?.trim();
-  if (summary) await updateConversationSummary(userId, summary, recent.length);
+  if (summary) await repos.summaries.update(userId, summary, recent.length);
 }
 
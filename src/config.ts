@@ -1,7 +1,24 @@
 import { z } from 'zod';
 
 const Env = z.object({
-  OPENAI_API_KEY: z.string().min(1),
+  // LLM provider: openai | openai-compatible (llama.cpp, Ollama, vLLM, ...) | scripted (offline/tests)
+  LLM_PROVIDER: z.enum(['openai', 'openai-compatible', 'scripted']).default('openai'),
+  OPENAI_API_KEY: z.string().optional(),          // Required when LLM_PROVIDER=openai
+  LLM_BASE_URL: z.string().url().optional(),      // Required when LLM_PROVIDER=openai-compatible
+  LLM_API_KEY: z.string().optional(),
+  LLM_TIMEOUT_MS: z.coerce.number().default(8000),
+  LLM_SCRIPT_FILE: z.string().optional(),         // JSON rules for LLM_PROVIDER=scripted
+  // LLM settings per call site (LLM_MODEL is the default for all of them)
+  LLM_MODEL: z.string().default('gpt-4o-mini'),
+  LLM_REPLY_MODEL: z.string().optional(),
+  LLM_REPLY_TEMPERATURE: z.coerce.number().default(0.7),
+  LLM_REPLY_MAX_TOKENS: z.coerce.number().default(300),
+  LLM_CHAT_MODEL: z.string().optional(),
+  LLM_CHAT_TEMPERATURE: z.coerce.number().default(0.3),
+  LLM_CHAT_MAX_TOKENS: z.coerce.number().default(300),
+  LLM_SUMMARY_MODEL: z.string().optional(),
+  LLM_SUMMARY_TEMPERATURE: z.coerce.number().default(0.2),
+  LLM_SUMMARY_MAX_TOKENS: z.coerce.number().default(250),
   PAGE_ACCESS_TOKEN: z.string().min(1),
   VERIFY_TOKEN: z.string().min(1),
   APP_SECRET: z.string().min(1),
@@ -13,19 +30,94 @@ const Env = z.object({
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(10),
   SUPABASE_MATCH_TEXT_FN: z.string().default('search_products_hybrid_text'),
   SUPABASE_MATCH_EMBEDDING_FN: z.string().default('search_products_by_embedding'),
-  // Google Cloud Vertex AI
-  GOOGLE_CLOUD_LOCATION: z.string().min(1),
-  GOOGLE_CLOUD_PROJECT_ID: z.string().min(1),
-  GOOGLE_CLOUD_CLIENT_EMAIL: z.string().email(),
-  GOOGLE_CLOUD_PRIVATE_KEY: z.string().min(40),
+  // Embeddings: vertex | openai-compatible | hash (deterministic, offline/tests)
+  EMBEDDING_PROVIDER: z.enum(['vertex', 'openai-compatible', 'hash']).default('vertex'),
+  EMBEDDING_DIMENSION: z.coerce.number().int().positive().default(1408),  // Must match vector(N) in supabase.sql
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_BASE_URL: z.string().url().optional(),  // Required when EMBEDDING_PROVIDER=openai-compatible
+  EMBEDDING_API_KEY: z.string().optional(),
+  // Google Cloud Vertex AI (required when EMBEDDING_PROVIDER=vertex)
+  GOOGLE_CLOUD_LOCATION: z.string().min(1).optional(),
+  GOOGLE_CLOUD_PROJECT_ID: z.string().min(1).optional(),
+  GOOGLE_CLOUD_CLIENT_EMAIL: z.string().email().optional(),
+  GOOGLE_CLOUD_PRIVATE_KEY: z.string().min(40).optional(),
   // RAG tuning
   RAG_MATCH_COUNT: z.coerce.number().default(5),
   RAG_MIN_SIMILARITY: z.coerce.number().default(0),
   // Product filtering by tenant
   PRODUCT_TENANT_ID: z.string().optional(),
+  // Webhook job queue
+  WEBHOOK_JOB_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  WEBHOOK_JOB_BACKOFF_MS: z.coerce.number().int().positive().default(5000),      // Doubles after every failed attempt
+  WEBHOOK_JOB_MAX_BACKOFF_MS: z.coerce.number().int().positive().default(600000),
+  WEBHOOK_JOB_LOCK_TIMEOUT_S: z.coerce.number().int().positive().default(120),   // Reclaim jobs from workers that died
+  WORKER_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(2000),
+  MESSAGE_DEDUP_TTL_S: z.coerce.number().int().positive().default(86400),       // How long a handled mid is remembered
+  // Per-user rate limits: memory (per instance) | postgres | redis (shared across instances)
+  RATE_LIMIT_BACKEND: z.enum(['memory', 'postgres', 'redis']).default('memory'),
+  RATE_LIMIT_ALGORITHM: z.enum(['sliding-window', 'token-bucket']).default('sliding-window'),
+  REDIS_URL: z.string().url().optional(),                                       // Required when RATE_LIMIT_BACKEND=redis
+  RATE_LIMIT_TEXT_MAX: z.coerce.number().int().positive().default(4),
+  RATE_LIMIT_TEXT_WINDOW_MS: z.coerce.number().int().positive().default(30000),
+  RATE_LIMIT_IMAGE_MAX: z.coerce.number().int().positive().default(2),          // Image search is the expensive path
+  RATE_LIMIT_IMAGE_WINDOW_MS: z.coerce.number().int().positive().default(60000),
+  RATE_LIMIT_POSTBACK_MAX: z.coerce.number().int().positive().default(10),      // Button taps come in quick bursts
+  RATE_LIMIT_POSTBACK_WINDOW_MS: z.coerce.number().int().positive().default(30000),
+  // Human handover: the bot stays quiet while staff handle a conversation
+  HANDOVER_TIMEOUT_MINUTES: z.coerce.number().positive().default(60),           // Bot takes over again after this long
+  STAFF_NOTIFIER: z.enum(['none', 'webhook', 'telegram', 'email']).default('none'),
+  STAFF_WEBHOOK_URL: z.string().url().optional(),                               // Required when STAFF_NOTIFIER=webhook
+  TELEGRAM_BOT_TOKEN: z.string().optional(),                                    // Required when STAFF_NOTIFIER=telegram
+  TELEGRAM_CHAT_ID: z.string().optional(),
+  STAFF_EMAIL: z.string().email().optional(),                                   // Required when STAFF_NOTIFIER=email
+  // Pricing: delivery fee by zone (from the delivery address) and tax on the discounted subtotal
+  DELIVERY_FEE_PHNOM_PENH: z.coerce.number().nonnegative().default(0),
+  DELIVERY_FEE_PROVINCE: z.coerce.number().nonnegative().default(0),            // Any address outside Phnom Penh
+  TAX_RATE: z.coerce.number().min(0).max(1).default(0),                         // e.g. 0.1 for 10% VAT
+  // Currency: prices are stored in USD and shown per conversation language, riel at KHR_PER_USD
+  KHR_PER_USD: z.coerce.number().positive().default(4100),
+  CURRENCY_EN: z.enum(['USD', 'KHR']).default('USD'),
+  CURRENCY_KM: z.enum(['USD', 'KHR']).default('KHR'),                           // Khmer conversations show riel
+  // Order status messages to customers (sent when staff change an order)
+  ORDER_NOTIFY_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),     // Queued job; backoff from WEBHOOK_JOB_BACKOFF_MS
+  // Admin API (disabled when unset) and Vercel cron auth
+  ADMIN_API_TOKEN: z.string().min(16).optional(),
+  CRON_SECRET: z.string().optional(),
   PORT: z.coerce.number().default(3000)
 });
 
 export const env = Env.parse(process.env);
 
 
+
+export type LlmCallSite = 'reply' | 'chat' | 'summary';
+
+export type LlmSettings = {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+};
+
+/**
+ * Model settings for each place the bot calls the LLM
+ * - reply: single-turn reply (generateAiReply)
+ * - chat: history-aware reply (generateAiReplyWithHistory)
+ * - summary: thread summarization (refreshThreadSummary)
+ */
+export const llmSettings: Record<LlmCallSite, LlmSettings> = {
+  reply: {
+    model: env.LLM_REPLY_MODEL ?? env.LLM_MODEL,
+    temperature: env.LLM_REPLY_TEMPERATURE,
+    maxTokens: env.LLM_REPLY_MAX_TOKENS
+  },
+  chat: {
+    model: env.LLM_CHAT_MODEL ?? env.LLM_MODEL,
+    temperature: env.LLM_CHAT_TEMPERATURE,
+    maxTokens: env.LLM_CHAT_MAX_TOKENS
+  },
+  summary: {
+    model: env.LLM_SUMMARY_MODEL ?? env.LLM_MODEL,
+    temperature: env.LLM_SUMMARY_TEMPERATURE,
+    maxTokens: env.LLM_SUMMARY_MAX_TOKENS
+  }
+};
@@ -1,397 +1,1640 @@
-import { getPrompts, confirmOrderPrompt, orderConfirmedPrompt } from './prompts';
-import { getOrCreateLead, updateLead } from './services/leads-supabase';
-import { saveAssistantMessage, saveUserMessage } from './services/history-supabase';
-import { detectLanguage, type Language } from './utils';
+import crypto from 'crypto';
+import {
+  getPrompts,
+  confirmOrderPrompt,
+  orderConfirmedPrompt,
+  productDetailsPrompt,
+  similarProductsPrompt,
+  cartSummaryPrompt,
+  addedToCartPrompt,
+  askSizePrompt,
+  orderItemLabel,
+  stockShortagePrompt,
+  orderStatusPrompt,
+  orderListPrompt,
+  confirmCancelOrderPrompt,
+  orderCancelledByCustomerPrompt,
+  orderNotCancellablePrompt,
+  promoAppliedPrompt,
+  promoRejectedPrompt,
+  detailUpdatedPrompt,
+  editDetailPrompt,
+  welcomeBackPrompt
+} from './prompts';
+import type { LeadDoc, OrderItem, ProductInfo } from './services/leads-supabase';
+import {
+  buildPostbackPayload,
+  detectLanguage,
+  extractSize,
+  isInStock,
+  matchSizeOption,
+  productHasColor,
+  type Language,
+  type PostbackAction,
+  type PostbackEvent,
+  type QuickReply,
+  type VariantDetails
+} from './utils';
 import { generateAiReplyWithHistory, refreshThreadSummary } from './ai';
-import { normalizePhone } from './services/phone';
-import { retrieveSimilarContext, retrieveSimilarContextByImage, type RetrievedProduct } from './services/rag';
+import { buildRagContext, type RetrievedProduct } from './services/rag';
 import { logger } from './logger';
 import { getProductsForCarousel, shouldShowCarousel } from './utils/ai-product-matcher';
 import { downloadImageAsBase64, isValidImageUrl } from './utils/image';
 import { env } from './config';
-import { findOrCreateCustomer, createOrder } from './services/orders';
+import { getRepositories, LeadVersionConflictError, type Repositories } from './repositories';
+import {
+  hasRequiredDetails,
+  isCollectingStage,
+  checkoutFieldFor,
+  nextCheckoutStage,
+  transition,
+  type CheckoutStage
+} from './services/checkout';
+import { validateCheckoutField, type CheckoutField } from './services/checkout-fields';
+import {
+  addLineToCart,
+  addToCart,
+  applyStockLimits,
+  cartItemCount,
+  cartLineKey,
+  changeCartQuantity,
+  findProductByName,
+  itemNeedingSize,
+  removeFromCart,
+  setCartItemSize,
+  setCartItemVariant,
+  setCartQuantity,
+  toCartLine,
+  type Cart,
+  type CartProduct,
+  type CartVariant
+} from './services/cart';
+import { parseCartCommand, type CartCommand } from './utils/cart-intents';
+import { isHumanRequest } from './utils/handover-intents';
+import { parseOrderCommand, type OrderCommand } from './utils/order-intents';
+import { endHandover, isHandoverExpired, isInHandover, startHandover } from './services/handover';
+import type { Customer, Order } from './services/orders';
+import { checkPromoCode, priceOrder, promoDiscount, toAppliedPromo } from './services/pricing';
+import { currencyFor } from './services/money';
+import { looksLikePromoCode, parsePromoCommand, type PromoCommand } from './utils/promo-intents';
+import { parseConfirmation } from './utils/confirm-intents';
+import { isQuestion } from './utils/question-intents';
+import { parseEditCommand, type EditCommand } from './utils/edit-intents';
+import { SALES_TOOLS, parseSalesToolCall, type SalesToolCall } from './utils/sales-tools';
+import type { ToolOutcome, ToolRunner } from './llm';
 
-export type ConversationResponse = { text: string; products?: RetrievedProduct[] };
+export type ConversationResponse = {
+  text: string;
+  products?: RetrievedProduct[];
+  cartItems?: OrderItem[];
+  quickReplies?: QuickReply[];
+  silent?: boolean;  // Nothing to send (staff are handling the conversation)
+};
 
 export type ConversationOptions = {
   mid?: string | undefined;
   imageUrl?: string | undefined;
+  postback?: PostbackEvent | undefined;
 };
 
+// How often a message is handled again after another message changed the lead first
+const MAX_LEAD_CONFLICT_RETRIES = 2;
+
 export async function handleConversation(
   userId: string,
   userMessageText: string,
-  opts?: ConversationOptions
+  opts?: ConversationOptions,
+  repos: Repositories = getRepositories()
 ): Promise<ConversationResponse> {
   const msg = userMessageText.trim();
   
+  const leadPromise = repos.leads.getOrCreate(userId);
+  const saveUserPromise = repos.messages.saveUser(userId, msg, opts?.mid);
+  let lead = await leadPromise;
+  await saveUserPromise;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await respond(withLeadVersion(repos, lead), userId, msg, lead, opts);
+    } catch (err) {
+      if (!(err instanceof LeadVersionConflictError) || attempt >= MAX_LEAD_CONFLICT_RETRIES) throw err;
+      logger.warn({ userId, attempt: attempt + 1 }, '🔁 Lead changed by another message, handling again with fresh state');
+      lead = await repos.leads.getOrCreate(userId);
+    }
+  }
+}
+
+/**
+ * Repositories for one turn: lead updates only apply while the lead is still at the
+ * version this turn read (and the versions its own updates produced)
+ */
+function withLeadVersion(repos: Repositories, lead: LeadDoc): Repositories {
+  let version = lead.version;
+  return {
+    ...repos,
+    leads: {
+      getOrCreate: repos.leads.getOrCreate,
+      async update(userId, updates) {
+        const next = await repos.leads.update(userId, updates, version);
+        if (next !== undefined) version = next;
+        return next;
+      }
+    }
+  };
+}
+
+async function respond(
+  repos: Repositories,
+  userId: string,
+  msg: string,
+  lead: LeadDoc,
+  opts: ConversationOptions | undefined
+): Promise<ConversationResponse> {
   // Detect language from user message
   const language = detectLanguage(msg);
   const prompts = getPrompts(language);
-  
-  const leadPromise = getOrCreateLead(userId);
-  const saveUserPromise = saveUserMessage(userId, msg, opts?.mid);
-  const lead = await leadPromise;
-  await saveUserPromise;
 
-  if (lead.stage === 'ask_item') {
-    const lower = msg.toLowerCase();
-    const looksLikeGreeting = /^(hi|hello|hey|yo|sup|good\s*(morning|afternoon|evening)|hola|bonjour|សួស្តី)[!.,\s]*$/i.test(lower) || msg.length < 2;
-    if (looksLikeGreeting) {
-      await saveAssistantMessage(userId, prompts.askItem);
-      return { text: prompts.askItem };
+  // Staff are handling this customer: keep the message for them, but don't answer
+  if (isInHandover(lead)) {
+    if (!isHandoverExpired(lead)) {
+      logger.info({ userId, expiresAt: lead.handover?.expiresAt }, '🙋 Handover: Staff handling conversation, bot stays quiet');
+      return { text: '', silent: true };
+    }
+    lead = await endHandover(repos, lead, 'timeout');
+  }
+
+  // The order was being placed when this message was last handled (or placing stopped midway)
+  if (lead.stage === 'processing_order') {
+    const placed = await resumePlacement(repos, userId, lead, language);
+    if (placed) return placed;
+    lead = { ...lead, stage: 'confirm_order' };
+  }
+
+  if (isHumanRequest(msg)) {
+    await startHandover(repos, lead, 'customer_request', { lastMessage: msg });
+    await repos.messages.saveAssistant(userId, prompts.handoverRequested);
+    return { text: prompts.handoverRequested };
+  }
+
+  // Carousel buttons and quick replies drive the conversation directly
+  if (opts?.postback && opts.postback.action.type !== 'unknown') {
+    return handlePostback(repos, userId, lead, opts.postback.action);
+  }
+
+  // Placed orders ("where is my order", "cancel my order", "my orders"); not while a new one is being confirmed
+  if (!isCollectingStage(lead.stage) && lead.stage !== 'confirm_order') {
+    const orderCommand = parseOrderCommand(msg);
+    if (orderCommand) {
+      return handleOrderCommand(repos, userId, lead, orderCommand, language);
     }
+  }
+
+  // Promo codes ("promo code SAVE10", "remove the coupon") apply to the cart, including while confirming
+  if (!isCollectingStage(lead.stage)) {
+    const promoCommand = parsePromoCommand(msg);
+    if (promoCommand) {
+      return handlePromoCommand(repos, userId, lead, promoCommand, language);
+    }
+  }
+
+  // Corrections ("actually my address is …", "change the size to 43", "make it 2") work from any stage
+  const editCommand = parseEditCommand(msg);
+  if (editCommand) {
+    const editResponse = await handleEditCommand(repos, userId, lead, editCommand, language);
+    if (editResponse) return editResponse;
+  }
+
+  // Cart commands ("show my cart", "add 2 of these to my cart", "remove X") work outside detail collection
+  if (!isCollectingStage(lead.stage)) {
+    const cartCommand = parseCartCommand(msg);
+    if (cartCommand) {
+      const cartResponse = await handleCartCommand(repos, userId, lead, cartCommand, language);
+      if (cartResponse) return cartResponse;
+    }
+  }
 
-    // Save what they're looking for, but stay in browsing mode
-    await updateLead(userId, { item: msg });
-    // Don't change stage yet - let them browse products first
-    // Flow continues to general chat section below
-  }
-  if (lead.stage === 'ask_name') {
-    await updateLead(userId, { name: msg, stage: 'ask_phone' });
-    await saveAssistantMessage(userId, prompts.askPhone);
-    return { text: prompts.askPhone };
-  }
-  if (lead.stage === 'ask_phone') {
-    const norm = normalizePhone(msg, 'KH');
-    await updateLead(userId, { phone: norm.e164 ?? msg, stage: 'ask_email' });
-    await saveAssistantMessage(userId, prompts.askEmail);
-    return { text: prompts.askEmail };
-  }
-  if (lead.stage === 'ask_email') {
-    // Email is optional - allow . to skip
-    const skipEmail = msg.trim() === '.' || msg.toLowerCase().includes('skip');
-    const email = skipEmail ? null : msg.trim();
-    await updateLead(userId, { email, stage: 'ask_address' });
-    await saveAssistantMessage(userId, prompts.askAddress);
-    return { text: prompts.askAddress };
-  }
-  if (lead.stage === 'ask_address') {
-    await updateLead(userId, { address: msg, stage: 'completed' });
-    await saveAssistantMessage(userId, prompts.done);
-    return { text: prompts.done };
+  if (isCollectingStage(lead.stage)) {
+    return collectCheckoutField(repos, userId, lead, lead.stage, msg, language);
   }
   
   // Handle order confirmation
   if (lead.stage === 'confirm_order') {
-    const lower = msg.toLowerCase().trim();
-    
-    if (lower === 'yes' || lower === 'confirm' || lower === 'ok') {
-      // User confirmed order
-      if (!lead.pendingOrder || !lead.name || !lead.phone || !lead.address) {
-        await updateLead(userId, { stage: 'completed', pendingOrder: null });
-        const errorMsg = 'Sorry, there was an issue with your order. Please start again.';
-        await saveAssistantMessage(userId, errorMsg);
-        return { text: errorMsg };
-      }
+    // "yes", "ok go ahead", "បាទ/ចាស", "👍" / "no", "cancel", "អត់ទេ"
+    const answer = parseConfirmation(msg);
+    if (answer === 'yes') {
+      return placeOrder(repos, userId, lead, language);
+    }
+    if (answer === 'no') {
+      return cancelCheckout(repos, userId, lead, language);
+    }
 
-      try {
-        logger.info({ 
-          userId, 
-          customerName: lead.name,
-          customerPhone: lead.phone,
-          pendingOrder: lead.pendingOrder 
-        }, '📦 Starting order creation process');
-
-        // Step 1: Create/find customer
-        logger.info({ userId }, '👤 Creating/finding customer...');
-        const customer = await findOrCreateCustomer(
-          lead.name,
-          lead.phone,
-          lead.email || undefined,
-          lead.address
-        );
-        logger.info({ userId, customerId: customer.id }, '✅ Customer ready');
+    // A bare code ("SAVE10") is most likely a promo code at this point
+    const code = looksLikePromoCode(msg);
+    if (code && await repos.promoCodes.find(code)) {
+      return handlePromoCommand(repos, userId, lead, { type: 'apply', code }, language);
+    }
+    // Anything else ("yes please", "go ahead", "deliver to my office instead") is up to the model
+  }
 
-        // Step 2: Validate order items
-        if (!lead.pendingOrder?.items || lead.pendingOrder.items.length === 0) {
-          throw new Error('No items in pending order');
-        }
+  return chat(repos, userId, lead, msg, language, opts);
+}
 
-        // Step 3: Create order with items
-        logger.info({ userId, customerId: customer.id }, '📝 Creating order in database...');
-        const order = await createOrder(
-          customer.id,
-          lead.pendingOrder.items.map(item => ({
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.price
-          })),
-          'pending'
-        );
+/**
+ * Place the order being confirmed: stock check, claim, customer, promo redemption, order, lead reset
+ *
+ * The lead moves to processing_order (with a placement ID) before anything is written, so a lead
+ * changed by another message in the meantime fails the claim instead of placing twice. The order
+ * is created with the placement ID; handling the message again finds it (see resumePlacement).
+ */
+async function placeOrder(repos: Repositories, userId: string, lead: LeadDoc, language: Language): Promise<ConversationResponse> {
+  if (lead.pendingOrder && lead.pendingOrder.items.length > 0 &&
+      (!hasRequiredDetails(lead) || itemNeedingSize(lead.pendingOrder))) {
+    // Details went missing (e.g. cleared by staff) or an unsized item was added - collect what's missing
+    const next = nextCheckoutStage(lead);
+    await repos.leads.update(userId, { stage: next });
+    return stageResponse(repos, userId, { ...lead, stage: next }, language);
+  }
+  if (!lead.pendingOrder || !lead.name || !lead.phone || !lead.address) {
+    await repos.leads.update(userId, { stage: 'completed', pendingOrder: null });
+    const errorMsg = getPrompts(language).orderIncomplete;
+    await repos.messages.saveAssistant(userId, errorMsg);
+    return { text: errorMsg };
+  }
 
-        logger.info(
-          { 
-            userId, 
-            orderId: order.id, 
-            customerId: customer.id,
-            total: order.total,
-            itemCount: order.items.length
-          },
-          '✅✅✅ ORDER SAVED IN DATABASE'
-        );
+  // The summary the customer confirmed decides the currency (and the confirmation's language)
+  const orderLanguage = lead.pendingOrder.language ?? language;
 
-        // Step 4: Update lead state
-        logger.info({ userId, orderId: order.id }, '💾 Updating lead state...');
-        await updateLead(userId, {
-          stage: 'completed',
-          lastOrderId: order.id,
-          pendingOrder: null
-        });
-        logger.info({ userId }, '✅ Lead updated');
-
-        // Step 5: Send confirmation (using detected language)
-        const confirmMsg = orderConfirmedPrompt(order.id, order.total, language);
-        await saveAssistantMessage(userId, confirmMsg);
-        
-        logger.info(
-          { 
-            userId, 
-            orderId: order.id,
-            customerName: lead.name,
-            total: order.total
-          },
-          '🎉 ORDER FLOW COMPLETED SUCCESSFULLY'
-        );
+  // Stock can change between adding to the cart and confirming
+  const stockResponse = await checkCartStock(repos, userId, lead, language);
+  if (stockResponse) {
+    return stockResponse;
+  }
 
-        return { text: confirmMsg };
-
-      } catch (error: any) {
-        logger.error({ 
-          userId, 
-          error: error.message,
-          stack: error.stack,
-          leadData: {
-            name: lead.name,
-            phone: lead.phone,
-            address: lead.address,
-            hasPendingOrder: !!lead.pendingOrder
-          }
-        }, '❌❌❌ ORDER CREATION FAILED');
-        
-        const errorMsg = 'Sorry, there was an error processing your order. Please try again or contact support.';
-        await saveAssistantMessage(userId, errorMsg);
-        return { text: errorMsg };
-      }
-    } else if (lower === 'no' || lower === 'cancel') {
-      // User cancelled order
-      await updateLead(userId, { stage: 'completed', pendingOrder: null });
-      const cancelMsg = prompts.orderCancelled;
-      await saveAssistantMessage(userId, cancelMsg);
-      return { text: cancelMsg };
-    } else {
-      // Invalid response, ask again
-      const retryMsg = 'Please reply with YES to confirm or NO to cancel.';
-      await saveAssistantMessage(userId, retryMsg);
-      return { text: retryMsg };
+  // Claim the checkout; a version conflict here is retried before anything was written
+  const pendingOrder = { ...lead.pendingOrder, placementId: crypto.randomUUID() };
+  const claimed: LeadDoc = { ...lead, pendingOrder, stage: transition(lead, 'place') ?? 'processing_order' };
+  await repos.leads.update(userId, { stage: claimed.stage, pendingOrder });
+
+  try {
+    logger.info({ 
+      userId, 
+      customerName: lead.name,
+      customerPhone: lead.phone,
+      pendingOrder
+    }, '📦 Starting order creation process');
+
+    // Step 1: Create/find customer
+    logger.info({ userId }, '👤 Creating/finding customer...');
+    const customer = await repos.customers.findOrCreate(
+      userId,
+      lead.name,
+      lead.phone,
+      lead.email || undefined,
+      lead.address
+    );
+    logger.info({ userId, customerId: customer.id }, '✅ Customer ready');
+
+    // Step 2: Redeem the promo code (it may have expired or run out since it was applied)
+    // The use is kept with the placement and given back if the order isn't written
+    const pricing = priceOrder(pendingOrder.items, { address: lead.address, promo: pendingOrder.promo });
+    if (pricing.promoCode && !(await repos.promoCodes.redeem(pricing.promoCode, pricing.subtotal, pendingOrder.placementId))) {
+      await repos.leads.update(userId, { stage: transition(claimed, 'placement_failed') ?? 'confirm_order' });
+      return dropRedeemedPromo(repos, userId, lead, pricing.promoCode, pricing.subtotal, language);
     }
+
+    // Step 3: Create order with items
+    logger.info({ userId, customerId: customer.id, total: pricing.total }, '📝 Creating order in database...');
+    const order = await repos.orders.create(
+      customer.id,
+      pendingOrder.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        price: item.price,
+        size: item.size ?? null,
+        color: item.color ?? null
+      })),
+      { status: 'pending', psid: userId, pricing, currency: currencyFor(orderLanguage), placementId: pendingOrder.placementId }
+    );
+
+    logger.info(
+      { 
+        userId, 
+        orderId: order.id, 
+        customerId: customer.id,
+        total: order.total,
+        itemCount: order.items.length
+      },
+      '✅✅✅ ORDER SAVED IN DATABASE'
+    );
+
+    return await completeOrder(repos, userId, claimed, order, orderLanguage);
+
+  } catch (error: any) {
+    // Handled again with the fresh lead; the order (if written) is found by its placement
+    if (error instanceof LeadVersionConflictError) throw error;
+
+    logger.error({ 
+      userId, 
+      error: error.message,
+      stack: error.stack,
+      leadData: {
+        name: lead.name,
+        phone: lead.phone,
+        address: lead.address,
+        hasPendingOrder: !!lead.pendingOrder
+      }
+    }, '❌❌❌ ORDER CREATION FAILED');
+
+    // Back to confirming, so "yes" tries again with the promo code's use given back
+    await releasePromoRedemption(repos, userId, pendingOrder.placementId);
+    await repos.leads.update(userId, { stage: transition(claimed, 'placement_failed') ?? 'confirm_order' }).catch((err: any) => {
+      logger.error({ userId, error: err.message }, '❌ Failed to release order placement');
+    });
+    
+    const errorMsg = getPrompts(language).orderFailed;
+    await repos.messages.saveAssistant(userId, errorMsg);
+    return { text: errorMsg };
   }
+}
+
+/**
+ * Reset the lead after its order was written and send the confirmation
+ */
+async function completeOrder(repos: Repositories, userId: string, lead: LeadDoc, order: Order, language: Language): Promise<ConversationResponse> {
+  logger.info({ userId, orderId: order.id }, '💾 Updating lead state...');
+  await repos.leads.update(userId, {
+    stage: transition(lead, 'order_placed') ?? 'completed',
+    lastOrderId: order.id,
+    customerId: order.customer_id,
+    pendingOrder: null
+  });
+  logger.info({ userId }, '✅ Lead updated');
+
+  // Send confirmation (in the language of the summary the customer confirmed)
+  const confirmMsg = orderConfirmedPrompt(order, language);
+  await repos.messages.saveAssistant(userId, confirmMsg);
   
-  // General chat - check if user is asking about products OR sent an image
-  let allProducts: RetrievedProduct[] | undefined;
-  let productsToDisplay: RetrievedProduct[] | undefined;
-  const lowerMsg = msg.toLowerCase();
-  
-  // IMPORTANT: Check if user is confirming an order (don't do RAG search for confirmations)
-  const confirmKeywords = ['i\'ll take', 'i will take', 'i want this', 'i want that', 'buy this', 'buy that', 'yes', 'confirm'];
-  const isLikelyConfirming = confirmKeywords.some(keyword => lowerMsg.includes(keyword)) && lowerMsg.length < 100;
-  
-  const isProductQuery = /\b(product|shoe|sneaker|item|what.*have|show|looking for|buy|purchase|available|pant|shirt|jacket|dress|wear|similar|like this)\b/i.test(lowerMsg);
-  const hasImage = opts?.imageUrl && isValidImageUrl(opts.imageUrl);
-  
-  // SKIP RAG if user is just confirming - they already saw products
-  const shouldDoRAG = !isLikelyConfirming && (isProductQuery || hasImage);
-  
-  // Image-based search: prioritize visual similarity
-  if (shouldDoRAG && hasImage) {
+  logger.info(
+    { 
+      userId, 
+      orderId: order.id,
+      customerName: lead.name,
+      total: order.total
+    },
+    '🎉 ORDER FLOW COMPLETED SUCCESSFULLY'
+  );
+
+  return { text: confirmMsg };
+}
+
+/**
+ * A lead left in processing_order: the message that placed the order is being handled again
+ * (lead version conflict, worker retry) or placing stopped midway
+ * @returns the confirmation when the order was written; otherwise null, and the lead is back at confirm_order
+ */
+async function resumePlacement(repos: Repositories, userId: string, lead: LeadDoc, language: Language): Promise<ConversationResponse | null> {
+  const placementId = lead.pendingOrder?.placementId;
+  const order = placementId ? await repos.orders.findByPlacement(placementId) : null;
+  if (order) {
+    logger.info({ userId, orderId: order.id, placementId }, '🔁 Order was already placed, finishing checkout');
+    return completeOrder(repos, userId, lead, order, lead.pendingOrder?.language ?? language);
+  }
+
+  logger.warn({ userId, placementId }, '⚠️ Order placement did not finish, back to confirmation');
+  if (placementId) await releasePromoRedemption(repos, userId, placementId);
+  await repos.leads.update(userId, { stage: transition(lead, 'placement_failed') ?? 'confirm_order' });
+  return null;
+}
+
+/**
+ * Give back the promo code use redeemed for a placement that has no order
+ * Failing to is only logged: the customer can still retry, the code just has one use less
+ */
+async function releasePromoRedemption(repos: Repositories, userId: string, placementId: string): Promise<void> {
+  try {
+    await repos.promoCodes.release(placementId);
+  } catch (err: any) {
+    logger.error({ userId, placementId, error: err.message }, '❌ Failed to release promo code redemption');
+  }
+}
+
+async function cancelCheckout(repos: Repositories, userId: string, lead: LeadDoc, language: Language): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+  await repos.leads.update(userId, { stage: transition(lead, 'cancel') ?? 'completed', pendingOrder: null });
+  const cancelMsg = prompts.orderCancelled;
+  await repos.messages.saveAssistant(userId, cancelMsg);
+  return { text: cancelMsg };
+}
+
+/**
+ * What the sales tools did during this turn
+ * The lead is kept current as tools change it, so later calls in the same turn see the changes
+ */
+type SalesTurn = {
+  lead: LeadDoc;
+  search: { products: RetrievedProduct[]; show: number } | null;
+};
+
+/**
+ * General chat: the model answers, searching the catalog and acting through the sales tools
+ * A photo is matched against the catalog first; the model gets the matches as context
+ */
+async function chat(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  msg: string,
+  language: Language,
+  opts: ConversationOptions | undefined
+): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+  const turn: SalesTurn = { lead, search: null };
+  let imageProducts: RetrievedProduct[] | undefined;
+
+  if (opts?.imageUrl && isValidImageUrl(opts.imageUrl)) {
     try {
-      logger.info({ userId, imageUrl: opts.imageUrl?.slice(0, 100) }, '🖼️ RAG: Image-based product search');
-      
-      // Download and convert image to base64
-      const imageBase64 = await downloadImageAsBase64(opts.imageUrl!, env.PAGE_ACCESS_TOKEN);
-      
-      // Search by image - image search is very specific, so limit to top 5 matches
-      allProducts = await retrieveSimilarContextByImage(imageBase64, { matchCount: 5, minSimilarity: 0 });
-      
-      if (allProducts && allProducts.length > 0) {
+      logger.info({ userId, imageUrl: opts.imageUrl.slice(0, 100) }, '🖼️ RAG: Image-based product search');
+      const imageBase64 = await downloadImageAsBase64(opts.imageUrl, env.PAGE_ACCESS_TOKEN);
+      // Image search is very specific: the top match is the one shown
+      imageProducts = await repos.products.searchByImage(imageBase64, { matchCount: 5, minSimilarity: 0 });
+
+      if (imageProducts.length > 0) {
         logger.info(
-          {
-            userId,
-            retrieved: allProducts.length,
-            topMatch: allProducts[0]?.name,
-            topSimilarity: allProducts[0]?.similarity
-          },
+          { userId, retrieved: imageProducts.length, topMatch: imageProducts[0]?.name, topSimilarity: imageProducts[0]?.similarity },
           '✅ RAG: Products retrieved by image (will show top 1 only)'
         );
+        turn.search = { products: imageProducts, show: 1 };
+        await rememberShownProducts(repos, userId, turn, imageProducts);
       } else {
         logger.info({ userId }, '⚠️ RAG: No products found for image');
       }
     } catch (err: any) {
       logger.error({ userId, error: err.message }, '❌ RAG: Image-based retrieval failed');
-      // Fallback to text-based search if available
-      if (isProductQuery && msg.length > 0) {
-        logger.info({ userId }, '🔄 Falling back to text-based search');
-        try {
-          // Let RAG service decide count dynamically based on query type
-          allProducts = await retrieveSimilarContext(msg, { minSimilarity: 0 });
-        } catch {}
+    }
+  }
+
+  const contextualMessage = imageProducts?.length
+    ? `[User sent an image] ${msg || 'Looking for products similar to this image'}`
+    : msg;
+
+  const ai = await generateAiReplyWithHistory(
+    userId,
+    contextualMessage,
+    lead,
+    imageProducts,
+    repos,
+    salesToolRunner(repos, userId, turn, language)
+  );
+
+  // A tool (checkout, cart, order) answered with its own response
+  if (ai.result) {
+    return ai.result;
+  }
+
+  // The model couldn't answer confidently: hand over instead of guessing
+  if (ai.needsHuman) {
+    await startHandover(repos, turn.lead, 'low_confidence', { lastMessage: msg });
+    await repos.messages.saveAssistant(userId, prompts.handoverLowConfidence);
+    return { text: prompts.handoverLowConfidence };
+  }
+
+  // Out-of-stock products stay in the model's context (labeled) but are never offered in the carousel
+  let productsToDisplay: RetrievedProduct[] = [];
+  const available = turn.search?.products.filter(p => isInStock(p)) ?? [];
+  if (turn.search && available.length > 0) {
+    if (shouldShowCarousel(ai.reply, available)) {
+      const maxProducts = Math.min(available.length, turn.search.show);
+      productsToDisplay = getProductsForCarousel(ai.reply, available, maxProducts, 0.3);
+      logger.info(
+        { userId, displayCount: productsToDisplay.length, maxProducts },
+        `✅ Showing ${productsToDisplay.length}/${available.length} product(s) in carousel`
+      );
+    } else {
+      logger.info({ userId }, '📊 Products quality too low or not mentioned, skipping carousel');
+    }
+  }
+
+  // Non-blocking persistence
+  repos.messages.saveAssistant(userId, ai.reply).catch(() => {});
+  if (Math.random() < 0.1) refreshThreadSummary(userId, repos).catch(() => {});
+  return productsToDisplay.length > 0
+    ? { text: ai.reply, products: productsToDisplay }
+    : { text: ai.reply };
+}
+
+/**
+ * Keep the in-stock products the customer is looking at, for "I'll take it" and size questions later
+ */
+async function rememberShownProducts(repos: Repositories, userId: string, turn: SalesTurn, products: RetrievedProduct[]): Promise<void> {
+  const lastShownProducts = products.filter(p => isInStock(p)).slice(0, 5).map(toProductInfo);
+  if (lastShownProducts.length === 0) return;
+  await repos.leads.update(userId, { lastShownProducts });
+  turn.lead = { ...turn.lead, lastShownProducts };
+}
+
+/**
+ * Sales tools for this turn
+ * Invalid calls are sent back to the model as errors so it can correct them
+ */
+function salesToolRunner(
+  repos: Repositories,
+  userId: string,
+  turn: SalesTurn,
+  language: Language
+): ToolRunner<ConversationResponse> {
+  return {
+    definitions: SALES_TOOLS,
+    async run(call) {
+      const parsed = parseSalesToolCall(call);
+      if (!parsed.ok) {
+        logger.warn({ userId, tool: call.name, error: parsed.error }, '⚠️ AI: Invalid tool call');
+        return { output: `Error: ${parsed.error}` };
       }
+      return handleSalesTool(repos, userId, turn, parsed.call, language);
     }
-  } 
-  // Text-based search: use query text
-  else if (shouldDoRAG && isProductQuery && msg.length > 0) {
-    try {
-      logger.info({ userId, query: msg }, '🔍 RAG: Text-based product search');
-      // Let RAG service decide count dynamically (10 for "show/recommend", 5 for specific)
-      allProducts = await retrieveSimilarContext(msg, { minSimilarity: 0 });
-      
-      if (allProducts && allProducts.length > 0) {
-        logger.info(
-          {
-            userId,
-            retrieved: allProducts.length,
-            topMatch: allProducts[0]?.name,
-            topSimilarity: allProducts[0]?.similarity
-          },
-          '✅ RAG: Products retrieved by text'
-        );
+  };
+}
+
+function variantDetails(args: { quantity?: number | undefined; size?: string | undefined; color?: string | undefined }): VariantDetails {
+  const details: VariantDetails = {};
+  if (args.quantity !== undefined) details.quantity = args.quantity;
+  if (args.size !== undefined) details.size = args.size;
+  if (args.color !== undefined) details.color = args.color;
+  return details;
+}
+
+/**
+ * Run a validated sales tool call
+ * Actions the customer sees (checkout, cart, order) end the turn with their response;
+ * lookups and saved details go back to the model
+ */
+async function handleSalesTool(
+  repos: Repositories,
+  userId: string,
+  turn: SalesTurn,
+  call: SalesToolCall,
+  language: Language
+): Promise<ToolOutcome<ConversationResponse>> {
+  const lead = turn.lead;
+
+  switch (call.name) {
+    case 'search_products': {
+      const products = await repos.products.search(call.args.query, { minSimilarity: 0 }).catch((err: any) => {
+        logger.error({ userId, error: err.message }, '❌ RAG: Text-based retrieval failed');
+        return [] as RetrievedProduct[];
+      });
+      logger.info(
+        { userId, query: call.args.query, retrieved: products.length, topMatch: products[0]?.name },
+        '🔍 RAG: Product search by the model'
+      );
+
+      turn.search = { products, show: call.args.show ?? 3 };
+      await repos.leads.update(userId, { item: call.args.query });
+      turn.lead = { ...turn.lead, item: call.args.query };
+      await rememberShownProducts(repos, userId, turn, products);
+
+      return { output: buildRagContext(products, currencyFor(language)) || 'No matching products found.' };
+    }
+
+    case 'show_product_details':
+    case 'add_to_cart':
+    case 'start_checkout': {
+      if (call.name === 'start_checkout' && !call.args.productId) {
+        return { output: '', result: await startCheckout(repos, userId, lead, lead.pendingOrder, language) };
       }
-    } catch (err: any) {
-      logger.error({ userId, error: err.message }, '❌ RAG: Text-based retrieval failed');
+      const productId = call.args.productId!;
+      const product = await repos.products.getById(productId);
+      if (!product) {
+        return { output: `Error: no product with ID "${productId}". Search first and use an ID from the results.` };
+      }
+      const action = call.name === 'show_product_details' ? 'details' : call.name === 'add_to_cart' ? 'cart_add' : 'buy';
+      const details = call.name === 'show_product_details' ? {} : variantDetails(call.args);
+      return { output: '', result: await handleProductAction(repos, userId, lead, action, product, language, details) };
+    }
+
+    case 'set_customer_field': {
+      const { field, value } = call.args;
+      const checked = validateCheckoutField(field, value);
+      if (!checked.ok) {
+        return { output: `Error: "${value}" is not a valid ${field}. Ask the customer for it again.` };
+      }
+
+      await repos.leads.update(userId, { [field]: checked.value });
+      turn.lead = { ...turn.lead, [field]: checked.value };
+
+      // The order summary shows the details, so show it again with the change
+      if (turn.lead.stage === 'confirm_order') {
+        return { output: '', result: await stageResponse(repos, userId, turn.lead, language) };
+      }
+      return { output: `Saved ${field}.` };
+    }
+
+    case 'confirm_order':
+      if (lead.stage === 'confirm_order') {
+        return { output: '', result: await placeOrder(repos, userId, lead, language) };
+      }
+      if (lead.pendingOrder?.items.length) {
+        return { output: '', result: await startCheckout(repos, userId, lead, lead.pendingOrder, language) };
+      }
+      return { output: 'Error: there is no order waiting for confirmation. Help the customer choose a product first.' };
+
+    case 'cancel_order': {
+      if (!call.args.orderId && lead.stage === 'confirm_order') {
+        return { output: '', result: await cancelCheckout(repos, userId, lead, language) };
+      }
+      const command: OrderCommand = call.args.orderId ? { type: 'cancel', orderRef: call.args.orderId } : { type: 'cancel' };
+      return { output: '', result: await handleOrderCommand(repos, userId, lead, command, language) };
     }
   }
-  
-  // Store products when we retrieve them (for use in confirmations later)
-  if (allProducts && allProducts.length > 0) {
-    const productsToStore = allProducts.slice(0, 5).map(p => ({
-      id: p.id,
-      name: p.name,
-      price: p.price || 0,
-      similarity: p.similarity
-    }));
-    await updateLead(userId, { lastShownProducts: productsToStore });
-    logger.info({ userId, productCount: productsToStore.length }, '💾 Stored last shown products for future confirmation');
+}
+
+/**
+ * Act on one product (a carousel button, or the model's choice)
+ */
+async function handleProductAction(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  action: 'buy' | 'cart_add' | 'details' | 'more_like',
+  product: RetrievedProduct,
+  language: Language,
+  details: VariantDetails = {}
+): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+  const quantity = details.quantity ?? 1;
+
+  if ((action === 'buy' || action === 'cart_add') && !isInStock(product, quantity)) {
+    return offerAlternatives(repos, userId, product, language);
   }
-  
-  // Generate AI response with product context
-  // For image searches, add context to the message
-  const contextualMessage = hasImage && allProducts && allProducts.length > 0
-    ? `[User sent an image] ${msg || 'Looking for products similar to this image'}`
-    : msg;
-  
-  // Get AI reply with detected language
-  const { reply, language: aiLanguage } = await generateAiReplyWithHistory(userId, contextualMessage, lead, allProducts);
-  
-  // Use AI's language for order prompts (more reliable than initial detection)
-  const orderLanguage = aiLanguage;
-  
-  // IMPORTANT: Only create order when user CONFIRMS a specific product, not just says "buy"
-  // Check for explicit confirmation: "I'll take it", "I want this one", "yes I'll buy this"
-  // When confirming, use lastShownProducts instead of doing new RAG search
-  const productsForOrder = allProducts || lead.lastShownProducts?.map(p => ({
-    id: p.id,
-    name: p.name,
-    price: p.price,
-    similarity: p.similarity || 0
-  }));
-  
-  const isConfirmingOrder = isLikelyConfirming && 
-                            productsForOrder && productsForOrder.length > 0 && 
-                            lowerMsg.length < 100; // Short confirmations only
-  
-  // Only create order if:
-  // 1. User is confirming (not just browsing)
-  // 2. Products are available
-  // 3. User info is collected
-  if (isConfirmingOrder && productsForOrder && productsForOrder.length > 0 && lead.name && lead.phone && lead.address) {
-    // IMPORTANT: Only order the TOP 1 product that the user just looked at
-    // User is confirming "this" product from their previous query, not multiple products
-    const orderItems = productsForOrder.slice(0, 1).map(product => ({  // ✅ ONLY TOP 1 PRODUCT
-      productId: product.id,
-      productName: product.name,
-      quantity: 1, // Default quantity, could be extracted from message
-      price: product.price || 0
-    }));
-
-    const total = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
-    logger.info(
-      { 
-        userId, 
-        selectedProduct: orderItems[0]?.productName,
-        price: orderItems[0]?.price,
-        total 
-      }, 
-      '🛒 Creating pending order for TOP product match'
-    );
+  await repos.leads.update(userId, {
+    item: product.name,
+    lastShownProducts: [toProductInfo(product)]
+  });
 
-    // Save pending order
-    await updateLead(userId, {
-      stage: 'confirm_order',
-      pendingOrder: { items: orderItems, total }
-    });
+  if (action === 'buy') {
+    return checkoutWithProducts(repos, userId, lead, [product], language, details);
+  }
 
-    const confirmMsg = confirmOrderPrompt(
-      orderItems.map(item => ({
-        name: item.productName,
-        qty: item.quantity,
-        price: item.price
-      })),
-      total,
-      orderLanguage
-    );
+  if (action === 'cart_add') {
+    const cart = addToCart(lead.pendingOrder, product, quantity, variantFor(product, details));
+    return saveCart(repos, userId, lead, cart, language, { name: product.name, qty: quantity });
+  }
 
-    logger.info({ userId, orderItems, total }, '🛒 Pending order created, awaiting confirmation');
-    await saveAssistantMessage(userId, confirmMsg);
-    return { text: confirmMsg };
+  if (action === 'details') {
+    const text = productDetailsPrompt(product, language);
+    await repos.messages.saveAssistant(userId, text);
+    const moreLike = { title: prompts.labels.moreLike, payload: buildPostbackPayload({ type: 'more_like', productId: product.id }) };
+    return {
+      text,
+      products: [product],
+      quickReplies: isInStock(product)
+        ? [
+            { title: prompts.labels.addToCart, payload: buildPostbackPayload({ type: 'cart_add', productId: product.id }) },
+            { title: prompts.labels.buy, payload: buildPostbackPayload({ type: 'buy', productId: product.id }) },
+            moreLike
+          ]
+        : [moreLike]
+    };
   }
-  
-  // IMPORTANT: Determine how many products to show based on query type
-  if (allProducts && allProducts.length > 0) {
-    // Check if user is asking for recommendations or browsing multiple options
-    const isAskingForOptions = /\b(recommend|show|what.*have|options|choices|all|any)\b/i.test(lowerMsg);
-    const isGeneralQuery = lowerMsg.split(' ').length <= 3; // Short queries like "shoes", "blue sneakers"
-    
-    let maxProducts = 2; // Default
-    
-    if (hasImage) {
-      // Image search: show top 1 match
-      maxProducts = 1;
-    } else if (isAskingForOptions || isGeneralQuery) {
-      // User wants to see options: show 4-5 products
-      maxProducts = Math.min(allProducts.length, 5);
-    } else {
-      // Specific query: show 2-3 products
-      maxProducts = Math.min(allProducts.length, 3);
+
+  // more_like: search around the product and exclude it from results
+  const similar = await findInStockAlternatives(
+    repos,
+    [product.name, product.category].filter(Boolean).join(' '),
+    [product.id]
+  );
+
+  if (similar.length > 0) {
+    await repos.leads.update(userId, { lastShownProducts: similar.map(toProductInfo) });
+  }
+
+  const intro = similarProductsPrompt(product.name, similar.length > 0, language);
+  await repos.messages.saveAssistant(userId, intro);
+  return similar.length > 0 ? { text: intro, products: similar } : { text: intro };
+}
+
+function toProductInfo(p: RetrievedProduct): ProductInfo {
+  return { id: p.id, name: p.name, price: p.price || 0, similarity: p.similarity, imageUrl: p.image_url, size: p.size };
+}
+
+function fromProductInfo(p: ProductInfo): CartProduct {
+  return { id: p.id, name: p.name, price: p.price, image_url: p.imageUrl ?? null, size: p.size ?? null };
+}
+
+/**
+ * Variant to store on a cart line
+ * A color is only kept when the product actually mentions it
+ */
+function variantFor(product: CartProduct, details: VariantDetails): CartVariant {
+  return {
+    size: details.size,
+    color: details.color && productHasColor(product, details.color) ? details.color : undefined
+  };
+}
+
+/**
+ * Add the selected products to the cart and start checkout
+ */
+async function checkoutWithProducts(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  products: CartProduct[],
+  language: Language,
+  details: VariantDetails = {}
+): Promise<ConversationResponse> {
+  let cart: Cart | null | undefined = lead.pendingOrder;
+  for (const product of products) {
+    cart = addToCart(cart, product, details.quantity ?? 1, variantFor(product, details));
+  }
+
+  logger.info(
+    { 
+      userId, 
+      selectedProducts: products.map(p => p.name),
+      details,
+      cartSize: cart?.items.length,
+      total: cart?.total
+    }, 
+    '🛒 Added selected product to cart for checkout'
+  );
+
+  return startCheckout(repos, userId, lead, cart, language);
+}
+
+/**
+ * Move the cart into checkout
+ * Goes straight to confirmation when sizes and the customer's details are known,
+ * otherwise starts collecting them (ask_size → ask_name → … → ask_address → confirm_order)
+ */
+async function startCheckout(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  cart: Cart | null | undefined,
+  language: Language
+): Promise<ConversationResponse> {
+  if (!cart || cart.items.length === 0) {
+    const empty = getPrompts(language).cartEmpty;
+    await repos.messages.saveAssistant(userId, empty);
+    return { text: empty };
+  }
+
+  const pendingOrder = cart;
+  const fresh = !isCollectingStage(lead.stage) && lead.stage !== 'confirm_order';
+  const customerLead = fresh ? await recognizeCustomer(repos, userId, lead) : lead;
+  const next = transition({ ...customerLead, pendingOrder }, 'buy') ?? lead.stage;
+
+  await repos.leads.update(userId, { stage: next, pendingOrder });
+
+  logger.info(
+    { userId, orderItems: pendingOrder.items, total: pendingOrder.total, stage: next },
+    next === 'confirm_order' ? '🛒 Pending order created, awaiting confirmation' : '📋 Pending order saved, collecting customer details'
+  );
+
+  // A returning customer is greeted and asked whether the last address still applies
+  const welcome = fresh && next === 'confirm_order' && customerLead.customerId && customerLead.name
+    ? welcomeBackPrompt(customerLead.name, language)
+    : undefined;
+  return stageResponse(repos, userId, { ...customerLead, stage: next, pendingOrder }, language, welcome);
+}
+
+/**
+ * Fill in details missing on the lead from the customer this chat ordered as before
+ * Only the chat's own link is used: a phone number alone doesn't reveal a customer's address
+ */
+async function recognizeCustomer(repos: Repositories, userId: string, lead: LeadDoc): Promise<LeadDoc> {
+  if (!lead.customerId) return lead;
+
+  let customer: Customer | null;
+  try {
+    customer = await repos.customers.get(lead.customerId);
+  } catch (err: any) {
+    logger.warn({ userId, customerId: lead.customerId, error: err.message }, '⚠️ Returning customer lookup failed');
+    return lead;
+  }
+  if (!customer) return lead;
+  if (customer.psid !== userId) {
+    // Another chat's customer (linked before customers recorded their chat) isn't ours to fill in from
+    await repos.leads.update(userId, { customerId: null });
+    logger.warn({ userId, customerId: customer.id }, '⚠️ Linked customer was created from another chat, unlinking');
+    return { ...lead, customerId: null };
+  }
+
+  const known: Partial<LeadDoc> = {};
+  for (const field of ['name', 'phone', 'email', 'address'] as const) {
+    if (!lead[field] && customer[field]) known[field] = customer[field];
+  }
+  if (Object.keys(known).length === 0) return lead;
+
+  await repos.leads.update(userId, known);
+  logger.info({ userId, customerId: customer.id, fields: Object.keys(known) }, '👤 Returning customer: details filled in from their last order');
+  return { ...lead, ...known };
+}
+
+/**
+ * YES/NO buttons under the order summary
+ */
+function confirmQuickReplies(language: Language): QuickReply[] {
+  const labels = getPrompts(language).labels;
+  return [
+    { title: labels.confirmOrder, payload: buildPostbackPayload({ type: 'confirm_order' }) },
+    { title: labels.declineOrder, payload: buildPostbackPayload({ type: 'decline_order' }) }
+  ];
+}
+
+function cartQuickReplies(language: Language, withClear: boolean = false): QuickReply[] {
+  const labels = getPrompts(language).labels;
+  return [
+    { title: labels.checkout, payload: buildPostbackPayload({ type: 'checkout' }) },
+    { title: labels.keepShopping, payload: buildPostbackPayload({ type: 'keep_shopping' }) },
+    ...(withClear ? [{ title: labels.clearCart, payload: buildPostbackPayload({ type: 'clear_cart' }) }] : [])
+  ];
+}
+
+/**
+ * Show the cart as a summary message plus a carousel of its items
+ */
+async function showCart(repos: Repositories, userId: string, lead: LeadDoc, language: Language): Promise<ConversationResponse> {
+  const cart = lead.pendingOrder;
+  if (!cart || cart.items.length === 0) {
+    const empty = getPrompts(language).cartEmpty;
+    await repos.messages.saveAssistant(userId, empty);
+    return { text: empty };
+  }
+
+  const summary = cartSummaryPrompt(
+    cart.items.map(item => ({ name: orderItemLabel(item, language), qty: item.quantity, price: item.price })),
+    cart.total,
+    language
+  );
+  await repos.messages.saveAssistant(userId, summary);
+  return { text: summary, cartItems: cart.items, quickReplies: cartQuickReplies(language, true) };
+}
+
+/**
+ * Persist a changed cart and reply
+ * During confirm_order the confirmation is re-rendered so the customer confirms what they'll get
+ */
+async function saveCart(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  cart: Cart,
+  language: Language,
+  added?: { name: string; qty: number }
+): Promise<ConversationResponse> {
+  const isEmpty = cart.items.length === 0;
+
+  if (lead.stage === 'confirm_order') {
+    const stage = isEmpty ? (transition(lead, 'cancel') ?? 'completed') : lead.stage;
+    await repos.leads.update(userId, { pendingOrder: isEmpty ? null : cart, stage });
+    const reply = isEmpty ? getPrompts(language).cartEmpty : stagePrompt({ ...lead, pendingOrder: cart }, language);
+    await repos.messages.saveAssistant(userId, reply);
+    return isEmpty ? { text: reply } : { text: reply, quickReplies: confirmQuickReplies(language) };
+  }
+
+  await repos.leads.update(userId, { pendingOrder: isEmpty ? null : cart });
+  logger.info({ userId, cartSize: cart.items.length, total: cart.total }, '🛒 Cart updated');
+
+  if (added) {
+    const reply = addedToCartPrompt(added.name, added.qty, cartItemCount(cart), language);
+    await repos.messages.saveAssistant(userId, reply);
+    return { text: reply, quickReplies: cartQuickReplies(language) };
+  }
+
+  return showCart(repos, userId, { ...lead, pendingOrder: isEmpty ? null : cart }, language);
+}
+
+async function clearCart(repos: Repositories, userId: string, lead: LeadDoc, language: Language): Promise<ConversationResponse> {
+  const cleared = getPrompts(language).cartCleared;
+  const stage = lead.stage === 'confirm_order' ? (transition(lead, 'cancel') ?? 'completed') : lead.stage;
+  await repos.leads.update(userId, { pendingOrder: null, stage });
+  await repos.messages.saveAssistant(userId, cleared);
+  return { text: cleared };
+}
+
+/**
+ * Handle a free-text cart command
+ * @returns null when the command doesn't apply (e.g. "remove" with an empty cart) so normal chat can answer
+ */
+async function handleCartCommand(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  command: CartCommand,
+  language: Language
+): Promise<ConversationResponse | null> {
+  const prompts = getPrompts(language);
+  const cart = lead.pendingOrder;
+
+  logger.info({ userId, command }, '🛒 Cart command detected');
+
+  switch (command.type) {
+    case 'show':
+      return showCart(repos, userId, lead, language);
+
+    case 'clear':
+      return clearCart(repos, userId, lead, language);
+
+    case 'checkout':
+      return startCheckout(repos, userId, lead, cart, language);
+
+    case 'add': {
+      const shown = (lead.lastShownProducts ?? []).map(fromProductInfo);
+      let product: CartProduct | null = findProductByName(command.productQuery, shown);
+
+      // Not among the products we just showed - look it up in the catalog
+      if (!product) {
+        try {
+          const [top] = await repos.products.search(command.productQuery, { matchCount: 1, minSimilarity: 0.3 });
+          if (top && !isInStock(top, command.quantity)) {
+            return offerAlternatives(repos, userId, top, language);
+          }
+          product = top ?? null;
+        } catch (err: any) {
+          logger.error({ userId, error: err.message }, '❌ RAG: Cart product lookup failed');
+        }
+      }
+
+      if (!product) {
+        await repos.messages.saveAssistant(userId, prompts.cartItemNotFound);
+        return { text: prompts.cartItemNotFound };
+      }
+
+      const line = toCartLine(product, command.quantity, variantFor(product, command));
+      return saveCart(repos, userId, lead, addLineToCart(cart, line), language, {
+        name: orderItemLabel(line, language),
+        qty: line.quantity
+      });
     }
-    
-    if (shouldShowCarousel(reply, allProducts)) {
-      productsToDisplay = getProductsForCarousel(reply, allProducts, maxProducts, 0.3);
-      
-      if (productsToDisplay.length === 0) {
-        logger.info({ userId }, '📊 No products matched AI recommendation, skipping carousel');
-      } else {
-        logger.info(
-          { 
-            userId, 
-            displayCount: productsToDisplay.length, 
-            maxProducts,
-            searchType: hasImage ? 'image' : isAskingForOptions ? 'options' : 'text' 
-          },
-          `✅ Showing ${productsToDisplay.length}/${allProducts.length} product(s) in carousel`
-        );
+
+    case 'remove':
+    case 'set_quantity': {
+      if (!cart || cart.items.length === 0) return null;
+
+      // Without "from my cart" ("drop the price") it is only a removal when it names a cart line exactly
+      if (command.type === 'remove' && !command.fromCart) {
+        const query = command.productQuery.toLowerCase().replace(/\s+/g, ' ');
+        if (!cart.items.some(i => i.productName.toLowerCase() === query)) return null;
       }
+
+      const item = findProductByName(
+        command.productQuery,
+        cart.items.map(i => ({ ...i, name: i.productName }))
+      );
+      if (!item) {
+        await repos.messages.saveAssistant(userId, prompts.cartItemNotFound);
+        return { text: prompts.cartItemNotFound };
+      }
+
+      const updated = command.type === 'remove'
+        ? removeFromCart(cart, cartLineKey(item))
+        : setCartQuantity(cart, cartLineKey(item), command.quantity);
+      return saveCart(repos, userId, lead, updated, language);
+    }
+  }
+}
+
+/**
+ * Apply or remove a promo code on the cart
+ * During confirm_order the confirmation is re-rendered with the new total
+ */
+async function handlePromoCommand(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  command: PromoCommand,
+  language: Language
+): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+  const cart = lead.pendingOrder;
+
+  logger.info({ userId, command }, '🏷️ Promo code command detected');
+
+  let reply: string;
+  let updated: Cart | null = null;
+
+  if (!cart || cart.items.length === 0) {
+    reply = command.type === 'apply' ? prompts.promoNeedsCart : prompts.cartEmpty;
+  } else if (command.type === 'remove') {
+    updated = { ...cart, promo: null };
+    reply = prompts.promoRemoved;
+  } else {
+    const promo = await repos.promoCodes.find(command.code);
+    const rejection = checkPromoCode(promo, cart.total);
+    if (promo && !rejection) {
+      updated = { ...cart, promo: toAppliedPromo(promo) };
+      reply = promoAppliedPrompt(promo.code, promoDiscount(updated.promo, cart.total), language);
+      logger.info({ userId, code: promo.code }, '🏷️ Promo code applied');
     } else {
-      logger.info({ userId }, '📊 Products quality too low or not mentioned, skipping carousel');
+      reply = promoRejectedPrompt(command.code, rejection ?? 'not_found', language, promo?.minSubtotal);
+      logger.info({ userId, code: command.code, rejection }, '🏷️ Promo code rejected');
     }
   }
-  
-  // Non-blocking persistence
-  saveAssistantMessage(userId, reply).catch(() => {});
-  if (Math.random() < 0.1) refreshThreadSummary(userId).catch(() => {});
-  return productsToDisplay && productsToDisplay.length > 0 
-    ? { text: reply, products: productsToDisplay } 
+
+  if (updated) {
+    await repos.leads.update(userId, { pendingOrder: updated });
+  }
+  const confirming = lead.stage === 'confirm_order' && !!cart && cart.items.length > 0;
+  if (confirming) {
+    reply += '\n\n' + stagePrompt({ ...lead, pendingOrder: updated ?? cart }, language);
+  }
+
+  await repos.messages.saveAssistant(userId, reply);
+  return confirming ? { text: reply, quickReplies: confirmQuickReplies(language) } : { text: reply };
+}
+
+/**
+ * The cart's promo code couldn't be redeemed when the order was placed
+ * Drop it and ask the customer to confirm the full price
+ */
+async function dropRedeemedPromo(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  code: string,
+  subtotal: number,
+  language: Language
+): Promise<ConversationResponse> {
+  const promo = await repos.promoCodes.find(code);
+  const reason = checkPromoCode(promo, subtotal) ?? 'used_up';
+  const cart = lead.pendingOrder ? { ...lead.pendingOrder, promo: null } : null;
+  logger.warn({ userId, code, reason }, '🏷️ Promo code could not be redeemed, removed from cart');
+
+  await repos.leads.update(userId, { pendingOrder: cart });
+  const reply = promoRejectedPrompt(code, reason, language, promo?.minSubtotal) + '\n\n' +
+    stagePrompt({ ...lead, pendingOrder: cart }, language);
+  await repos.messages.saveAssistant(userId, reply);
+  return { text: reply, quickReplies: confirmQuickReplies(language) };
+}
+
+/**
+ * Orders placed from this chat
+ * Not by the lead's phone: that's whatever number was typed, and would show (and let the sender
+ * cancel) another customer's orders
+ */
+async function customerOrders(repos: Repositories, lead: LeadDoc): Promise<Order[]> {
+  return repos.orders.listByPsid(lead.userId, 10);
+}
+
+/**
+ * Pick the order a command is about: the one named (full ID or its first characters),
+ * otherwise the last order from this chat, otherwise the newest
+ */
+function resolveOrder(orders: Order[], lead: LeadDoc, orderRef: string | undefined): Order | undefined {
+  if (orderRef) {
+    const ref = orderRef.toLowerCase();
+    return orders.find(order => order.id.toLowerCase() === ref)
+      ?? orders.find(order => order.id.toLowerCase().startsWith(ref));
+  }
+  return orders.find(order => order.id === lead.lastOrderId) ?? orders[0];
+}
+
+async function handleOrderCommand(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  command: OrderCommand,
+  language: Language
+): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+
+  logger.info({ userId, command }, '📦 Order command detected');
+
+  const orders = await customerOrders(repos, lead);
+
+  if (command.type === 'list') {
+    const reply = orders.length > 0 ? orderListPrompt(orders, language) : prompts.noOrders;
+    await repos.messages.saveAssistant(userId, reply);
+    return { text: reply };
+  }
+
+  const order = resolveOrder(orders, lead, command.orderRef);
+  if (!order) {
+    const reply = orders.length > 0 || command.orderRef ? prompts.orderNotFound : prompts.noOrders;
+    await repos.messages.saveAssistant(userId, reply);
+    return { text: reply };
+  }
+
+  const cancelPayload = buildPostbackPayload({ type: 'cancel_order', orderId: order.id });
+
+  if (command.type === 'cancel') {
+    if (order.status !== 'pending') {
+      const reply = orderNotCancellablePrompt(order, language);
+      await repos.messages.saveAssistant(userId, reply);
+      return { text: reply };
+    }
+
+    // Cancelling only happens on the button, so a stray "cancel my order" can't lose an order
+    const reply = confirmCancelOrderPrompt(order.id, language);
+    await repos.messages.saveAssistant(userId, reply);
+    return {
+      text: reply,
+      quickReplies: [
+        { title: prompts.labels.confirmCancel, payload: cancelPayload },
+        { title: prompts.labels.keepOrder, payload: buildPostbackPayload({ type: 'keep_shopping' }) }
+      ]
+    };
+  }
+
+  const reply = orderStatusPrompt(order, language);
+  await repos.messages.saveAssistant(userId, reply);
+  return order.status === 'pending'
+    ? { text: reply, quickReplies: [{ title: prompts.labels.cancelOrder, payload: cancelPayload }] }
     : { text: reply };
 }
 
+/**
+ * Cancel a pending order from its confirmation button
+ */
+async function cancelCustomerOrder(repos: Repositories, userId: string, lead: LeadDoc, orderId: string, language: Language): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+
+  // Payloads can be forged: only orders this customer placed can be cancelled
+  const order = (await customerOrders(repos, lead)).find(o => o.id === orderId);
+  if (!order) {
+    logger.warn({ userId, orderId }, '⚠️ Cancel requested for an order the customer did not place');
+    await repos.messages.saveAssistant(userId, prompts.orderNotFound);
+    return { text: prompts.orderNotFound };
+  }
+
+  const cancelled = order.status === 'pending' && await repos.orders.cancel(order.id);
+  if (!cancelled) {
+    // Accepted (or already cancelled) since the customer asked
+    const current = await repos.orders.get(order.id) ?? order;
+    const reply = orderNotCancellablePrompt(current, language);
+    await repos.messages.saveAssistant(userId, reply);
+    return { text: reply };
+  }
+
+  logger.info({ userId, orderId }, '❌ Order cancelled by customer');
+  const reply = orderCancelledByCustomerPrompt(order.id, language);
+  await repos.messages.saveAssistant(userId, reply);
+  return { text: reply };
+}
+
+/**
+ * Save the detail asked for by the current checkout stage and move to the next one
+ * Invalid details are asked for again; a question is answered first, then the detail is asked again
+ */
+async function collectCheckoutField(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  stage: CheckoutStage,
+  msg: string,
+  language: Language
+): Promise<ConversationResponse> {
+  if (stage === 'ask_size') {
+    return collectSize(repos, userId, lead, msg, language);
+  }
+
+  const field = checkoutFieldFor(stage);
+  const prompts = getPrompts(language);
+
+  if (isQuestion(msg)) {
+    return answerDuringCheckout(repos, userId, lead, field, msg, language);
+  }
 
+  const result = validateCheckoutField(field, msg);
+  if (!result.ok) {
+    logger.info({ userId, stage, field }, '📋 Checkout: Invalid detail, asking again');
+    const retry = prompts.invalidField[field];
+    await repos.messages.saveAssistant(userId, retry);
+    return { text: retry };
+  }
+
+  const updates: Partial<LeadDoc> = { [field]: result.value };
+  const updated: LeadDoc = { ...lead, ...updates };
+  const next = transition(updated, 'field_collected') ?? 'completed';
+  await repos.leads.update(userId, { ...updates, stage: next });
+
+  return stageResponse(repos, userId, { ...updated, stage: next }, language);
+}
+
+/**
+ * Answer a question asked mid-checkout ("how much is shipping?") and ask for the detail again
+ * The stage doesn't change
+ */
+async function answerDuringCheckout(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  field: CheckoutField,
+  msg: string,
+  language: Language
+): Promise<ConversationResponse> {
+  const prompts = getPrompts(language);
+  logger.info({ userId, stage: lead.stage, field }, '📋 Checkout: Customer asked a question, answering before asking again');
+
+  const { reply, needsHuman } = await generateAiReplyWithHistory(userId, msg, lead, undefined, repos);
+  if (needsHuman) {
+    await startHandover(repos, lead, 'low_confidence', { lastMessage: msg });
+    await repos.messages.saveAssistant(userId, prompts.handoverLowConfidence);
+    return { text: prompts.handoverLowConfidence };
+  }
+
+  const text = `${reply}\n\n${prompts.reaskField[field]}`;
+  await repos.messages.saveAssistant(userId, text);
+  return { text };
+}
+
+/**
+ * Save the size for the first cart line that needs one
+ * Sizes the product doesn't come in are rejected and asked again
+ */
+async function collectSize(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  msg: string,
+  language: Language
+): Promise<ConversationResponse> {
+  let cart = lead.pendingOrder;
+  const item = itemNeedingSize(cart);
+
+  if (item) {
+    const options = item.sizeOptions ?? [];
+    const requested = extractSize(msg) ?? msg.trim();
+    const size = matchSizeOption(requested, options);
+
+    if (!size) {
+      logger.info({ userId, productId: item.productId, requested, options }, '📏 Size not available');
+      const reply = askSizePrompt(item.productName, options, language, requested);
+      await repos.messages.saveAssistant(userId, reply);
+      return { text: reply, quickReplies: sizeQuickReplies(options) };
+    }
+
+    cart = setCartItemSize(cart, cartLineKey(item), size);
+    logger.info({ userId, productId: item.productId, size }, '📏 Size chosen');
+  }
+
+  const updated: LeadDoc = { ...lead, pendingOrder: cart ?? null };
+  const next = transition(updated, 'field_collected') ?? 'completed';
+  await repos.leads.update(userId, { pendingOrder: cart ?? null, stage: next });
+
+  return stageResponse(repos, userId, { ...updated, stage: next }, language);
+}
+
+/**
+ * Apply a correction to a customer detail or a cart line
+ * During checkout the current step is asked again (at confirm_order: the confirmation with the change)
+ * @returns null when there is nothing to change (e.g. an item edit with an empty cart) so normal handling continues
+ */
+async function handleEditCommand(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  command: EditCommand,
+  language: Language
+): Promise<ConversationResponse | null> {
+  logger.info({ userId, stage: lead.stage, command }, '✏️ Edit command detected');
+
+  return command.type === 'field'
+    ? editCustomerField(repos, userId, lead, command.field, command.value, language)
+    : editCartItem(repos, userId, lead, command, language);
+}
+
+async function editCustomerField(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  field: CheckoutField,
+  value: string | null,
+  language: Language
+): Promise<ConversationResponse | null> {
+  const inCheckout = isCollectingStage(lead.stage) || lead.stage === 'confirm_order';
+
+  // "my address is …" while the address is being asked for is just the answer
+  if (value && isCollectingStage(lead.stage) && lead.stage !== 'ask_size' && checkoutFieldFor(lead.stage) === field) {
+    return collectCheckoutField(repos, userId, lead, lead.stage, value, language);
+  }
+
+  const result = value === null ? null : validateCheckoutField(field, value);
+
+  // No new value yet (or an invalid one): go back to that step. Outside checkout the model
+  // asks for it and saves it with set_customer_field
+  if (!result?.ok) {
+    if (!inCheckout) return null;
+    const stage = transition(lead, `edit_${field}`);
+    if (!stage) return null;
+
+    await repos.leads.update(userId, { stage });
+    const reply = result ? getPrompts(language).invalidField[field] : editDetailPrompt(field, language);
+    await repos.messages.saveAssistant(userId, reply);
+    return { text: reply };
+  }
+
+  const updates: Partial<LeadDoc> = { [field]: result.value };
+  await repos.leads.update(userId, updates);
+  logger.info({ userId, field }, '✏️ Customer detail updated');
+
+  const ack = detailUpdatedPrompt(field, language);
+  if (inCheckout) {
+    return stageResponse(repos, userId, { ...lead, ...updates }, language, ack);
+  }
+  await repos.messages.saveAssistant(userId, ack);
+  return { text: ack };
+}
+
+/**
+ * Change the size, color or quantity of a cart line
+ * Sizes the product doesn't come in are rejected; colors it doesn't mention are ignored
+ */
+async function editCartItem(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  edit: Extract<EditCommand, { type: 'item' }>,
+  language: Language
+): Promise<ConversationResponse | null> {
+  const prompts = getPrompts(language);
+  const cart = lead.pendingOrder;
+  if (!cart || cart.items.length === 0) return null;
+
+  // "change the sneakers to size 43" names the line; otherwise "make it 2" is about the last one added
+  const item = edit.productQuery
+    ? findProductByName(edit.productQuery, cart.items.map(i => ({ ...i, name: i.productName })))
+    : cart.items[cart.items.length - 1];
+  if (!item) {
+    await repos.messages.saveAssistant(userId, prompts.cartItemNotFound);
+    return { text: prompts.cartItemNotFound };
+  }
+
+  const variant: CartVariant = {};
+  const options = item.sizeOptions ?? [];
+  if (edit.size && options.length > 0) {
+    variant.size = matchSizeOption(edit.size, options);
+    if (!variant.size) {
+      logger.info({ userId, productId: item.productId, requested: edit.size, options }, '📏 Size not available');
+      const reply = askSizePrompt(item.productName, options, language, edit.size);
+      await repos.messages.saveAssistant(userId, reply);
+      return { text: reply };
+    }
+  }
+  if (edit.color) {
+    const product = await repos.products.getById(item.productId);
+    if (productHasColor(product ?? { name: item.productName }, edit.color)) {
+      variant.color = edit.color;
+    }
+  }
+  if (!variant.size && !variant.color && edit.quantity === undefined) return null;
+
+  let updated: Cart = cart;
+  let lineKey = cartLineKey(item);
+  if (variant.size || variant.color) {
+    updated = setCartItemVariant(updated, lineKey, variant);
+    lineKey = cartLineKey({
+      productId: item.productId,
+      size: variant.size ?? item.size ?? null,
+      color: variant.color ?? item.color ?? null
+    });
+  }
+  if (edit.quantity !== undefined) {
+    updated = setCartQuantity(updated, lineKey, edit.quantity);
+  }
+  logger.info({ userId, productId: item.productId, ...variant, quantity: edit.quantity }, '✏️ Cart item updated');
+
+  if (!isCollectingStage(lead.stage) || updated.items.length === 0) {
+    // Shows the cart, or the confirmation again at confirm_order
+    return saveCart(repos, userId, lead, updated, language);
+  }
+
+  // Mid-checkout: the size being asked for may have just been given
+  const changed: LeadDoc = { ...lead, pendingOrder: updated };
+  const stage = lead.stage === 'ask_size' && !itemNeedingSize(updated)
+    ? transition(changed, 'field_collected') ?? lead.stage
+    : lead.stage;
+  await repos.leads.update(userId, { pendingOrder: updated, stage });
+  return stageResponse(repos, userId, { ...changed, stage }, language, prompts.orderUpdated);
+}
+
+function sizeQuickReplies(options: string[]): QuickReply[] {
+  return options.map(size => ({ title: size, payload: buildPostbackPayload({ type: 'choose_size', size }) }));
+}
+
+/**
+ * Send the prompt for the lead's stage (with size options as quick replies when asking for a size)
+ * @param intro Sent before the prompt, e.g. that a detail was updated
+ */
+async function stageResponse(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  language: Language,
+  intro?: string
+): Promise<ConversationResponse> {
+  const reply = intro ? `${intro}\n\n${stagePrompt(lead, language)}` : stagePrompt(lead, language);
+  await repos.messages.saveAssistant(userId, reply);
+
+  if (lead.stage === 'confirm_order') {
+    // "ok" / "👍" says nothing about the language: the order is placed in the summary's currency
+    if (lead.pendingOrder && lead.pendingOrder.language !== language) {
+      await repos.leads.update(userId, { pendingOrder: { ...lead.pendingOrder, language } });
+    }
+    return { text: reply, quickReplies: confirmQuickReplies(language) };
+  }
+  const sizeOptions = lead.stage === 'ask_size' ? itemNeedingSize(lead.pendingOrder)?.sizeOptions ?? [] : [];
+  return sizeOptions.length > 0 ? { text: reply, quickReplies: sizeQuickReplies(sizeOptions) } : { text: reply };
+}
+
+/**
+ * Message to send when a lead enters a stage
+ */
+function stagePrompt(lead: LeadDoc, language: Language): string {
+  const prompts = getPrompts(language);
+
+  switch (lead.stage) {
+    case 'ask_size': {
+      const item = itemNeedingSize(lead.pendingOrder);
+      return item ? askSizePrompt(item.productName, item.sizeOptions ?? [], language) : prompts.askName;
+    }
+    case 'ask_name':
+      return prompts.askName;
+    case 'ask_phone':
+      return prompts.askPhone;
+    case 'ask_email':
+      return prompts.askEmail;
+    case 'ask_address':
+      return prompts.askAddress;
+    case 'confirm_order':
+      return confirmOrderPrompt(
+        (lead.pendingOrder?.items ?? []).map(item => ({
+          name: orderItemLabel(item, language),
+          qty: item.quantity,
+          price: item.price
+        })),
+        priceOrder(lead.pendingOrder?.items ?? [], { address: lead.address, promo: lead.pendingOrder?.promo }),
+        lead,
+        language
+      );
+    case 'completed':
+      return prompts.done;
+    default:
+      return prompts.askItem;
+  }
+}
+
+/**
+ * Re-check stock for the cart right before the order is placed
+ * Sold-out lines are removed, short lines trimmed, and in-stock alternatives offered
+ * @returns null when everything is available
+ */
+async function checkCartStock(repos: Repositories, userId: string, lead: LeadDoc, language: Language): Promise<ConversationResponse | null> {
+  const cart = lead.pendingOrder;
+  if (!cart || cart.items.length === 0) return null;
+
+  const stock = await repos.products.getStockLevels(cart.items.map(item => item.productId));
+  const { cart: available, shortages } = applyStockLimits(cart, stock);
+  if (shortages.length === 0) return null;
+
+  logger.warn(
+    {
+      userId,
+      shortages: shortages.map(s => ({ productId: s.item.productId, wanted: s.item.quantity, available: s.available }))
+    },
+    '⚠️ Stock: Cart items unavailable at confirmation'
+  );
+
+  const soldOut = shortages.find(s => s.available === 0)?.item;
+  const alternatives = soldOut
+    ? await findInStockAlternatives(repos, soldOut.productName, cart.items.map(item => item.productId))
+    : [];
+
+  const isEmpty = available.items.length === 0;
+  await repos.leads.update(userId, {
+    pendingOrder: isEmpty ? null : available,
+    stage: isEmpty ? (transition(lead, 'cancel') ?? 'completed') : lead.stage,
+    ...(alternatives.length > 0 ? { lastShownProducts: alternatives.map(toProductInfo) } : {})
+  });
+
+  let reply = stockShortagePrompt(
+    shortages.map(s => ({ name: orderItemLabel(s.item, language), available: s.available })),
+    alternatives.length > 0,
+    language
+  );
+  if (!isEmpty) {
+    reply += `\n\n${stagePrompt({ ...lead, pendingOrder: available }, language)}`;
+  }
+
+  await repos.messages.saveAssistant(userId, reply);
+  return {
+    text: reply,
+    ...(alternatives.length > 0 ? { products: alternatives } : {}),
+    ...(isEmpty ? {} : { quickReplies: confirmQuickReplies(language) })
+  };
+}
+
+/**
+ * Find in-stock products similar to a query (e.g. an out-of-stock product's name)
+ * Search failures are logged and return no alternatives
+ */
+async function findInStockAlternatives(
+  repos: Repositories,
+  query: string,
+  excludeIds: string[] = [],
+  limit: number = 3
+): Promise<RetrievedProduct[]> {
+  try {
+    const results = await repos.products.search(query, { minSimilarity: 0 });
+    return results
+      .filter(p => !excludeIds.includes(p.id) && isInStock(p))
+      .slice(0, limit);
+  } catch (err: any) {
+    logger.error({ query, error: err.message }, '❌ RAG: Alternative product search failed');
+    return [];
+  }
+}
+
+/**
+ * Tell the customer a product is out of stock and show similar in-stock products
+ */
+async function offerAlternatives(repos: Repositories, userId: string, product: RetrievedProduct, language: Language): Promise<ConversationResponse> {
+  const alternatives = await findInStockAlternatives(
+    repos,
+    [product.name, product.category].filter(Boolean).join(' '),
+    [product.id]
+  );
+
+  logger.info({ userId, productId: product.id, alternatives: alternatives.length }, '📦 Stock: Product out of stock, offering alternatives');
+
+  if (alternatives.length > 0) {
+    await repos.leads.update(userId, { lastShownProducts: alternatives.map(toProductInfo) });
+  }
+
+  const reply = `${getPrompts(language).outOfStock} ${similarProductsPrompt(product.name, alternatives.length > 0, language)}`;
+  await repos.messages.saveAssistant(userId, reply);
+  return alternatives.length > 0 ? { text: reply, products: alternatives } : { text: reply };
+}
+
+/**
+ * Resolve the conversation language for events without free text (postbacks)
+ * Button titles are always English, so use the bot's last reply instead
+ */
+async function resolveConversationLanguage(repos: Repositories, userId: string): Promise<Language> {
+  const recent = await repos.messages.getHistory(userId, 6);
+  const lastAssistant = recent.find(m => m.role === 'assistant');
+  return lastAssistant ? detectLanguage(lastAssistant.content) : 'en';
+}
+
+/**
+ * Handle a carousel button or quick-reply tap
+ */
+async function handlePostback(
+  repos: Repositories,
+  userId: string,
+  lead: LeadDoc,
+  action: Exclude<PostbackAction, { type: 'unknown' }>
+): Promise<ConversationResponse> {
+  const language = await resolveConversationLanguage(repos, userId);
+  const prompts = getPrompts(language);
+
+  logger.info({ userId, action }, '👆 Handling postback');
+
+  switch (action.type) {
+    case 'get_started':
+      await repos.messages.saveAssistant(userId, prompts.askItem);
+      return { text: prompts.askItem };
+    case 'keep_shopping':
+      await repos.messages.saveAssistant(userId, prompts.keepShopping);
+      return { text: prompts.keepShopping };
+    case 'view_cart':
+      return showCart(repos, userId, lead, language);
+    case 'clear_cart':
+      return clearCart(repos, userId, lead, language);
+    case 'checkout':
+      return startCheckout(repos, userId, lead, lead.pendingOrder, language);
+    case 'cart_remove':
+      return saveCart(repos, userId, lead, removeFromCart(lead.pendingOrder, action.productId), language);
+    case 'cart_increment':
+      return saveCart(repos, userId, lead, changeCartQuantity(lead.pendingOrder, action.productId, 1), language);
+    case 'cart_decrement':
+      return saveCart(repos, userId, lead, changeCartQuantity(lead.pendingOrder, action.productId, -1), language);
+    case 'choose_size':
+      // A stale size button tapped after checkout moved on just repeats the current step
+      return lead.stage === 'ask_size'
+        ? collectSize(repos, userId, lead, action.size, language)
+        : stageResponse(repos, userId, lead, language);
+    case 'cancel_order':
+      return cancelCustomerOrder(repos, userId, lead, action.orderId, language);
+    case 'confirm_order':
+    case 'decline_order':
+      // Buttons under an old summary only count while that order is still being confirmed
+      if (lead.stage !== 'confirm_order') {
+        return stageResponse(repos, userId, lead, language);
+      }
+      return action.type === 'confirm_order'
+        ? placeOrder(repos, userId, lead, language)
+        : cancelCheckout(repos, userId, lead, language);
+  }
+
+  const product = await repos.products.getById(action.productId);
+  if (!product) {
+    await repos.messages.saveAssistant(userId, prompts.productUnavailable);
+    return { text: prompts.productUnavailable };
+  }
+
+  return handleProductAction(repos, userId, lead, action.type, product, language);
+}
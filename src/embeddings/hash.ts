@@ -0,0 +1,62 @@
+import type { EmbeddingProvider } from './types';
+
+/**
+ * Deterministic local embedder for tests and offline runs (no network, no model)
+ *
+ * Feature hashing: every word (text) or 16-char chunk (base64 image) is hashed
+ * to a bucket and a sign, then the vector is L2-normalized. Texts that share
+ * words get a positive cosine similarity, and the same input always gets the
+ * same vector, which is all the replay tests need.
+ */
+
+// FNV-1a 32-bit
+function fnv1a(input: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashFeatures(features: string[], dimension: number): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+
+  for (const feature of features) {
+    const bucket = fnv1a(feature) % dimension;
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[bucket]! += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+function textFeatures(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(word => word.length > 0);
+}
+
+function imageFeatures(imageBase64: string): string[] {
+  const features: string[] = [];
+  for (let i = 0; i < imageBase64.length; i += 16) {
+    features.push(`img:${imageBase64.slice(i, i + 16)}`);
+  }
+  return features;
+}
+
+export function createHashEmbeddingProvider(dimension: number): EmbeddingProvider {
+  return {
+    name: 'hash',
+    dimension,
+    supportsImages: true,
+    async embedText(text: string) {
+      return hashFeatures(textFeatures(text), dimension);
+    },
+    async embedImage(imageBase64: string) {
+      return hashFeatures(imageFeatures(imageBase64), dimension);
+    }
+  };
+}
@@ -0,0 +1,82 @@
+import { env } from '../config';
+import { logger } from '../logger';
+import { createHashEmbeddingProvider } from './hash';
+import { createOpenAiCompatibleEmbeddingProvider } from './openai-compatible';
+import { createVertexProvider } from './vertex';
+import type { EmbeddingProvider } from './types';
+
+export type { EmbeddingProvider } from './types';
+export { createVertexProvider } from './vertex';
+export { createOpenAiCompatibleEmbeddingProvider } from './openai-compatible';
+export { createHashEmbeddingProvider } from './hash';
+
+// products.embedding / products.image_embedding are vector(1408) in supabase.sql,
+// and the search_products_* functions take a vector(1408) query
+export const DATABASE_EMBEDDING_DIMENSION = 1408;
+
+let provider: EmbeddingProvider | null = null;
+
+function createProviderFromEnv(): EmbeddingProvider {
+  switch (env.EMBEDDING_PROVIDER) {
+    case 'openai-compatible':
+      if (!env.EMBEDDING_BASE_URL) {
+        throw new Error('Missing required env var: EMBEDDING_BASE_URL (EMBEDDING_PROVIDER=openai-compatible)');
+      }
+      return createOpenAiCompatibleEmbeddingProvider({
+        baseURL: env.EMBEDDING_BASE_URL,
+        model: env.EMBEDDING_MODEL ?? 'text-embedding-3-large',
+        dimension: env.EMBEDDING_DIMENSION,
+        apiKey: env.EMBEDDING_API_KEY
+      });
+
+    case 'hash':
+      return createHashEmbeddingProvider(env.EMBEDDING_DIMENSION);
+
+    case 'vertex':
+    default: {
+      const { GOOGLE_CLOUD_LOCATION, GOOGLE_CLOUD_PROJECT_ID, GOOGLE_CLOUD_CLIENT_EMAIL, GOOGLE_CLOUD_PRIVATE_KEY } = env;
+      if (!GOOGLE_CLOUD_LOCATION || !GOOGLE_CLOUD_PROJECT_ID || !GOOGLE_CLOUD_CLIENT_EMAIL || !GOOGLE_CLOUD_PRIVATE_KEY) {
+        throw new Error('Missing required env vars: GOOGLE_CLOUD_LOCATION, GOOGLE_CLOUD_PROJECT_ID, GOOGLE_CLOUD_CLIENT_EMAIL, GOOGLE_CLOUD_PRIVATE_KEY');
+      }
+      return createVertexProvider({
+        location: GOOGLE_CLOUD_LOCATION,
+        projectId: GOOGLE_CLOUD_PROJECT_ID,
+        clientEmail: GOOGLE_CLOUD_CLIENT_EMAIL,
+        privateKey: GOOGLE_CLOUD_PRIVATE_KEY,
+        model: env.EMBEDDING_MODEL
+      });
+    }
+  }
+}
+
+/**
+ * Get the configured embedding provider (created on first use)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+    logger.info({ provider: provider.name, dimension: provider.dimension }, '🧠 Embeddings: Provider ready');
+  }
+  return provider;
+}
+
+/**
+ * Replace the embedding provider (tests, replay harness)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Fail fast when the provider's vectors can't be compared with the stored ones
+ * Call at startup: a mismatch otherwise only shows up as a Postgres error on the first search
+ */
+export function assertEmbeddingDimension(embeddings: EmbeddingProvider = getEmbeddingProvider()): void {
+  if (embeddings.dimension !== DATABASE_EMBEDDING_DIMENSION) {
+    throw new Error(
+      `Embedding dimension mismatch: ${embeddings.name} produces ${embeddings.dimension}-dim vectors ` +
+      `but the database stores vector(${DATABASE_EMBEDDING_DIMENSION}). ` +
+      'Set EMBEDDING_DIMENSION / EMBEDDING_MODEL to match, or migrate the embedding columns and search functions.'
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { logger } from '../logger';
+import type { EmbeddingProvider } from './types';
+
+export type OpenAiCompatibleEmbeddingOptions = {
+  baseURL: string;          // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  dimension: number;
+  apiKey?: string | undefined;
+  timeoutMs?: number;
+};
+
+/**
+ * Any `/embeddings` endpoint following the OpenAI API (OpenAI, Ollama, llama.cpp, vLLM, TEI, ...)
+ * Text only: these endpoints don't embed images
+ */
+export function createOpenAiCompatibleEmbeddingProvider(opts: OpenAiCompatibleEmbeddingOptions): EmbeddingProvider {
+  const url = `${opts.baseURL.replace(/\/+$/, '')}/embeddings`;
+
+  return {
+    name: 'openai-compatible',
+    dimension: opts.dimension,
+    supportsImages: false,
+
+    async embedText(text: string): Promise<number[]> {
+      logger.info({ text: text.slice(0, 100), model: opts.model }, '🧠 Embeddings: Generating text embedding');
+
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(opts.apiKey ? { 'Authorization': `Bearer ${opts.apiKey}` } : {})
+        },
+        // `dimensions` lets models like text-embedding-3-* shorten their output to match the database
+        body: JSON.stringify({ model: opts.model, input: text, dimensions: opts.dimension }),
+        signal: AbortSignal.timeout(opts.timeoutMs ?? 10000)
+      });
+
+      if (!res.ok) {
+        const errText = await res.text().catch(() => '');
+        logger.error({ status: res.status, error: errText, url }, '❌ Embeddings: Text embedding failed');
+        throw new Error(`Embedding error ${res.status}: ${errText}`);
+      }
+
+      const data: any = await res.json();
+      const values: number[] | undefined = data?.data?.[0]?.embedding;
+      if (!values || !Array.isArray(values)) {
+        logger.error({ response: JSON.stringify(data).slice(0, 500) }, '❌ Embeddings: Invalid embedding response');
+        throw new Error('Invalid embedding response');
+      }
+      if (values.length !== opts.dimension) {
+        throw new Error(`Embedding model ${opts.model} returned ${values.length} dimensions, expected ${opts.dimension}`);
+      }
+
+      logger.info({ dimension: values.length }, '✅ Embeddings: Text embedding generated');
+      return values.map((v: any) => Number(v));
+    },
+
+    async embedImage(): Promise<number[]> {
+      throw new Error('Image embeddings are not supported by the openai-compatible embedding provider');
+    }
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * An embedding backend
+ * Text and image vectors must live in the same space (and have `dimension` entries)
+ * so a photo can be matched against product embeddings created from text.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  readonly supportsImages: boolean;
+  embedText(text: string): Promise<number[]>;
+  /**
+   * @param imageBase64 Base64 encoded image data
+   * @throws when the provider has no image model (`supportsImages` is false)
+   */
+  embedImage(imageBase64: string): Promise<number[]>;
+}
@@ -0,0 +1,95 @@
+import { GoogleAuth } from 'google-auth-library';
+import { logger } from '../logger';
+import type { EmbeddingProvider } from './types';
+
+export type VertexProviderOptions = {
+  location: string;
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+  model?: string | undefined;
+};
+
+// multimodalembedding@001 returns 1408-dim vectors for both text and images
+const VERTEX_DEFAULT_MODEL = 'multimodalembedding@001';
+const VERTEX_DIMENSION = 1408;
+
+/**
+ * Google Vertex AI multimodal embeddings
+ */
+export function createVertexProvider(opts: VertexProviderOptions): EmbeddingProvider {
+  const model = opts.model ?? VERTEX_DEFAULT_MODEL;
+  const url = `https://${opts.location}-aiplatform.googleapis.com/v1/projects/${opts.projectId}/locations/${opts.location}/publishers/google/models/${model}:predict`;
+
+  // Cache token to avoid 2s overhead on every request
+  let cachedToken: { token: string; expiresAt: number } | null = null;
+
+  async function getAccessToken(): Promise<string> {
+    const now = Date.now();
+    // Return cached token if still valid (with 1min buffer)
+    if (cachedToken && cachedToken.expiresAt > now + 60000) {
+      logger.debug('Using cached access token');
+      return cachedToken.token;
+    }
+
+    logger.info('Fetching new access token');
+    const privateKey = opts.privateKey.replace(/\\n/g, '\n');
+    const auth = new GoogleAuth({
+      credentials: { client_email: opts.clientEmail, private_key: privateKey },
+      scopes: ['https://www.googleapis.com/auth/cloud-platform']
+    });
+    const client = await auth.getClient();
+    const tokenResponse = await client.getAccessToken();
+    if (!tokenResponse || !tokenResponse.token) throw new Error('Failed to obtain Google access token');
+
+    // Cache for 55 minutes (tokens expire in 1 hour)
+    cachedToken = {
+      token: tokenResponse.token,
+      expiresAt: now + 3300000
+    };
+
+    return tokenResponse.token;
+  }
+
+  async function predict(instance: Record<string, unknown>, kind: 'text' | 'image'): Promise<number[]> {
+    const token = await getAccessToken();
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ instances: [instance] })
+    });
+
+    if (!res.ok) {
+      const errText = await res.text().catch(() => '');
+      logger.error({ status: res.status, error: errText, kind }, `❌ Vertex AI: ${kind === 'text' ? 'Text' : 'Image'} embedding failed`);
+      throw new Error(`Vertex ${kind} embed error ${res.status}: ${errText}`);
+    }
+
+    const data: any = await res.json();
+    const values: number[] | undefined = kind === 'text'
+      ? data?.predictions?.[0]?.textEmbedding
+      : data?.predictions?.[0]?.imageEmbedding;
+
+    if (!values || !Array.isArray(values)) {
+      logger.error({ response: JSON.stringify(data).slice(0, 500), kind }, '❌ Vertex AI: Invalid embedding response');
+      throw new Error(`Invalid ${kind} embedding response`);
+    }
+
+    logger.info({ dimension: values.length, kind }, '✅ Vertex AI: Embedding generated');
+    return values.map((v: any) => Number(v));
+  }
+
+  return {
+    name: 'vertex',
+    dimension: VERTEX_DIMENSION,
+    supportsImages: true,
+    embedText(text: string) {
+      logger.info({ text: text.slice(0, 100) }, '🧠 Vertex AI: Generating text embedding');
+      return predict({ text }, 'text');
+    },
+    embedImage(imageBase64: string) {
+      logger.info({ imageSize: Math.round(imageBase64.length / 1024) + 'KB' }, '🖼️ Vertex AI: Generating image embedding');
+      return predict({ image: { bytesBase64Encoded: imageBase64 } }, 'image');
+    }
+  };
+}
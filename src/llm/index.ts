@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs';
+import { env } from '../config';
+import { logger } from '../logger';
+import { createOpenAiCompatibleProvider, createOpenAiProvider } from './openai';
+import { createScriptedProvider, type ScriptedRule } from './scripted';
+import type { LlmProvider } from './types';
+
+export type {
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmToolCall,
+  LlmToolDefinition,
+  ToolOutcome,
+  ToolRunner
+} from './types';
+export { createOpenAiProvider, createOpenAiCompatibleProvider } from './openai';
+export { createScriptedProvider, type ScriptedProvider, type ScriptedRule } from './scripted';
+
+let provider: LlmProvider | null = null;
+
+function createProviderFromEnv(): LlmProvider {
+  switch (env.LLM_PROVIDER) {
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('Missing required env var: LLM_BASE_URL (LLM_PROVIDER=openai-compatible)');
+      }
+      return createOpenAiCompatibleProvider({ baseURL: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY, timeoutMs: env.LLM_TIMEOUT_MS });
+
+    case 'scripted': {
+      const rules: ScriptedRule[] = env.LLM_SCRIPT_FILE
+        ? JSON.parse(readFileSync(env.LLM_SCRIPT_FILE, 'utf8'))
+        : [];
+      return createScriptedProvider(rules);
+    }
+
+    case 'openai':
+    default:
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('Missing required env var: OPENAI_API_KEY');
+      }
+      return createOpenAiProvider({ apiKey: env.OPENAI_API_KEY, timeoutMs: env.LLM_TIMEOUT_MS });
+  }
+}
+
+/**
+ * Get the configured LLM provider (created on first use)
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+    logger.info({ provider: provider.name }, '🧠 LLM: Provider ready');
+  }
+  return provider;
+}
+
+/**
+ * Replace the LLM provider (tests, replay harness)
+ */
+export function setLlmProvider(next: LlmProvider | null): void {
+  provider = next;
+}
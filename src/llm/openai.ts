@@ -0,0 +1,97 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmToolDefinition } from './types';
+
+export type OpenAiProviderOptions = {
+  apiKey: string;
+  baseURL?: string | undefined;
+  timeoutMs?: number;
+  maxRetries?: number;
+};
+
+/**
+ * OpenAI chat completions
+ */
+export function createOpenAiProvider(opts: OpenAiProviderOptions): LlmProvider {
+  return createChatCompletionsProvider('openai', opts, 'max_completion_tokens');
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API (llama.cpp server, Ollama, vLLM, LM Studio, ...)
+ * Most of these only understand the older `max_tokens` parameter and ignore the API key
+ */
+export function createOpenAiCompatibleProvider(opts: { baseURL: string; apiKey?: string | undefined; timeoutMs?: number }): LlmProvider {
+  return createChatCompletionsProvider(
+    'openai-compatible',
+    { apiKey: opts.apiKey || 'not-needed', baseURL: opts.baseURL, timeoutMs: opts.timeoutMs ?? 30000, maxRetries: 1 },
+    'max_tokens'
+  );
+}
+
+function toOpenAiMessage(message: LlmMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments }
+              }))
+            }
+          : {})
+      };
+    default:
+      return message;
+  }
+}
+
+function toOpenAiTool(tool: LlmToolDefinition): ChatCompletionTool {
+  return {
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  };
+}
+
+function createChatCompletionsProvider(
+  name: string,
+  opts: OpenAiProviderOptions,
+  tokenParam: 'max_tokens' | 'max_completion_tokens'
+): LlmProvider {
+  const client = new OpenAI({
+    apiKey: opts.apiKey,
+    ...(opts.baseURL ? { baseURL: opts.baseURL } : {}),
+    timeout: opts.timeoutMs ?? 8000,
+    maxRetries: opts.maxRetries ?? 2
+  });
+
+  return {
+    name,
+    async complete(request: LlmRequest): Promise<LlmResponse> {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        temperature: request.temperature,
+        [tokenParam]: request.maxTokens,
+        messages: request.messages.map(toOpenAiMessage),
+        ...(request.tools?.length ? { tools: request.tools.map(toOpenAiTool) } : {})
+      });
+
+      const message = completion.choices?.[0]?.message;
+      const content = message?.content?.trim();
+      const toolCalls = (message?.tool_calls ?? [])
+        .filter(call => call.type === 'function')
+        .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+
+      return {
+        content: content && content.length > 0 ? content : null,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(completion.usage ? { usage: { totalTokens: completion.usage.total_tokens } } : {})
+      };
+    }
+  };
+}
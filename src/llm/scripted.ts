@@ -0,0 +1,85 @@
+import type { LlmCallSite } from '../config';
+import type { LlmProvider, LlmRequest, LlmResponse, LlmToolCall } from './types';
+
+/**
+ * Deterministic fake LLM for tests and offline runs
+ *
+ * Replies come from the first rule whose `match` is found in the last user message
+ * (and whose `purpose` matches, if set). Without a matching rule the reply is built
+ * from the request itself: product names from the RAG block for replies, and the
+ * user lines for summaries. The same request always gets the same reply.
+ *
+ * A rule with `toolCalls` plays a model deciding to use tools: when the request offers tools,
+ * the calls are returned first, and the reply comes once their results are in.
+ */
+
+export type ScriptedRule = {
+  match: string;           // Case-insensitive substring, or /regex/flags
+  reply?: string;          // Built from the request when omitted
+  purpose?: LlmCallSite;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+};
+
+export type ScriptedProvider = LlmProvider & {
+  readonly calls: LlmRequest[];  // Every request received, for assertions
+};
+
+function toMatcher(match: string): (text: string) => boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(match);
+  if (regex?.[1]) {
+    const pattern = new RegExp(regex[1], regex[2]);
+    return (text) => pattern.test(text);
+  }
+  const needle = match.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+function defaultReply(request: LlmRequest): string {
+  const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+  if (request.purpose === 'summary') {
+    const lines = lastUser.split('\n').filter(line => line.startsWith('USER:')).slice(-5);
+    return lines.map(line => `- ${line.slice('USER:'.length).trim()}`).join('\n') || '- (no customer messages)';
+  }
+
+  // Mention the retrieved products (system prompt or search tool results) so carousel matching
+  // behaves like with a real model (RAG entries start with "#1 (sim=...)"; other "Name:" lines are customer details)
+  const context = request.messages
+    .filter(m => m.role === 'system' || m.role === 'tool')
+    .map(m => m.content ?? '')
+    .join('\n\n');
+  const names = Array.from(context.matchAll(/^#\d+ .*\nName: (.+)$/gm), m => m[1]!.trim()).slice(0, 3);
+  if (names.length > 0) {
+    return `Here is what I found: ${names.join(', ')}. Would you like to order one of these?`;
+  }
+
+  return 'How can I help you today?';
+}
+
+export function createScriptedProvider(rules: ScriptedRule[] = []): ScriptedProvider {
+  const compiled = rules.map(rule => ({ ...rule, test: toMatcher(rule.match) }));
+  const calls: LlmRequest[] = [];
+
+  return {
+    name: 'scripted',
+    calls,
+    async complete(request: LlmRequest): Promise<LlmResponse> {
+      calls.push(request);
+      const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+      const rule = compiled.find(r => (!r.purpose || r.purpose === request.purpose) && r.test(lastUser));
+
+      // Tools are called once per customer message; after their results the model answers
+      const awaitingTools = request.messages[request.messages.length - 1]?.role === 'user';
+      if (rule?.toolCalls?.length && request.tools?.length && awaitingTools) {
+        const toolCalls: LlmToolCall[] = rule.toolCalls.map((call, i) => ({
+          id: `call_${calls.length}_${i}`,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments)
+        }));
+        return { content: null, toolCalls, usage: { totalTokens: 0 } };
+      }
+
+      return { content: rule?.reply ?? defaultReply(request), usage: { totalTokens: 0 } };
+    }
+  };
+}
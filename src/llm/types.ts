@@ -0,0 +1,67 @@
+import type { LlmCallSite } from '../config';
+
+/**
+ * A tool call requested by the model
+ * `arguments` is the JSON text the model produced; it is validated before anything runs
+ */
+export type LlmToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+};
+
+export type LlmMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };  // Result of a tool call, for the model
+
+/**
+ * A function the model may call
+ */
+export type LlmToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;  // JSON schema of the arguments object
+};
+
+export type LlmRequest = {
+  purpose: LlmCallSite;  // Which call site is asking (used for logging and scripted replies)
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  messages: LlmMessage[];
+  tools?: LlmToolDefinition[];
+};
+
+export type LlmResponse = {
+  content: string | null;
+  toolCalls?: LlmToolCall[];  // Present when the model wants tools run before it answers
+  usage?: { totalTokens: number };
+};
+
+/**
+ * A chat-completion backend
+ * Implementations must not throw for an empty completion - return { content: null } instead
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * What running a tool call produced
+ * - output: told to the model, which continues with it
+ * - result: ends the turn; sent to the customer instead of the model's own reply
+ */
+export type ToolOutcome<R> = {
+  output: string;
+  result?: R;
+};
+
+/**
+ * Tools offered to the model and how to run its calls
+ */
+export type ToolRunner<R> = {
+  definitions: LlmToolDefinition[];
+  run(call: LlmToolCall): Promise<ToolOutcome<R>>;
+};
@@ -5,7 +5,7 @@ const isDevelopment = process.env.NODE_ENV !== 'production';
 const baseOptions = {
   level: process.env.LOG_LEVEL || 'info',
   redact: {
-    paths: ['req.headers.authorization', 'headers.authorization', 'OPENAI_API_KEY', 'PAGE_ACCESS_TOKEN'],
+    paths: ['req.headers.authorization', 'headers.authorization', 'OPENAI_API_KEY', 'LLM_API_KEY', 'PAGE_ACCESS_TOKEN', 'ADMIN_API_TOKEN', 'REDIS_URL', 'TELEGRAM_BOT_TOKEN'],
     remove: true
   }
 };
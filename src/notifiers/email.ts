@@ -0,0 +1,34 @@
+import { logger } from '../logger';
+import { formatStaffNotification } from './format';
+import type { StaffNotification, StaffNotifier } from './types';
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type EmailTransport = (message: EmailMessage) => Promise<void>;
+
+/**
+ * Stub transport: logs the email instead of sending it
+ * Pass a real transport (SMTP client, SES, Resend, ...) to createEmailNotifier
+ */
+const logTransport: EmailTransport = async (message) => {
+  logger.info({ to: message.to, subject: message.subject, text: message.text }, '📧 Email notifier (no transport configured)');
+};
+
+function subject(n: StaffNotification): string {
+  return n.type === 'handover_started'
+    ? `Customer ${n.customerName ?? n.userId} needs a person`
+    : `Bot is answering ${n.customerName ?? n.userId} again`;
+}
+
+export function createEmailNotifier(to: string, transport: EmailTransport = logTransport): StaffNotifier {
+  return {
+    name: 'email',
+    async notify(notification) {
+      await transport({ to, subject: subject(notification), text: formatStaffNotification(notification) });
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import type { StaffNotification } from './types';
+
+const REASON_LABELS: Record<StaffNotification['reason'], string> = {
+  customer_request: 'customer asked for a person',
+  low_confidence: 'the bot was not sure how to answer',
+  staff: 'taken over by staff',
+  timeout: 'handover timed out',
+  released: 'released by staff'
+};
+
+/**
+ * Plain-text summary for chat and email notifiers
+ */
+export function formatStaffNotification(n: StaffNotification): string {
+  const lines = n.type === 'handover_started'
+    ? [`🙋 Customer needs a person (${REASON_LABELS[n.reason]})`]
+    : [`🤖 Bot is answering again (${REASON_LABELS[n.reason]})`];
+
+  lines.push(`Customer: ${n.customerName ?? 'unknown'}${n.customerPhone ? ` (${n.customerPhone})` : ''}`);
+  lines.push(`PSID: ${n.userId}`);
+  if (n.lastMessage) lines.push(`Message: ${n.lastMessage}`);
+  if (n.expiresAt) lines.push(`Bot resumes at: ${n.expiresAt}`);
+  return lines.join('\n');
+}
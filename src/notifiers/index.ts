@@ -0,0 +1,80 @@
+import { env } from '../config';
+import { logger } from '../logger';
+import { createEmailNotifier } from './email';
+import { createTelegramNotifier } from './telegram';
+import { createWebhookNotifier } from './webhook';
+import type { StaffNotification, StaffNotifier } from './types';
+
+export type { HandoverReason, StaffNotification, StaffNotifier } from './types';
+export { createWebhookNotifier } from './webhook';
+export { createTelegramNotifier } from './telegram';
+export { createEmailNotifier, type EmailMessage, type EmailTransport } from './email';
+export { formatStaffNotification } from './format';
+
+/**
+ * Staff notifications (human handover)
+ * Configured with STAFF_NOTIFIER; `none` only logs.
+ */
+
+const logNotifier: StaffNotifier = {
+  name: 'none',
+  async notify(notification) {
+    logger.info(notification, '🔔 Staff notification');
+  }
+};
+
+function createNotifierFromEnv(): StaffNotifier {
+  switch (env.STAFF_NOTIFIER) {
+    case 'webhook':
+      if (!env.STAFF_WEBHOOK_URL) {
+        throw new Error('Missing required env var: STAFF_WEBHOOK_URL (STAFF_NOTIFIER=webhook)');
+      }
+      return createWebhookNotifier(env.STAFF_WEBHOOK_URL);
+
+    case 'telegram':
+      if (!env.TELEGRAM_BOT_TOKEN || !env.TELEGRAM_CHAT_ID) {
+        throw new Error('Missing required env vars: TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID (STAFF_NOTIFIER=telegram)');
+      }
+      return createTelegramNotifier(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID);
+
+    case 'email':
+      if (!env.STAFF_EMAIL) {
+        throw new Error('Missing required env var: STAFF_EMAIL (STAFF_NOTIFIER=email)');
+      }
+      return createEmailNotifier(env.STAFF_EMAIL);
+
+    case 'none':
+    default:
+      return logNotifier;
+  }
+}
+
+let notifier: StaffNotifier | null = null;
+
+export function getStaffNotifier(): StaffNotifier {
+  if (!notifier) {
+    notifier = createNotifierFromEnv();
+    logger.info({ notifier: notifier.name }, '🔔 Staff notifier ready');
+  }
+  return notifier;
+}
+
+/**
+ * Replace the notifier (tests, replay harness, custom channels)
+ */
+export function setStaffNotifier(next: StaffNotifier | null): void {
+  notifier = next;
+}
+
+/**
+ * Notify staff without ever failing the caller (a missed notification must not break a conversation)
+ */
+export async function notifyStaff(notification: StaffNotification): Promise<void> {
+  try {
+    const target = getStaffNotifier();
+    await target.notify(notification);
+    logger.info({ userId: notification.userId, type: notification.type, notifier: target.name }, '🔔 Staff notified');
+  } catch (err: any) {
+    logger.error({ error: err.message, userId: notification.userId, type: notification.type }, '❌ Failed to notify staff');
+  }
+}
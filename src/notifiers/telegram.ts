@@ -0,0 +1,22 @@
+import { formatStaffNotification } from './format';
+import type { StaffNotifier } from './types';
+
+/**
+ * Send the notification to a Telegram chat through the Bot API
+ */
+export function createTelegramNotifier(botToken: string, chatId: string, opts: { timeoutMs?: number } = {}): StaffNotifier {
+  return {
+    name: 'telegram',
+    async notify(notification) {
+      const res = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: chatId, text: formatStaffNotification(notification) }),
+        signal: AbortSignal.timeout(opts.timeoutMs ?? 5000)
+      });
+      if (!res.ok) {
+        throw new Error(`Telegram sendMessage responded ${res.status}`);
+      }
+    }
+  };
+}
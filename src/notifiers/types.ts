@@ -0,0 +1,16 @@
+export type HandoverReason = 'customer_request' | 'low_confidence' | 'staff';
+
+export type StaffNotification = {
+  type: 'handover_started' | 'handover_ended';
+  userId: string;                 // Customer PSID
+  reason: HandoverReason | 'timeout' | 'released';
+  customerName?: string | null;
+  customerPhone?: string | null;
+  lastMessage?: string;           // What the customer said when the handover started
+  expiresAt?: string;             // When the bot takes over again (ISO)
+};
+
+export interface StaffNotifier {
+  readonly name: string;
+  notify(notification: StaffNotification): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import type { StaffNotifier } from './types';
+
+/**
+ * POST the notification as JSON (Slack/Discord relays, Zapier, your own dashboard)
+ */
+export function createWebhookNotifier(url: string, opts: { timeoutMs?: number } = {}): StaffNotifier {
+  return {
+    name: 'webhook',
+    async notify(notification) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(opts.timeoutMs ?? 5000)
+      });
+      if (!res.ok) {
+        throw new Error(`Notifier webhook responded ${res.status}`);
+      }
+    }
+  };
+}
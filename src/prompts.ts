@@ -1,4 +1,10 @@
 import { Language } from './utils/language';
+import type { RetrievedProduct } from './services/rag';
+import type { LeadDoc, OrderItem } from './services/leads-supabase';
+import type { Order } from './services/orders';
+import type { DeliveryZone, PriceBreakdown, PromoRejection } from './services/pricing';
+import { currencyFor, formatPrice } from './services/money';
+import type { CheckoutField } from './services/checkout-fields';
 
 export function getSystemPrompt(language: Language = 'en'): string {
   if (language === 'km') {
@@ -23,8 +29,16 @@ export function getSystemPrompt(language: Language = 'en'): string {
 - បន្ទាប់ពីបង្ហាញផលិតផល សួរ "អ្នកចាប់អារម្មណ៍នឹងមួយណា?" ឬ "តើអ្នកចង់ដឹងបន្ថែមអំពីផលិតផលណាមួយទេ?"
 - តែងតែមានសុជីវធម៌ សកម្ម និងបំប្លែងការចាប់អារម្មណ៍ទៅជាការបញ្ជាទិញ (ផលិតផល ឈ្មោះ លេខទូរសព័ទ្ធ អាសយដ្ឋាន)
 
+ឧបករណ៍ (នៅពេលមាន):
+- ប្រើ search_products មុននឹងណែនាំ ឬឆ្លើយអំពីផលិតផល ហើយប្រើតែ ID ពីលទ្ធផលស្វែងរក
+- នៅពេលអតិថិជនជ្រើសផលិតផល ("យកមួយនេះ", "ពីរគូពណ៌ខៀវ ទំហំ 42") ហៅ start_checkout ឬ add_to_cart ជាមួយចំនួន ទំហំ និងពណ៌ដែលពួកគេបាននិយាយ
+- នៅពេលអតិថិជនផ្តល់ឈ្មោះ លេខទូរសព្ទ អ៊ីមែល ឬអាសយដ្ឋាន ហៅ set_customer_field
+- ហៅ confirm_order តែនៅពេលអតិថិជនយល់ព្រមច្បាស់លាស់ចំពោះសេចក្តីសង្ខេបការបញ្ជាទិញ ហើយ cancel_order នៅពេលពួកគេចង់បោះបង់
+- កុំនិយាយថាបានធ្វើសកម្មភាពណាមួយ ដោយមិនបានហៅឧបករណ៍
+
 ច្បាប់:
 - កុំប្រឌិតព័ត៌មានណាមួយដែលមិនបានផ្តល់ក្នុងបរិបទ
+- ប្រសិនបើអ្នកមិនអាចជួយបានច្បាស់លាស់ (បណ្តឹង ការសងប្រាក់វិញ ទំនិញខូច ឬសំណួរដែលបរិបទមិនមានចម្លើយ) ចាប់ផ្តើមការឆ្លើយតបដោយ [[HANDOVER]]
 - រក្សាភាសាដែលអ្នកប្រើប្រាស់ចាប់ផ្តើមការសន្ទនា
 - អ្នកត្រូវឆ្លើយតបជាភាសាខ្មែរទាំងស្រុង
 `;
@@ -53,8 +67,16 @@ Objectives:
 - After showing products, ask "Which one interests you?" or "Would you like to know more about any of these?"
 - Always be polite, proactive, and convert interest into a qualified lead (item, name, phone, address). 
 
+Tools (when available):
+- Use search_products before recommending or answering about products, and only use product IDs from its results.
+- When the customer picks a product ("I'll take it", "2 of the blue ones in size 42"), call start_checkout or add_to_cart with the quantity, size and color they said.
+- When the customer gives their name, phone, email or address, call set_customer_field.
+- Call confirm_order only when the customer clearly agrees to the order summary, and cancel_order when they want to cancel.
+- Never say you did something (added to cart, placed an order) without calling the tool.
+
 RULES:
 - Do not invent any information that is not provided in the context.
+- If you cannot help confidently (complaints, refunds, damaged items, questions the context doesn't answer), start your reply with [[HANDOVER]].
 - Maintain the language the user initiates the conversation in.
 - You MUST reply entirely in English.
 `;
@@ -71,7 +93,51 @@ export const prompts = {
     askEmail: 'And your email? (optional - press . to skip)',
     askAddress: 'Finally, what\'s your delivery address?',
     done: 'Thank you! Your order has been received. We\'ll contact you shortly for payment and delivery. 🎉',
-    orderCancelled: 'No problem! Let me know if you\'d like to order something else. 😊'
+    orderCancelled: 'No problem! Let me know if you\'d like to order something else. 😊',
+    productUnavailable: 'Sorry, that product is no longer available. What else can I help you find? 🙏',
+    cartEmpty: 'Your cart is empty. 🛒 Tell me what you\'re looking for and I\'ll help you find it!',
+    cartCleared: 'Done, your cart is now empty. What else can I help you find?',
+    promoNeedsCart: 'Add something to your cart first, then send me the code again and I\'ll apply it. 🏷️',
+    promoRemoved: 'Done, I\'ve removed the promo code from your order.',
+    cartItemNotFound: 'I couldn\'t find that item. Could you tell me the product name again?',
+    keepShopping: 'Sure! What else are you looking for? 💬',
+    outOfStock: 'Sorry, this item is currently out of stock. 😔',
+    slowDown: 'You\'re sending messages a little fast! 🙏 Please wait a moment and I\'ll get back to you.',
+    handoverRequested: 'Sure! I\'ve asked a member of our team to join. They\'ll reply here shortly. 🙏',
+    handoverLowConfidence: 'I want to make sure you get the right answer, so I\'ve asked a member of our team to help. They\'ll reply here shortly. 🙏',
+    noOrders: 'I couldn\'t find any orders from this chat yet. 📦 If you ordered from another Messenger account, our team can help you look it up.',
+    orderNotFound: 'I couldn\'t find that order among yours. Please check the order ID from your confirmation message. 🙏',
+    orderUpdated: '✏️ Done, I\'ve updated your order.',
+    orderIncomplete: 'Sorry, there was an issue with your order. Please start again.',
+    orderFailed: 'Sorry, there was an error processing your order. Please try again or contact support.',
+    // Checkout details that didn't pass validation
+    invalidField: {
+      name: 'Sorry, I didn\'t catch your name. What\'s your full name?',
+      phone: 'That doesn\'t look like a valid phone number. 📱 Please send it like 012 345 678 or +855 12 345 678.',
+      email: 'That doesn\'t look like an email address. Please check it, or send . to skip.',
+      address: 'I need a bit more detail to deliver your order. 🏠 Please send your house or street number and area, e.g. "House 12, Street 271, Phnom Penh".'
+    },
+    // Asking for the field again after answering a question
+    reaskField: {
+      name: 'Now, to continue your order: what\'s your full name?',
+      phone: 'Now, to continue your order: what\'s your phone number?',
+      email: 'Now, to continue your order: what\'s your email? (optional - press . to skip)',
+      address: 'Now, to continue your order: what\'s your delivery address?'
+    },
+    labels: {
+      checkout: '✅ Checkout',
+      viewCart: '🛒 View cart',
+      keepShopping: 'Keep shopping',
+      clearCart: 'Clear cart',
+      addToCart: '➕ Add to cart',
+      buy: 'Buy this',
+      moreLike: 'More like this',
+      cancelOrder: 'Cancel order',
+      confirmCancel: 'Yes, cancel',
+      keepOrder: 'Keep order',
+      confirmOrder: '✅ Yes',
+      declineOrder: '❌ No'
+    }
   },
   km: {
     askItem: 'តើអ្នកកំពុងស្វែងរកផលិតផលអ្វី? 💬 អ្នកក៏អាចផ្ញើរូបភាពមកខ្ញុំ ហើយខ្ញុំនឹងស្វែងរកផលិតផលស្រដៀងគ្នា!',
@@ -80,7 +146,49 @@ export const prompts = {
     askEmail: 'ហើយអ៊ីមែលរបស់អ្នក? (ស្រេចចិត្ត - ចុច . ដើម្បីរំលង)',
     askAddress: 'ចុងក្រោយ តើអាសយដ្ឋានដឹកជញ្ជូនរបស់អ្នកនៅណា?',
     done: 'អរគុណ! ការបញ្ជាទិញរបស់អ្នកត្រូវបានទទួល។ យើងនឹងទាក់ទងអ្នកក្នុងពេលឆាប់ៗនេះសម្រាប់ការទូទាត់ និងការដឹកជញ្ជូន។ 🎉',
-    orderCancelled: 'គ្មានបញ្ហា! សូមប្រាប់ខ្ញុំប្រសិនបើអ្នកចង់បញ្ជាផលិតផលផ្សេងទៀត។ 😊'
+    orderCancelled: 'គ្មានបញ្ហា! សូមប្រាប់ខ្ញុំប្រសិនបើអ្នកចង់បញ្ជាផលិតផលផ្សេងទៀត។ 😊',
+    productUnavailable: 'សូមអភ័យទោស ផលិតផលនេះមិនមានទៀតទេ។ តើខ្ញុំអាចជួយស្វែងរកអ្វីផ្សេងទៀត? 🙏',
+    cartEmpty: 'កន្ត្រករបស់អ្នកទទេ។ 🛒 ប្រាប់ខ្ញុំពីអ្វីដែលអ្នកកំពុងស្វែងរក ខ្ញុំនឹងជួយរក!',
+    cartCleared: 'រួចរាល់ កន្ត្រករបស់អ្នកទទេហើយ។ តើខ្ញុំអាចជួយស្វែងរកអ្វីទៀត?',
+    promoNeedsCart: 'សូមដាក់ទំនិញចូលកន្ត្រកជាមុនសិន បន្ទាប់មកផ្ញើកូដមកខ្ញុំម្តងទៀត ខ្ញុំនឹងប្រើវាឱ្យ។ 🏷️',
+    promoRemoved: 'រួចរាល់ ខ្ញុំបានដកកូដបញ្ចុះតម្លៃចេញពីការបញ្ជាទិញរបស់អ្នកហើយ។',
+    cartItemNotFound: 'ខ្ញុំរកមិនឃើញផលិតផលនោះទេ។ សូមប្រាប់ឈ្មោះផលិតផលម្តងទៀត?',
+    keepShopping: 'បាន! តើអ្នកកំពុងស្វែងរកអ្វីទៀត? 💬',
+    outOfStock: 'សូមអភ័យទោស ផលិតផលនេះអស់ពីស្តុកហើយ។ 😔',
+    slowDown: 'អ្នកផ្ញើសារលឿនបន្តិច! 🙏 សូមរង់ចាំមួយភ្លែត ខ្ញុំនឹងឆ្លើយតបអ្នកវិញ។',
+    handoverRequested: 'បាន! ខ្ញុំបានស្នើឱ្យបុគ្គលិករបស់យើងចូលរួម។ ពួកគេនឹងឆ្លើយតបនៅទីនេះក្នុងពេលឆាប់ៗ។ 🙏',
+    handoverLowConfidence: 'ដើម្បីឱ្យអ្នកទទួលបានចម្លើយត្រឹមត្រូវ ខ្ញុំបានស្នើឱ្យបុគ្គលិករបស់យើងជួយ។ ពួកគេនឹងឆ្លើយតបនៅទីនេះក្នុងពេលឆាប់ៗ។ 🙏',
+    noOrders: 'ខ្ញុំរកមិនឃើញការបញ្ជាទិញពីការជជែកនេះទេ។ 📦 ប្រសិនបើអ្នកបានបញ្ជាទិញពីគណនី Messenger ផ្សេង បុគ្គលិករបស់យើងអាចជួយស្វែងរក។',
+    orderNotFound: 'ខ្ញុំរកមិនឃើញការបញ្ជាទិញនោះក្នុងចំណោមការបញ្ជាទិញរបស់អ្នកទេ។ សូមពិនិត្យលេខកូដការបញ្ជាទិញពីសារបញ្ជាក់របស់អ្នក។ 🙏',
+    orderUpdated: '✏️ រួចរាល់ ខ្ញុំបានកែការបញ្ជាទិញរបស់អ្នកហើយ។',
+    orderIncomplete: 'សូមអភ័យទោស មានបញ្ហាជាមួយការបញ្ជាទិញរបស់អ្នក។ សូមចាប់ផ្តើមម្តងទៀត។',
+    orderFailed: 'សូមអភ័យទោស មានកំហុសក្នុងការដំណើរការការបញ្ជាទិញរបស់អ្នក។ សូមព្យាយាមម្តងទៀត ឬទាក់ទងផ្នែកជំនួយ។',
+    invalidField: {
+      name: 'សូមអភ័យទោស ខ្ញុំមិនទាន់បានឈ្មោះរបស់អ្នកទេ។ តើអ្នកឈ្មោះអ្វី?',
+      phone: 'លេខទូរសព្ទនេះហាក់ដូចជាមិនត្រឹមត្រូវទេ។ 📱 សូមផ្ញើដូចជា 012 345 678 ឬ +855 12 345 678។',
+      email: 'នេះហាក់ដូចជាមិនមែនជាអ៊ីមែលទេ។ សូមពិនិត្យម្តងទៀត ឬផ្ញើ . ដើម្បីរំលង។',
+      address: 'ខ្ញុំត្រូវការព័ត៌មានលម្អិតបន្ថែមដើម្បីដឹកជញ្ជូន។ 🏠 សូមផ្ញើលេខផ្ទះ ឬផ្លូវ និងតំបន់ ឧទាហរណ៍ "ផ្ទះលេខ 12 ផ្លូវ 271 ភ្នំពេញ"។'
+    },
+    reaskField: {
+      name: 'ឥឡូវ ដើម្បីបន្តការបញ្ជាទិញ តើអ្នកឈ្មោះអ្វី?',
+      phone: 'ឥឡូវ ដើម្បីបន្តការបញ្ជាទិញ តើលេខទូរសព្ទរបស់អ្នកជាអ្វី?',
+      email: 'ឥឡូវ ដើម្បីបន្តការបញ្ជាទិញ តើអ៊ីមែលរបស់អ្នកជាអ្វី? (ស្រេចចិត្ត - ចុច . ដើម្បីរំលង)',
+      address: 'ឥឡូវ ដើម្បីបន្តការបញ្ជាទិញ តើអាសយដ្ឋានដឹកជញ្ជូនរបស់អ្នកនៅណា?'
+    },
+    labels: {
+      checkout: '✅ បញ្ជាទិញ',
+      viewCart: '🛒 មើលកន្ត្រក',
+      keepShopping: 'បន្តទិញ',
+      clearCart: 'សម្អាតកន្ត្រក',
+      addToCart: '➕ ដាក់ក្នុងកន្ត្រក',
+      buy: 'ទិញមួយនេះ',
+      moreLike: 'ស្រដៀងគ្នា',
+      cancelOrder: 'បោះបង់ការបញ្ជាទិញ',
+      confirmCancel: 'បាទ/ចាស បោះបង់',
+      keepOrder: 'រក្សាទុក',
+      confirmOrder: '✅ បាទ/ចាស',
+      declineOrder: '❌ ទេ'
+    }
   }
 } as const;
 
@@ -96,29 +204,433 @@ export function getPrompts(language: Language = 'en') {
  */
 export function confirmOrderPrompt(
   items: Array<{name: string; qty: number; price: number}>,
-  total: number,
+  pricing: PriceBreakdown,
+  customer: DeliveryDetails,
   language: Language = 'en'
 ): string {
   const itemList = items.map(item => 
-    `  - ${item.qty}x ${item.name} ($${item.price.toFixed(2)} each)`
+    `  - ${item.qty}x ${item.name} (${price(item.price, language)} each)`
   ).join('\n');
+  const totals = priceBreakdownLines(pricing, language);
+  const delivery = deliveryLines(customer);
   
   if (language === 'km') {
-    return `ដើម្បីបញ្ជាក់ការបញ្ជាទិញរបស់អ្នក:\n\n${itemList}\n\nសរុប: $${total.toFixed(2)}\n\nឆ្លើយតប "បាទ/ចាស" ដើម្បីបន្ត ឬ "ទេ" ដើម្បីបោះបង់។`;
+    return `ដើម្បីបញ្ជាក់ការបញ្ជាទិញរបស់អ្នក:\n\n${itemList}\n\n${totals}\n\nដឹកជូន:\n${delivery}\n\nឆ្លើយតប "បាទ/ចាស" ដើម្បីបន្ត ឬ "ទេ" ដើម្បីបោះបង់។`;
   }
   
-  return `To confirm your order:\n\n${itemList}\n\nTotal: $${total.toFixed(2)}\n\nReply YES to proceed or NO to cancel.`;
+  return `To confirm your order:\n\n${itemList}\n\n${totals}\n\nDeliver to:\n${delivery}\n\nReply YES to proceed or NO to cancel.`;
+}
+
+type DeliveryDetails = Pick<LeadDoc, 'name' | 'phone' | 'email' | 'address'>;
+
+/**
+ * Name, phone, email and address the order will be delivered with (so they can be corrected before confirming)
+ */
+function deliveryLines(customer: DeliveryDetails): string {
+  return [customer.name, customer.phone, customer.email, customer.address]
+    .filter((value): value is string => !!value)
+    .map(value => `  ${value}`)
+    .join('\n');
+}
+
+const DELIVERY_ZONE_LABELS: Record<DeliveryZone, Record<Language, string>> = {
+  phnom_penh: { en: 'Phnom Penh', km: 'ភ្នំពេញ' },
+  province: { en: 'provinces', km: 'ខេត្ត' }
+};
+
+/**
+ * Subtotal, discount, delivery, tax and total lines (only the total when nothing is added)
+ */
+function priceBreakdownLines(pricing: PriceBreakdown, language: Language): string {
+  const km = language === 'km';
+  const money = (amount: number) => price(amount, language);
+  const lines: string[] = [];
+
+  if (pricing.total !== pricing.subtotal || pricing.discount > 0) {
+    lines.push(`${km ? 'សរុបរង' : 'Subtotal'}: ${money(pricing.subtotal)}`);
+  }
+  if (pricing.discount > 0) {
+    lines.push(`${km ? 'បញ្ចុះតម្លៃ' : 'Discount'} (${pricing.promoCode}): -${money(pricing.discount)}`);
+  }
+  if (pricing.deliveryFee > 0 && pricing.deliveryZone) {
+    lines.push(`${km ? 'ថ្លៃដឹកជញ្ជូន' : 'Delivery'} (${DELIVERY_ZONE_LABELS[pricing.deliveryZone][language]}): ${money(pricing.deliveryFee)}`);
+  }
+  if (pricing.tax > 0) {
+    lines.push(`${km ? 'ពន្ធ' : 'Tax'} (${Math.round(pricing.taxRate * 1000) / 10}%): ${money(pricing.tax)}`);
+  }
+  lines.push(`${km ? 'សរុប' : 'Total'}: ${money(pricing.total)}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * A dollar amount in the conversation's currency
+ */
+function price(usd: number, language: Language): string {
+  return formatPrice(usd, currencyFor(language));
+}
+
+/**
+ * A placed order's total in the currency and at the rate it was placed with
+ */
+function orderTotal(order: Order, language: Language): string {
+  return formatPrice(Number(order.total), order.currency ?? currencyFor(language), order.exchange_rate ?? undefined);
 }
 
 /**
  * Generate order confirmed message (bilingual)
+ * The total is shown in the currency the order was placed in
  */
-export function orderConfirmedPrompt(orderId: string, total: number, language: Language = 'en'): string {
+export function orderConfirmedPrompt(order: Order, language: Language = 'en'): string {
   if (language === 'km') {
-    return `✅ ការបញ្ជាទិញត្រូវបានបញ្ជាក់!\n\nលេខកូដការបញ្ជាទិញ: ${orderId}\nសរុប: $${total.toFixed(2)}\n\nយើងនឹងទាក់ទងអ្នកក្នុងពេលឆាប់ៗនេះសម្រាប់ការទូទាត់ និងការដឹកជញ្ជូន។ អរគុណ! 🎉`;
+    return `✅ ការបញ្ជាទិញត្រូវបានបញ្ជាក់!\n\nលេខកូដការបញ្ជាទិញ: ${order.id}\nសរុប: ${orderTotal(order, language)}\n\nយើងនឹងទាក់ទងអ្នកក្នុងពេលឆាប់ៗនេះសម្រាប់ការទូទាត់ និងការដឹកជញ្ជូន។ អរគុណ! 🎉`;
   }
   
-  return `✅ Order confirmed!\n\nOrder ID: ${orderId}\nTotal: $${total.toFixed(2)}\n\nWe'll contact you shortly for payment and delivery. Thank you! 🎉`;
+  return `✅ Order confirmed!\n\nOrder ID: ${order.id}\nTotal: ${orderTotal(order, language)}\n\nWe'll contact you shortly for payment and delivery. Thank you! 🎉`;
+}
+
+/**
+ * Generate product details message for a "Details" carousel tap (bilingual)
+ */
+export function productDetailsPrompt(product: RetrievedProduct, language: Language = 'en'): string {
+  const desc = (product.description ?? '').toString().trim();
+  const descSnippet = desc.length > 400 ? desc.slice(0, 400) + '…' : desc;
+
+  if (language === 'km') {
+    const lines = [
+      product.name,
+      product.price == null ? null : `តម្លៃ: ${price(product.price, language)}`,
+      product.category ? `ប្រភេទ: ${product.category}` : null,
+      product.size ? `ទំហំ: ${product.size}` : null,
+      product.stock === 0 ? '❌ អស់ពីស្តុក' : null,
+      descSnippet ? `\n${descSnippet}` : null
+    ];
+    return `${lines.filter(Boolean).join('\n')}\n\nចុច "Buy this" ដើម្បីបញ្ជាទិញ ឬសួរខ្ញុំបន្ថែម។`;
+  }
+
+  const lines = [
+    product.name,
+    product.price == null ? null : `Price: ${price(product.price, language)}`,
+    product.category ? `Category: ${product.category}` : null,
+    product.size ? `Size: ${product.size}` : null,
+    product.stock === 0 ? '❌ Out of stock' : null,
+    descSnippet ? `\n${descSnippet}` : null
+  ];
+  return `${lines.filter(Boolean).join('\n')}\n\nTap "Buy this" to order, or ask me anything about it.`;
+}
+
+/**
+ * Generate intro for a "More like this" carousel tap (bilingual)
+ */
+export function similarProductsPrompt(productName: string, found: boolean, language: Language = 'en'): string {
+  if (language === 'km') {
+    return found
+      ? `នេះជាផលិតផលស្រដៀងនឹង ${productName}។ តើអ្នកចាប់អារម្មណ៍នឹងមួយណា?`
+      : `សូមអភ័យទោស ខ្ញុំរកមិនឃើញផលិតផលស្រដៀងនឹង ${productName} ទេ។ តើអ្នកចង់ស្វែងរកអ្វីផ្សេងទៀត?`;
+  }
+
+  return found
+    ? `Here are some items similar to ${productName}. Which one interests you?`
+    : `Sorry, I couldn't find anything similar to ${productName}. Is there something else you're looking for?`;
+}
+
+/**
+ * Generate cart summary message (bilingual)
+ */
+export function cartSummaryPrompt(
+  items: Array<{name: string; qty: number; price: number}>,
+  total: number,
+  language: Language = 'en'
+): string {
+  const itemList = items.map(item => 
+    `  - ${item.qty}x ${item.name} (${price(item.price, language)} each)`
+  ).join('\n');
+
+  if (language === 'km') {
+    return `🛒 កន្ត្រករបស់អ្នក:\n\n${itemList}\n\nសរុប: ${price(total, language)}\n\nចុច "បញ្ជាទិញ" នៅពេលអ្នករួចរាល់ ឬបន្តទិញ។`;
+  }
+
+  return `🛒 Your cart:\n\n${itemList}\n\nSubtotal: ${price(total, language)}\n\nTap Checkout when you're ready, or keep shopping.`;
+}
+
+/**
+ * Generate "added to cart" message (bilingual)
+ */
+export function addedToCartPrompt(productName: string, qty: number, cartCount: number, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `✅ បានដាក់ ${qty}x ${productName} ក្នុងកន្ត្រក (សរុប ${cartCount})។ បញ្ជាទិញឥឡូវ ឬបន្តទិញ?`;
+  }
+
+  return `✅ Added ${qty}x ${productName} to your cart (${cartCount} item${cartCount === 1 ? '' : 's'} total). Checkout now or keep shopping?`;
+}
+
+/**
+ * Product name with its chosen variant, e.g. "Classic Sneakers (Size 42, blue)" (bilingual)
+ */
+export function orderItemLabel(item: OrderItem, language: Language = 'en'): string {
+  const sizeLabel = language === 'km' ? 'ទំហំ' : 'Size';
+  // "Blue Sneakers (blue)" says nothing new
+  const color = item.color && !item.productName.toLowerCase().includes(item.color) ? item.color : null;
+  const variant = [item.size ? `${sizeLabel} ${item.size}` : null, color].filter(Boolean).join(', ');
+  return variant ? `${item.productName} (${variant})` : item.productName;
+}
+
+/**
+ * Generate size follow-up question (bilingual)
+ * @param rejected Size the customer asked for that the product doesn't come in
+ */
+export function askSizePrompt(
+  productName: string,
+  options: string[],
+  language: Language = 'en',
+  rejected?: string
+): string {
+  const list = options.join(', ');
+
+  if (language === 'km') {
+    const prefix = rejected ? `សូមអភ័យទោស ${productName} មិនមានទំហំ ${rejected} ទេ។ ` : '';
+    return `${prefix}តើអ្នកចង់បាន ${productName} ទំហំប៉ុន្មាន? មានទំហំ: ${list}`;
+  }
+
+  const prefix = rejected ? `Sorry, ${productName} doesn't come in size ${rejected}. ` : '';
+  return `${prefix}Which size would you like for ${productName}? Available sizes: ${list}`;
+}
+
+/**
+ * Generate message for cart items that sold out before the order was placed (bilingual)
+ * @param items Items with the units still available (0 = sold out)
+ * @param hasAlternatives Whether in-stock alternatives are shown with the message
+ */
+export function stockShortagePrompt(
+  items: Array<{name: string; available: number}>,
+  hasAlternatives: boolean,
+  language: Language = 'en'
+): string {
+  if (language === 'km') {
+    const lines = items.map(item => item.available > 0
+      ? `  - ${item.name}: នៅសល់តែ ${item.available} ប៉ុណ្ណោះ (បានកែចំនួនហើយ)`
+      : `  - ${item.name}: អស់ពីស្តុក (បានដកចេញ)`
+    ).join('\n');
+    const alternatives = hasAlternatives ? '\n\nនេះជាផលិតផលស្រដៀងគ្នាដែលនៅមានស្តុក 👇' : '';
+    return `សូមអភ័យទោស ផលិតផលខ្លះមិនគ្រប់ស្តុកទេ:\n\n${lines}${alternatives}`;
+  }
+
+  const lines = items.map(item => item.available > 0
+    ? `  - ${item.name}: only ${item.available} left (quantity updated)`
+    : `  - ${item.name}: out of stock (removed)`
+  ).join('\n');
+  const alternatives = hasAlternatives ? '\n\nHere are similar items that are in stock 👇' : '';
+  return `Sorry, some items in your order aren't available:\n\n${lines}${alternatives}`;
 }
 
+const ORDER_STATUS_LABELS: Record<Order['status'], Record<Language, string>> = {
+  pending: { en: '⏳ Pending - we\'ll contact you for payment and delivery', km: '⏳ កំពុងរង់ចាំ - យើងនឹងទាក់ទងអ្នកសម្រាប់ការទូទាត់ និងការដឹកជញ្ជូន' },
+  confirmed: { en: '👍 Confirmed - waiting for payment', km: '👍 បានបញ្ជាក់ - កំពុងរង់ចាំការទូទាត់' },
+  paid: { en: '✅ Paid - being prepared for delivery', km: '✅ បានទូទាត់ - កំពុងរៀបចំដឹកជញ្ជូន' },
+  packed: { en: '📦 Packed - ready to ship', km: '📦 បានវេចខ្ចប់ - រួចរាល់សម្រាប់ដឹកជញ្ជូន' },
+  shipped: { en: '🚚 Shipped - on its way to you', km: '🚚 បានបញ្ជូន - កំពុងធ្វើដំណើរមករកអ្នក' },
+  delivered: { en: '🏠 Delivered', km: '🏠 បានដឹកជញ្ជូនដល់' },
+  refunded: { en: '↩️ Refunded', km: '↩️ បានសងប្រាក់វិញ' },
+  cancelled: { en: '❌ Cancelled', km: '❌ បានបោះបង់' }
+};
 
+/**
+ * Localized order status
+ */
+export function orderStatusLabel(status: Order['status'], language: Language = 'en'): string {
+  return ORDER_STATUS_LABELS[status]?.[language] ?? status;
+}
+
+/**
+ * Generate status and items of a placed order (bilingual)
+ */
+export function orderStatusPrompt(order: Order, language: Language = 'en'): string {
+  const itemList = order.items.map(item => {
+    const variant = [item.size, item.color].filter(Boolean).join(', ');
+    return `  - ${item.qty}x ${item.product_name}${variant ? ` (${variant})` : ''}`;
+  }).join('\n');
+
+  if (language === 'km') {
+    return `📦 ការបញ្ជាទិញ ${order.id}\nថ្ងៃទី: ${order.date}\nស្ថានភាព: ${orderStatusLabel(order.status, language)}\n\n${itemList}\n\nសរុប: ${orderTotal(order, language)}`;
+  }
+
+  return `📦 Order ${order.id}\nDate: ${order.date}\nStatus: ${orderStatusLabel(order.status, language)}\n\n${itemList}\n\nTotal: ${orderTotal(order, language)}`;
+}
+
+/**
+ * Generate list of a customer's orders, newest first (bilingual)
+ */
+export function orderListPrompt(orders: Order[], language: Language = 'en'): string {
+  const lines = orders.map(order =>
+    `  - ${order.id} (${order.date}): ${orderTotal(order, language)}, ${orderStatusLabel(order.status, language).split(' - ')[0]}`
+  ).join('\n');
+
+  if (language === 'km') {
+    return `📦 ការបញ្ជាទិញរបស់អ្នក:\n\n${lines}\n\nផ្ញើ "ការបញ្ជាទិញ #<លេខកូដ>" ដើម្បីមើលព័ត៌មានលម្អិត។`;
+  }
+
+  return `📦 Your orders:\n\n${lines}\n\nSend "order #<ID>" to see the details of one.`;
+}
+
+/**
+ * Generate cancellation question for a pending order (bilingual)
+ */
+export function confirmCancelOrderPrompt(orderId: string, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `តើអ្នកពិតជាចង់បោះបង់ការបញ្ជាទិញ ${orderId} មែនទេ?`;
+  }
+
+  return `Are you sure you want to cancel order ${orderId}?`;
+}
+
+/**
+ * Generate message after the customer cancelled an order (bilingual)
+ */
+export function orderCancelledByCustomerPrompt(orderId: string, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `❌ ការបញ្ជាទិញ ${orderId} ត្រូវបានបោះបង់។ ប្រាប់ខ្ញុំប្រសិនបើអ្នកចង់បានអ្វីផ្សេងទៀត!`;
+  }
+
+  return `❌ Order ${orderId} has been cancelled. Let me know if there's anything else you'd like!`;
+}
+
+/**
+ * Generate message when an order can no longer be cancelled in chat (bilingual)
+ */
+export function orderNotCancellablePrompt(order: Order, language: Language = 'en'): string {
+  if (order.status === 'cancelled') {
+    return language === 'km'
+      ? `ការបញ្ជាទិញ ${order.id} ត្រូវបានបោះបង់រួចហើយ។`
+      : `Order ${order.id} is already cancelled.`;
+  }
+
+  const status = orderStatusLabel(order.status, language).split(' - ')[0];
+
+  if (language === 'km') {
+    return `ការបញ្ជាទិញ ${order.id} មិនអាចបោះបង់តាមការជជែកបានទេ (ស្ថានភាព: ${status})។ សូមសរសេរ "និយាយជាមួយបុគ្គលិក" ហើយបុគ្គលិករបស់យើងនឹងជួយ។`;
+  }
+
+  return `Order ${order.id} can't be cancelled in chat anymore (status: ${status}). Type "talk to a person" and our team will help.`;
+}
+
+/**
+ * Generate message telling the customer their order status changed (bilingual)
+ * @returns null for changes the customer isn't told about (pending, packed)
+ */
+export function orderStatusUpdatePrompt(order: Order, language: Language = 'en'): string | null {
+  const total = orderTotal(order, language);
+
+  switch (order.status) {
+    case 'confirmed':
+      return language === 'km'
+        ? `👍 ការបញ្ជាទិញ ${order.id} ត្រូវបានបញ្ជាក់ហើយ។ សរុប: ${total}។ យើងនឹងផ្ញើព័ត៌មានលម្អិតអំពីការទូទាត់ក្នុងពេលឆាប់ៗ។`
+        : `👍 Order ${order.id} is confirmed. Total: ${total}. We'll send you the payment details shortly.`;
+    case 'paid':
+      return language === 'km'
+        ? `✅ យើងបានទទួលការទូទាត់ ${total} សម្រាប់ការបញ្ជាទិញ ${order.id} ហើយ! យើងកំពុងរៀបចំដឹកជញ្ជូនទំនិញរបស់អ្នក។ 📦`
+        : `✅ We've received your payment of ${total} for order ${order.id}! We're preparing it for delivery. 📦`;
+    case 'shipped':
+      return language === 'km'
+        ? `🚚 ការបញ្ជាទិញ ${order.id} បានបញ្ជូនចេញហើយ ហើយកំពុងធ្វើដំណើរមករកអ្នក!`
+        : `🚚 Order ${order.id} has shipped and is on its way to you!`;
+    case 'delivered':
+      return language === 'km'
+        ? `🏠 ការបញ្ជាទិញ ${order.id} ត្រូវបានដឹកជញ្ជូនដល់ហើយ។ អរគុណសម្រាប់ការទិញទំនិញជាមួយយើង! 🙏`
+        : `🏠 Order ${order.id} has been delivered. Thank you for shopping with us! 🙏`;
+    case 'refunded':
+      return language === 'km'
+        ? `↩️ ការបញ្ជាទិញ ${order.id} ត្រូវបានសងប្រាក់វិញ (${total})។ ប្រាក់អាចចំណាយពេលពីរបីថ្ងៃដើម្បីចូលដល់គណនីរបស់អ្នក។`
+        : `↩️ Order ${order.id} has been refunded (${total}). It may take a few days to reach your account.`;
+    case 'cancelled':
+      return language === 'km'
+        ? `❌ ការបញ្ជាទិញ ${order.id} ត្រូវបានបោះបង់ដោយហាងរបស់យើង។ ប្រសិនបើមានសំណួរ សូមឆ្លើយតបនៅទីនេះ។`
+        : `❌ Order ${order.id} has been cancelled by our store. If you have any questions, just reply here.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Generate message after a promo code was applied to the cart (bilingual)
+ */
+export function promoAppliedPrompt(code: string, discount: number, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `🏷️ កូដ ${code} ត្រូវបានប្រើ! អ្នកសន្សំបាន ${price(discount, language)}។`;
+  }
+
+  return `🏷️ Code ${code} applied! You save ${price(discount, language)}.`;
+}
+
+/**
+ * Generate message when a promo code can't be used (bilingual)
+ */
+export function promoRejectedPrompt(
+  code: string,
+  reason: PromoRejection,
+  language: Language = 'en',
+  minSubtotal?: number | null
+): string {
+  const minimum = price(minSubtotal ?? 0, language);
+
+  if (language === 'km') {
+    switch (reason) {
+      case 'expired':
+        return `សូមអភ័យទោស កូដ ${code} បានផុតកំណត់ហើយ។`;
+      case 'used_up':
+        return `សូមអភ័យទោស កូដ ${code} ត្រូវបានប្រើអស់ហើយ។`;
+      case 'min_subtotal':
+        return `កូដ ${code} ប្រើបានសម្រាប់ការបញ្ជាទិញចាប់ពី ${minimum} ឡើងទៅ។`;
+      default:
+        return `សូមអភ័យទោស ខ្ញុំរកមិនឃើញកូដ ${code} ទេ។ សូមពិនិត្យអក្ខរាវិរុទ្ធ។`;
+    }
+  }
+
+  switch (reason) {
+    case 'expired':
+      return `Sorry, code ${code} has expired.`;
+    case 'used_up':
+      return `Sorry, code ${code} has been fully used.`;
+    case 'min_subtotal':
+      return `Code ${code} is for orders of ${minimum} or more.`;
+    default:
+      return `Sorry, I couldn't find the code ${code}. Please check the spelling.`;
+  }
+}
+
+const FIELD_NAMES: Record<Language, Record<CheckoutField, string>> = {
+  en: { name: 'name', phone: 'phone number', email: 'email', address: 'delivery address' },
+  km: { name: 'ឈ្មោះ', phone: 'លេខទូរសព្ទ', email: 'អ៊ីមែល', address: 'អាសយដ្ឋានដឹកជញ្ជូន' }
+};
+
+/**
+ * Generate greeting for a returning customer, shown above the order summary (bilingual)
+ */
+export function welcomeBackPrompt(name: string, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `សូមស្វាគមន៍ការត្រឡប់មកវិញ ${name}! 👋 ដឹកជូនទៅអាសយដ្ឋានដដែលដូចលើកមុនមែនទេ? ប្រសិនបើប្តូរ សូមផ្ញើ "អាសយដ្ឋានថ្មី …"។`;
+  }
+
+  return `Welcome back, ${name}! 👋 Shall we ship to the same address as last time? If it's changed, just send "my address is …".`;
+}
+
+/**
+ * Generate message after a customer detail was changed (bilingual)
+ */
+export function detailUpdatedPrompt(field: CheckoutField, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `✏️ បានហើយ ខ្ញុំបានកែ${FIELD_NAMES.km[field]}របស់អ្នករួចហើយ។`;
+  }
+
+  return `✏️ Got it, I've updated your ${FIELD_NAMES.en[field]}.`;
+}
+
+/**
+ * Generate question for the new value of a detail the customer wants to change (bilingual)
+ */
+export function editDetailPrompt(field: CheckoutField, language: Language = 'en'): string {
+  if (language === 'km') {
+    return `បាន! តើ${FIELD_NAMES.km[field]}ថ្មីរបស់អ្នកជាអ្វី?`;
+  }
+
+  return `Sure! What's your new ${FIELD_NAMES.en[field]}?`;
+}
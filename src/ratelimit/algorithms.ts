@@ -0,0 +1,77 @@
+import type { RateLimitDecision, RateLimitRule } from './types';
+
+/**
+ * Pure rate limit algorithms, used by the in-memory store
+ * The Postgres function (supabase_rate_limits.sql) and the Redis script
+ * (redis.ts) implement the same arithmetic next to the data.
+ */
+
+export type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type WindowState = {
+  windowStart: number;
+  current: number;
+  previous: number;
+};
+
+export function tokenBucketHit(
+  state: BucketState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: BucketState; decision: RateLimitDecision } {
+  const ratePerMs = rule.limit / rule.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = Math.min(rule.limit, (state?.tokens ?? rule.limit) + elapsed * ratePerMs);
+
+  if (tokens >= 1) {
+    return {
+      state: { tokens: tokens - 1, updatedAt: now },
+      decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 }
+    };
+  }
+  return {
+    state: { tokens, updatedAt: now },
+    decision: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / ratePerMs) }
+  };
+}
+
+export function slidingWindowHit(
+  state: WindowState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: WindowState; decision: RateLimitDecision } {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - rule.windowMs) {
+    previous = state.current;
+  }
+
+  const elapsed = now - windowStart;
+  const weightedPrevious = previous * (rule.windowMs - elapsed) / rule.windowMs;
+
+  if (weightedPrevious + current + 1 <= rule.limit) {
+    current += 1;
+    return {
+      state: { windowStart, current, previous },
+      decision: { allowed: true, remaining: Math.floor(rule.limit - weightedPrevious - current), retryAfterMs: 0 }
+    };
+  }
+
+  // Wait until the previous window has faded enough for one more event, or for the next window
+  const retryAfterMs = current + 1 > rule.limit || previous === 0
+    ? rule.windowMs - elapsed
+    : Math.max(1, Math.ceil(rule.windowMs * (1 - (rule.limit - 1 - current) / previous)) - elapsed);
+
+  return {
+    state: { windowStart, current, previous },
+    decision: { allowed: false, remaining: 0, retryAfterMs }
+  };
+}
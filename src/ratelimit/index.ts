@@ -0,0 +1,143 @@
+import { env } from '../config';
+import { logger } from '../logger';
+import { getPrompts } from '../prompts';
+import { sendTextMessage } from '../social/facebook';
+import { detectLanguage, type MessagingEvent } from '../utils';
+import { createMemoryRateLimitStore } from './memory';
+import { createPostgresRateLimitStore } from './postgres';
+import { createRedisRateLimitStore } from './redis';
+import type { RateLimitRule, RateLimitStore } from './types';
+
+export type { RateLimitAlgorithm, RateLimitRule, RateLimitDecision, RateLimitStore } from './types';
+export { slidingWindowHit, tokenBucketHit } from './algorithms';
+export { createMemoryRateLimitStore } from './memory';
+export { createPostgresRateLimitStore } from './postgres';
+export { createRedisRateLimitStore } from './redis';
+
+/**
+ * Per-user rate limiting for incoming webhook events
+ *
+ * Text, image and postback events each have their own limit (RATE_LIMIT_* in config).
+ * Limited events are dropped before they are queued, and the user gets one
+ * "slow down" reply per window instead of silence.
+ */
+
+export type EventKind = 'text' | 'image' | 'postback';
+
+export function eventKind(event: MessagingEvent): EventKind {
+  if (event.hasImage) return 'image';
+  if (event.postback) return 'postback';
+  return 'text';
+}
+
+export function rateLimitRules(): Record<EventKind, RateLimitRule> {
+  const algorithm = env.RATE_LIMIT_ALGORITHM;
+  return {
+    text: { algorithm, limit: env.RATE_LIMIT_TEXT_MAX, windowMs: env.RATE_LIMIT_TEXT_WINDOW_MS },
+    image: { algorithm, limit: env.RATE_LIMIT_IMAGE_MAX, windowMs: env.RATE_LIMIT_IMAGE_WINDOW_MS },
+    postback: { algorithm, limit: env.RATE_LIMIT_POSTBACK_MAX, windowMs: env.RATE_LIMIT_POSTBACK_WINDOW_MS }
+  };
+}
+
+/**
+ * Shared store, falling back to the in-memory store when it fails
+ * (limits then only count on this instance, but messages keep flowing)
+ */
+export function createFallbackRateLimitStore(
+  primary: RateLimitStore,
+  fallback: RateLimitStore = createMemoryRateLimitStore()
+): RateLimitStore {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async hit(key, rule) {
+      try {
+        return await primary.hit(key, rule);
+      } catch (err: any) {
+        logger.warn({ key, error: err.message, fallback: fallback.name }, '⚠️ Rate limit: Using fallback store');
+        return fallback.hit(key, rule);
+      }
+    }
+  };
+}
+
+function createRateLimitStore(): RateLimitStore {
+  switch (env.RATE_LIMIT_BACKEND) {
+    case 'postgres':
+      return createFallbackRateLimitStore(createPostgresRateLimitStore());
+    case 'redis':
+      if (!env.REDIS_URL) throw new Error('REDIS_URL is required when RATE_LIMIT_BACKEND=redis');
+      return createFallbackRateLimitStore(createRedisRateLimitStore(env.REDIS_URL));
+    default:
+      return createMemoryRateLimitStore();
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore();
+    logger.info({ backend: store.name, algorithm: env.RATE_LIMIT_ALGORITHM }, '🚦 Rate limit store ready');
+  }
+  return store;
+}
+
+/**
+ * Replace the default store (tests, custom backends)
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+async function notifyRateLimited(event: MessagingEvent, rule: RateLimitRule, limiter: RateLimitStore): Promise<void> {
+  // At most one notice per sender per window, so a flood doesn't turn into a flood of replies
+  const notice = await limiter.hit(`notice:${event.senderId}`, { algorithm: 'sliding-window', limit: 1, windowMs: rule.windowMs });
+  if (!notice.allowed) return;
+
+  const language = detectLanguage(event.messageText || event.postback?.title || '');
+  await sendTextMessage(env.PAGE_ACCESS_TOKEN, event.senderId, getPrompts(language).slowDown);
+}
+
+/**
+ * Filter webhook events through the per-user rate limits
+ * "Slow down" notices are sent before this returns: a serverless function may be frozen
+ * as soon as the webhook has answered
+ * @returns The events that may be queued, in their original order
+ */
+export async function admitEvents(
+  events: MessagingEvent[],
+  limiter: RateLimitStore = getRateLimitStore()
+): Promise<MessagingEvent[]> {
+  const rules = rateLimitRules();
+  const admitted: MessagingEvent[] = [];
+  const notices: Promise<void>[] = [];
+
+  // One at a time: events from the same sender must count against each other
+  for (const event of events) {
+    const kind = eventKind(event);
+    const rule = rules[kind];
+
+    let allowed = true;
+    try {
+      const decision = await limiter.hit(`${kind}:${event.senderId}`, rule);
+      allowed = decision.allowed;
+      if (!allowed) {
+        logger.warn({ senderId: event.senderId, kind, retryAfterMs: decision.retryAfterMs }, '🚦 Rate limit exceeded, skipping event');
+      }
+    } catch (err: any) {
+      // Never drop a customer's message because the limiter is down
+      logger.error({ err, senderId: event.senderId, kind }, '❌ Rate limit check failed, allowing event');
+    }
+
+    if (allowed) {
+      admitted.push(event);
+      continue;
+    }
+
+    notices.push(notifyRateLimited(event, rule, limiter)
+      .catch((err) => logger.warn({ err, senderId: event.senderId }, '⚠️ Failed to send rate limit notice')));
+  }
+
+  await Promise.allSettled(notices);
+  return admitted;
+}
@@ -0,0 +1,39 @@
+import { slidingWindowHit, tokenBucketHit, type BucketState, type WindowState } from './algorithms';
+import type { RateLimitStore } from './types';
+
+/**
+ * Per-process store (single server, local development)
+ * Each instance counts on its own, so limits multiply with the number of instances
+ */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore & { size(): number } {
+  const buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  const windows = new Map<string, { state: WindowState; expiresAt: number }>();
+  let hits = 0;
+
+  function cleanExpired(at: number): void {
+    for (const [key, entry] of buckets) if (entry.expiresAt <= at) buckets.delete(key);
+    for (const [key, entry] of windows) if (entry.expiresAt <= at) windows.delete(key);
+  }
+
+  return {
+    name: 'memory',
+    async hit(key, rule) {
+      const at = now();
+      // Occasional sweep instead of a timer, so nothing keeps the process alive
+      if (++hits % 1000 === 0) cleanExpired(at);
+
+      if (rule.algorithm === 'token-bucket') {
+        const { state, decision } = tokenBucketHit(buckets.get(key)?.state, rule, at);
+        buckets.set(key, { state, expiresAt: at + rule.windowMs });
+        return decision;
+      }
+
+      const { state, decision } = slidingWindowHit(windows.get(key)?.state, rule, at);
+      windows.set(key, { state, expiresAt: at + 2 * rule.windowMs });
+      return decision;
+    },
+    size() {
+      return buckets.size + windows.size;
+    }
+  };
+}
@@ -0,0 +1,32 @@
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import type { RateLimitStore } from './types';
+
+/**
+ * Shared store in Postgres via the rate_limit_hit function (supabase_rate_limits.sql)
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    name: 'postgres',
+    async hit(key, rule) {
+      const { data, error } = await supabase.rpc('rate_limit_hit', {
+        p_key: key,
+        p_algorithm: rule.algorithm,
+        p_limit: rule.limit,
+        p_window_ms: rule.windowMs
+      });
+
+      if (error) {
+        logger.error({ error, key }, '❌ Rate limit: Postgres hit failed');
+        throw new Error('Rate limit check failed');
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        allowed: !!row?.allowed,
+        remaining: Number(row?.remaining ?? 0),
+        retryAfterMs: Number(row?.retry_after_ms ?? 0)
+      };
+    }
+  };
+}
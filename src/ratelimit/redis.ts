@@ -0,0 +1,246 @@
+import net from 'net';
+import tls from 'tls';
+import { logger } from '../logger';
+import type { RateLimitStore } from './types';
+
+/**
+ * Shared store in Redis (or anything speaking the Redis protocol: Valkey, Upstash, KeyDB, ...)
+ *
+ * Each hit runs one Lua script, so the read-modify-write is atomic on the server
+ * and uses the server clock (instances with skewed clocks still agree).
+ */
+
+export type RedisReply = string | number | null | RedisReply[] | Error;
+
+// KEYS[1] = key, ARGV = algorithm, limit, windowMs
+// Returns { allowed (0/1), remaining, retryAfterMs }
+export const HIT_SCRIPT = `
+local algorithm = ARGV[1]
+local limit = tonumber(ARGV[2])
+local window = tonumber(ARGV[3])
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+
+if algorithm == 'token-bucket' then
+  local rate = limit / window
+  local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+  local tokens = tonumber(state[1]) or limit
+  local ts = tonumber(state[2]) or now
+  tokens = math.min(limit, tokens + math.max(0, now - ts) * rate)
+  local allowed = 0
+  local retry = 0
+  if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+  else
+    retry = math.ceil((1 - tokens) / rate)
+  end
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+  redis.call('PEXPIRE', KEYS[1], window)
+  return { allowed, math.floor(tokens), retry }
+end
+
+local start = math.floor(now / window) * window
+local state = redis.call('HMGET', KEYS[1], 'start', 'current', 'previous')
+local stored = tonumber(state[1])
+local current = 0
+local previous = 0
+if stored == start then
+  current = tonumber(state[2]) or 0
+  previous = tonumber(state[3]) or 0
+elseif stored == start - window then
+  previous = tonumber(state[2]) or 0
+end
+
+local elapsed = now - start
+local weighted = previous * (window - elapsed) / window
+if weighted + current + 1 <= limit then
+  current = current + 1
+  redis.call('HSET', KEYS[1], 'start', start, 'current', current, 'previous', previous)
+  redis.call('PEXPIRE', KEYS[1], 2 * window)
+  return { 1, math.floor(limit - weighted - current), 0 }
+end
+
+local retry = window - elapsed
+if current + 1 <= limit and previous > 0 then
+  retry = math.max(1, math.ceil(window * (1 - (limit - 1 - current) / previous)) - elapsed)
+end
+return { 0, 0, retry }
+`;
+
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Parse one RESP reply from `buf` at `offset`
+ * Returns null when the buffer doesn't hold a complete reply yet
+ */
+export function parseReply(buf: Buffer, offset: number): { value: RedisReply; next: number } | null {
+  const lineEnd = buf.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buf[offset]!);
+  const line = buf.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next };
+      if (buf.length < next + length + 2) return null;
+      return { value: buf.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next };
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, cursor);
+        if (!item) return null;
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${type}`);
+  }
+}
+
+/**
+ * Minimal pipelined Redis client: one connection, replies matched to commands in order
+ * Reconnects lazily on the next command after the connection drops. The timeout only
+ * runs while connecting or waiting for replies, so an idle connection stays open.
+ */
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: Array<{ resolve: (value: RedisReply) => void; reject: (err: Error) => void }> = [];
+
+  constructor(private readonly url: URL, private readonly timeoutMs: number) {}
+
+  async command(args: Array<string | number>): Promise<RedisReply> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  private send(args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+      this.armTimeout();
+    });
+  }
+
+  // A silent server only counts while a reply is owed
+  private armTimeout(): void {
+    this.socket?.setTimeout(this.pending.length > 0 ? this.timeoutMs : 0);
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const port = Number(this.url.port) || 6379;
+    const host = this.url.hostname;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setNoDelay(true);
+    socket.setTimeout(this.timeoutMs);  // Connecting; armTimeout takes over once connected
+    // Don't keep the process alive just for the rate limiter
+    socket.unref();
+    this.socket = socket;
+
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('timeout', () => socket.destroy(new Error('Redis connection timed out')));
+    socket.on('error', (err) => logger.warn({ error: err.message }, '⚠️ Rate limit: Redis connection error'));
+    socket.on('close', () => this.reset(new Error('Redis connection closed')));
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', resolve);
+      socket.once('close', () => reject(new Error('Redis connection closed')));
+    }).then(async () => {
+      const password = decodeURIComponent(this.url.password);
+      const username = decodeURIComponent(this.url.username);
+      if (password) {
+        const reply = await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+        if (reply instanceof Error) throw reply;
+      }
+      const db = this.url.pathname.replace('/', '');
+      if (db && db !== '0') {
+        const reply = await this.send(['SELECT', db]);
+        if (reply instanceof Error) throw reply;
+      }
+      this.armTimeout();
+    });
+    this.ready.catch(() => socket.destroy());
+    return this.ready;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const reply = parseReply(this.buffer, offset);
+      if (!reply) break;
+      offset = reply.next;
+      this.pending.shift()?.resolve(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+    this.armTimeout();
+  }
+
+  private reset(err: Error): void {
+    for (const { reject } of this.pending.splice(0)) reject(err);
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+  }
+}
+
+export function createRedisRateLimitStore(
+  redisUrl: string,
+  opts: { keyPrefix?: string; timeoutMs?: number } = {}
+): RateLimitStore {
+  const url = new URL(redisUrl);
+  if (url.protocol !== 'redis:' && url.protocol !== 'rediss:') {
+    throw new Error('REDIS_URL must start with redis:// or rediss://');
+  }
+  const connection = new RedisConnection(url, opts.timeoutMs ?? 2000);
+  const keyPrefix = opts.keyPrefix ?? 'ratelimit:';
+
+  return {
+    name: 'redis',
+    async hit(key, rule) {
+      const reply = await connection.command([
+        'EVAL', HIT_SCRIPT, 1, `${keyPrefix}${key}`,
+        rule.algorithm, rule.limit, rule.windowMs
+      ]);
+
+      if (reply instanceof Error || !Array.isArray(reply)) {
+        logger.error({ error: reply instanceof Error ? reply.message : reply, key }, '❌ Rate limit: Redis hit failed');
+        throw new Error('Rate limit check failed');
+      }
+
+      const [allowed, remaining, retryAfterMs] = reply;
+      return {
+        allowed: allowed === 1,
+        remaining: Number(remaining ?? 0),
+        retryAfterMs: Number(retryAfterMs ?? 0)
+      };
+    }
+  };
+}
@@ -0,0 +1,24 @@
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * `limit` events per `windowMs`
+ * - sliding-window: weighted count of the current and previous fixed window
+ * - token-bucket: bucket of `limit` tokens refilled evenly over `windowMs` (allows short bursts)
+ */
+export type RateLimitRule = {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;  // 0 when allowed
+};
+
+export interface RateLimitStore {
+  readonly name: string;
+  /** Count one event against `key` and decide whether it is allowed */
+  hit(key: string, rule: RateLimitRule): Promise<RateLimitDecision>;
+}
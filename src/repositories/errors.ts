@@ -0,0 +1,10 @@
+/**
+ * The lead changed since it was read (another message for the same customer got there first)
+ * Thrown by conditional lead updates; the conversation reloads the lead and handles the message again
+ */
+export class LeadVersionConflictError extends Error {
+  constructor(readonly userId: string, readonly expectedVersion: number) {
+    super(`Lead for ${userId} changed since version ${expectedVersion}`);
+    this.name = 'LeadVersionConflictError';
+  }
+}
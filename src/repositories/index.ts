@@ -0,0 +1,38 @@
+import { createSupabaseRepositories } from './supabase';
+import type { Repositories } from './types';
+
+export type {
+  Repositories,
+  LeadRepository,
+  MessageRepository,
+  SummaryRepository,
+  CustomerRepository,
+  OrderRepository,
+  NewOrderOptions,
+  PromoCodeRepository,
+  ProductRepository,
+  ProductSearchOptions,
+  NewOrderItem
+} from './types';
+export { LeadVersionConflictError } from './errors';
+export { createSupabaseRepositories } from './supabase';
+export { createMemoryRepositories, type MemoryProduct, type MemoryRepositories } from './memory';
+
+let repositories: Repositories | null = null;
+
+/**
+ * Default repositories for the webhook handlers (Supabase)
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createSupabaseRepositories();
+  }
+  return repositories;
+}
+
+/**
+ * Replace the default repositories (local runs, replay harness)
+ */
+export function setRepositories(next: Repositories | null): void {
+  repositories = next;
+}
@@ -0,0 +1,343 @@
+import type { LeadDoc } from '../services/leads-supabase';
+import type { ChatMessage } from '../services/history-supabase';
+import type { Customer, Order } from '../services/orders';
+import type { RetrievedProduct } from '../services/rag';
+import type { EmbeddingProvider } from '../embeddings/types';
+import { createHashEmbeddingProvider } from '../embeddings/hash';
+import { canTransitionOrder, OrderTransitionError, stockEffect } from '../services/order-lifecycle';
+import { checkPromoCode, normalizePromoCode, type PromoCode } from '../services/pricing';
+import { env } from '../config';
+import { LeadVersionConflictError } from './errors';
+import type { NewOrderItem, ProductSearchOptions, Repositories } from './types';
+
+/**
+ * In-memory repositories for local runs and tests
+ *
+ * Behaves like the Supabase services where the conversation can tell the difference:
+ * leads are created at ask_item and versioned, history comes back most recent first,
+ * undefined fields in an update are ignored, and accepting an order checks and decrements stock.
+ * IDs are sequential ("order-1", "customer-1") so runs are reproducible.
+ */
+
+export type MemoryProduct = Omit<RetrievedProduct, 'similarity' | 'stock'> & {
+  stock?: number | null;
+  embedding?: number[];       // Computed from name/description/category when omitted
+  imageEmbedding?: number[];  // Image search only matches products that have one
+};
+
+export type MemoryRepositoryOptions = {
+  products?: MemoryProduct[];
+  promoCodes?: PromoCode[];
+  customers?: Customer[];
+  embeddings?: EmbeddingProvider;
+};
+
+export type MemoryRepositories = Repositories & {
+  /** Raw state, for assertions and inspection */
+  readonly state: {
+    leads: Map<string, LeadDoc>;
+    messages: ChatMessage[];
+    summaries: Map<string, { summary: string; messageCount: number }>;
+    customers: Customer[];
+    orders: Map<string, Order>;
+    promoCodes: PromoCode[];
+    promoRedemptions: Map<string, string>;  // placement ID → promo code
+    products: MemoryProduct[];
+  };
+};
+
+const DEFAULT_MATCH_COUNT = 5;
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function toRetrieved(product: MemoryProduct, similarity: number): RetrievedProduct {
+  return {
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    size: product.size,
+    price: product.price,
+    image_url: product.image_url,
+    stock: product.stock ?? null,
+    similarity
+  };
+}
+
+export function createMemoryRepositories(opts: MemoryRepositoryOptions = {}): MemoryRepositories {
+  const embeddings = opts.embeddings ?? createHashEmbeddingProvider(256);
+  const state: MemoryRepositories['state'] = {
+    leads: new Map(),
+    messages: [],
+    summaries: new Map(),
+    customers: (opts.customers ?? []).map(c => ({ ...c })),
+    orders: new Map(),
+    promoCodes: (opts.promoCodes ?? []).map(p => ({ ...p, code: normalizePromoCode(p.code) })),
+    promoRedemptions: new Map(),
+    products: (opts.products ?? []).map(p => ({ ...p }))
+  };
+  const sequences = new Map<string, number>();
+  const nextId = (prefix: string) => {
+    const next = (sequences.get(prefix) ?? 0) + 1;
+    sequences.set(prefix, next);
+    return `${prefix}-${next}`;
+  };
+
+  async function productEmbedding(product: MemoryProduct): Promise<number[]> {
+    if (!product.embedding) {
+      product.embedding = await embeddings.embedText(
+        [product.name, product.description, product.category].filter(Boolean).join(' ')
+      );
+    }
+    return product.embedding;
+  }
+
+  function rank(scored: Array<{ product: MemoryProduct; similarity: number }>, options?: ProductSearchOptions): RetrievedProduct[] {
+    const minSimilarity = options?.minSimilarity ?? 0;
+    return scored
+      .filter(s => s.similarity > 0 && s.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, Math.max(1, options?.matchCount ?? DEFAULT_MATCH_COUNT))
+      .map(s => toRetrieved(s.product, s.similarity));
+  }
+
+  // Same lifecycle and stock rules as updateOrderStatus / accept_order / restock_order
+  function setOrderStatus(orderId: string, status: Order['status']): void {
+    const order = state.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (order.status === status) return;
+    if (!canTransitionOrder(order.status, status)) {
+      throw new OrderTransitionError(orderId, order.status, status);
+    }
+
+    const effect = stockEffect(order.status, status);
+    const stockOf = (productId: string) => state.products.find(p => p.id === productId)?.stock ?? 0;
+    if (effect === 'take' && order.items.some(item => stockOf(item.product_id) < item.qty)) {
+      throw new Error('Insufficient stock for one or more items');
+    }
+    if (effect !== 'none') {
+      for (const item of order.items) {
+        const product = state.products.find(p => p.id === item.product_id);
+        if (product) product.stock = (product.stock ?? 0) + (effect === 'take' ? -item.qty : item.qty);
+      }
+    }
+    order.status = status;
+  }
+
+  function saveMessage(userId: string, role: ChatMessage['role'], content: string, messageId?: string): void {
+    state.messages.push({
+      id: nextId('message'),
+      userId,
+      role,
+      content,
+      ...(messageId ? { messageId } : {}),
+      createdAt: new Date(state.messages.length * 1000).toISOString()
+    });
+  }
+
+  return {
+    state,
+
+    leads: {
+      async getOrCreate(userId) {
+        let lead = state.leads.get(userId);
+        if (!lead) {
+          lead = { id: nextId('lead'), userId, stage: 'ask_item', version: 0 };
+          state.leads.set(userId, lead);
+        }
+        return clone(lead);
+      },
+      async update(userId, updates, expectedVersion) {
+        const lead = state.leads.get(userId);
+        if (!lead) {
+          throw new Error('Failed to update lead');
+        }
+        if (expectedVersion !== undefined && lead.version !== expectedVersion) {
+          throw new LeadVersionConflictError(userId, expectedVersion);
+        }
+        // The version is the store's to bump, never taken from the updates
+        const updated: LeadDoc = { ...lead, ...clone(updates), version: (lead.version ?? 0) + 1 };
+        state.leads.set(userId, updated);
+        return updated.version;
+      }
+    },
+
+    messages: {
+      async saveUser(userId, content, messageId) {
+        const duplicate = messageId && state.messages.some(m => m.userId === userId && m.role === 'user' && m.messageId === messageId);
+        if (!duplicate) saveMessage(userId, 'user', content, messageId);
+      },
+      async saveAssistant(userId, content, messageId) {
+        saveMessage(userId, 'assistant', content, messageId);
+      },
+      async getHistory(userId, limit = 20) {
+        return state.messages
+          .filter(m => m.userId === userId)
+          .reverse()
+          .slice(0, limit)
+          .map(m => ({ ...m }));
+      }
+    },
+
+    summaries: {
+      async get(userId) {
+        return state.summaries.get(userId)?.summary ?? null;
+      },
+      async update(userId, summary, messageCount) {
+        state.summaries.set(userId, { summary, messageCount });
+      }
+    },
+
+    customers: {
+      async get(customerId) {
+        const customer = state.customers.find(c => c.id === customerId);
+        return customer ? { ...customer } : null;
+      },
+      async findOrCreate(psid, name, phone, email, address) {
+        const existing = [...state.customers].reverse().find(c => c.phone === phone && c.psid === psid);
+        if (existing) {
+          Object.assign(existing, { name, email: email || existing.email, address: address || existing.address });
+          return { ...existing };
+        }
+
+        const customer: Customer = { id: nextId('customer'), name, phone, email: email || null, address: address || null, psid };
+        state.customers.push(customer);
+        return { ...customer };
+      }
+    },
+
+    orders: {
+      async create(customerId, items: NewOrderItem[], { status = 'pending', psid, pricing, currency = 'USD', placementId } = {}) {
+        if (!items || items.length === 0) {
+          throw new Error('Cannot create order without items');
+        }
+        const placed = placementId ? [...state.orders.values()].find(o => o.placement_id === placementId) : undefined;
+        if (placed) return clone(placed);
+
+        const order: Order = {
+          id: nextId('order'),
+          customer_id: customerId,
+          date: new Date(0).toISOString().split('T')[0]!,
+          status,
+          total: pricing?.total ?? items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+          items: items.map(item => ({
+            product_id: item.productId,
+            product_name: state.products.find(p => p.id === item.productId)?.name ?? '',
+            qty: item.quantity,
+            price: item.price,
+            size: item.size ?? null,
+            color: item.color ?? null
+          })),
+          psid: psid ?? null,
+          placement_id: placementId ?? null,
+          currency,
+          exchange_rate: env.KHR_PER_USD,
+          ...(pricing ? {
+            subtotal: pricing.subtotal,
+            discount: pricing.discount,
+            promo_code: pricing.promoCode,
+            delivery_zone: pricing.deliveryZone,
+            delivery_fee: pricing.deliveryFee,
+            tax: pricing.tax
+          } : {})
+        };
+        state.orders.set(order.id, order);
+        return clone(order);
+      },
+      async get(orderId) {
+        return clone(state.orders.get(orderId) ?? null);
+      },
+      async findByPlacement(placementId) {
+        return clone([...state.orders.values()].find(o => o.placement_id === placementId) ?? null);
+      },
+      async listByPsid(psid, limit = 5) {
+        // Insertion order is creation order
+        return [...state.orders.values()]
+          .filter(order => order.psid === psid)
+          .reverse()
+          .slice(0, limit)
+          .map(order => clone(order));
+      },
+      async cancel(orderId) {
+        const order = state.orders.get(orderId);
+        if (!order || order.status !== 'pending') return false;
+        order.status = 'cancelled';
+        return true;
+      },
+      async updateStatus(orderId, status) {
+        setOrderStatus(orderId, status);
+      },
+      async accept(orderId) {
+        setOrderStatus(orderId, 'paid');
+      }
+    },
+
+    promoCodes: {
+      async find(code) {
+        return clone(state.promoCodes.find(p => p.code === normalizePromoCode(code)) ?? null);
+      },
+      async redeem(code, subtotal, placementId) {
+        const promo = state.promoCodes.find(p => p.code === normalizePromoCode(code)) ?? null;
+        if (promo && state.promoRedemptions.get(placementId) === promo.code) return true;
+        if (!promo || checkPromoCode(promo, subtotal)) return false;
+        promo.usedCount++;
+        state.promoRedemptions.set(placementId, promo.code);
+        return true;
+      },
+      async release(placementId) {
+        const code = state.promoRedemptions.get(placementId);
+        const placed = [...state.orders.values()].some(o => o.placement_id === placementId);
+        if (code === undefined || placed) return false;
+        state.promoRedemptions.delete(placementId);
+        const promo = state.promoCodes.find(p => p.code === code);
+        if (promo) promo.usedCount = Math.max(promo.usedCount - 1, 0);
+        return true;
+      }
+    },
+
+    products: {
+      async search(queryText, options) {
+        const query = await embeddings.embedText(queryText);
+        const scored = await Promise.all(state.products.map(async product => ({
+          product,
+          similarity: cosine(query, await productEmbedding(product))
+        })));
+        return rank(scored, options);
+      },
+      async searchByImage(imageBase64, options) {
+        const query = await embeddings.embedImage(imageBase64);
+        const scored = state.products
+          .filter(product => product.imageEmbedding)
+          .map(product => ({ product, similarity: cosine(query, product.imageEmbedding!) }));
+        return rank(scored, options);
+      },
+      async getById(productId) {
+        const product = state.products.find(p => p.id === productId);
+        return product ? toRetrieved(product, 1) : null;
+      },
+      async getStockLevels(productIds) {
+        return new Map(
+          state.products
+            .filter(p => productIds.includes(p.id))
+            .map(p => [p.id, p.stock ?? 0] as [string, number])
+        );
+      }
+    }
+  };
+}
@@ -0,0 +1,68 @@
+import { getOrCreateLead, updateLead } from '../services/leads-supabase';
+import {
+  getChatHistory,
+  getConversationSummary,
+  saveAssistantMessage,
+  saveUserMessage,
+  updateConversationSummary
+} from '../services/history-supabase';
+import {
+  acceptOrder,
+  cancelPendingOrder,
+  createOrder,
+  findOrCreateCustomer,
+  findOrderByPlacement,
+  getCustomer,
+  getOrder,
+  listOrdersByPsid,
+  updateOrderStatus
+} from '../services/orders';
+import { findPromoCode, redeemPromoCode, releasePromoRedemption } from '../services/promo-codes';
+import { retrieveSimilarContext, retrieveSimilarContextByImage } from '../services/rag';
+import { getProductById, getStockLevels } from '../services/products';
+import type { Repositories } from './types';
+
+/**
+ * Repositories backed by the Supabase services
+ */
+export function createSupabaseRepositories(): Repositories {
+  return {
+    leads: {
+      getOrCreate: getOrCreateLead,
+      update: updateLead
+    },
+    messages: {
+      saveUser: saveUserMessage,
+      saveAssistant: saveAssistantMessage,
+      getHistory: getChatHistory
+    },
+    summaries: {
+      get: getConversationSummary,
+      update: updateConversationSummary
+    },
+    customers: {
+      get: getCustomer,
+      findOrCreate: findOrCreateCustomer
+    },
+    orders: {
+      create: createOrder,
+      get: getOrder,
+      findByPlacement: findOrderByPlacement,
+      listByPsid: listOrdersByPsid,
+      cancel: cancelPendingOrder,
+      updateStatus: updateOrderStatus,
+      accept: acceptOrder
+    },
+    promoCodes: {
+      find: findPromoCode,
+      redeem: redeemPromoCode,
+      release: releasePromoRedemption
+    },
+    products: {
+      search: retrieveSimilarContext,
+      searchByImage: retrieveSimilarContextByImage,
+      getById: getProductById,
+      getStockLevels
+    }
+  };
+}
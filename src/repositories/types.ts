@@ -0,0 +1,104 @@
+import type { LeadDoc } from '../services/leads-supabase';
+import type { ChatMessage } from '../services/history-supabase';
+import type { Customer, Order } from '../services/orders';
+import type { OrderActor } from '../services/order-lifecycle';
+import type { PriceBreakdown, PromoCode } from '../services/pricing';
+import type { Currency } from '../services/money';
+import type { RetrievedProduct } from '../services/rag';
+
+/**
+ * Storage interfaces used by the conversation layer
+ *
+ * `createSupabaseRepositories()` wraps the existing Supabase services;
+ * `createMemoryRepositories()` keeps everything in process for local runs and tests.
+ */
+
+export interface LeadRepository {
+  getOrCreate(userId: string): Promise<LeadDoc>;
+  /**
+   * Apply updates; with `expectedVersion` only if the lead is still at that version
+   * (throws LeadVersionConflictError otherwise). Resolves to the new version when known.
+   */
+  update(userId: string, updates: Partial<LeadDoc>, expectedVersion?: number): Promise<number | undefined>;
+}
+
+export interface MessageRepository {
+  /** Skips a messageId that is already saved for this user */
+  saveUser(userId: string, content: string, messageId?: string): Promise<void>;
+  saveAssistant(userId: string, content: string, messageId?: string): Promise<void>;
+  /** Most recent first */
+  getHistory(userId: string, limit?: number): Promise<ChatMessage[]>;
+}
+
+export interface SummaryRepository {
+  get(userId: string): Promise<string | null>;
+  update(userId: string, summary: string, messageCount: number): Promise<void>;
+}
+
+export interface CustomerRepository {
+  get(customerId: string): Promise<Customer | null>;
+  /** Newest customer with this phone created from this chat (details updated to the ones given), or a new one */
+  findOrCreate(psid: string, name: string, phone: string, email?: string, address?: string): Promise<Customer>;
+}
+
+export type NewOrderItem = {
+  productId: string;
+  quantity: number;
+  price: number;
+  size?: string | null;
+  color?: string | null;
+};
+
+export type NewOrderOptions = {
+  status?: 'pending' | 'paid';
+  psid?: string;              // Messenger user placing the order
+  pricing?: PriceBreakdown;   // Delivery, discount and tax; the total is the plain subtotal without it
+  currency?: Currency;        // Currency the customer was shown (amounts stay in USD); USD by default
+  placementId?: string;       // Checkout being placed; creating again with it returns the same order
+};
+
+export interface OrderRepository {
+  create(customerId: string, items: NewOrderItem[], opts?: NewOrderOptions): Promise<Order>;
+  get(orderId: string): Promise<Order | null>;
+  /** Order created with this `placementId`, if any */
+  findByPlacement(placementId: string): Promise<Order | null>;
+  /** Orders placed from this Messenger user's chat, newest first */
+  listByPsid(psid: string, limit?: number): Promise<Order[]>;
+  /** Pending → cancelled; false when the order is no longer pending */
+  cancel(orderId: string): Promise<boolean>;
+  /** Lifecycle-checked status change (throws OrderTransitionError); pays and restocks like the RPCs */
+  updateStatus(orderId: string, status: Order['status'], actor?: OrderActor): Promise<void>;
+  /** Mark as paid and decrement stock */
+  accept(orderId: string, actor?: OrderActor): Promise<void>;
+}
+
+export interface PromoCodeRepository {
+  find(code: string): Promise<PromoCode | null>;
+  /** Count one use for the placement if the code is still valid for this subtotal; false otherwise */
+  redeem(code: string, subtotal: number, placementId: string): Promise<boolean>;
+  /** Give back the placement's use unless its order was created; false when there was nothing to give back */
+  release(placementId: string): Promise<boolean>;
+}
+
+export type ProductSearchOptions = {
+  matchCount?: number;
+  minSimilarity?: number;
+};
+
+export interface ProductRepository {
+  search(queryText: string, opts?: ProductSearchOptions): Promise<RetrievedProduct[]>;
+  searchByImage(imageBase64: string, opts?: ProductSearchOptions): Promise<RetrievedProduct[]>;
+  getById(productId: string): Promise<RetrievedProduct | null>;
+  /** productId → units in stock (unknown products are missing from the map) */
+  getStockLevels(productIds: string[]): Promise<Map<string, number>>;
+}
+
+export type Repositories = {
+  leads: LeadRepository;
+  messages: MessageRepository;
+  summaries: SummaryRepository;
+  customers: CustomerRepository;
+  orders: OrderRepository;
+  promoCodes: PromoCodeRepository;
+  products: ProductRepository;
+};
@@ -1,16 +1,20 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
+import crypto from 'crypto';
 import express, { type Request, type Response } from 'express';
-import { sendSenderAction, sendTextMessage, sendProductCarousel } from './social/facebook';
-import { handleConversation } from './conversation';
 import helmet from 'helmet';
 import compression from 'compression';
 import { env } from './config';
 import { logger } from './logger';
-import { RateLimiter } from './utils/rate-limiter';
 import { verifyWebhookSignature, verifyWebhookChallenge, extractMessagingEvents } from './utils/webhook';
 import { clampText } from './utils/text';
+import { assertEmbeddingDimension } from './embeddings';
+import { enqueueWebhookEvents } from './services/jobs';
+import { claimDeliveries, releaseDeliveries } from './services/idempotency';
+import { kickWebhookWorker, startWebhookWorker } from './worker';
+import { handleAdminRequest } from './admin';
+import { admitEvents } from './ratelimit';
 
 const app = express();
 
@@ -31,17 +35,15 @@ const VERIFY_TOKEN = env.VERIFY_TOKEN;
 const APP_SECRET = env.APP_SECRET;
 const PORT = env.PORT;
 const MAX_MESSAGE_CHARS = 800;
-const RATE_LIMIT_WINDOW_MS = 30_000; // 30s
-const RATE_LIMIT_MAX_EVENTS = 4; // per window per user
-
-// Initialize rate limiter
-const rateLimiter = new RateLimiter(RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX_EVENTS);
 
 if (!PAGE_ACCESS_TOKEN || !VERIFY_TOKEN || !APP_SECRET) {
   // Fail fast so misconfiguration is caught immediately
   throw new Error('Missing required env vars: PAGE_ACCESS_TOKEN, VERIFY_TOKEN, APP_SECRET');
 }
 
+// Product search compares query embeddings against the stored vectors
+assertEmbeddingDimension();
+
 // Webhook verification endpoint (required by Meta)
 app.get('/webhook', (req: Request, res: Response) => {
   const mode = req.query['hub.mode'] as string | undefined;
@@ -58,7 +60,8 @@ app.get('/webhook', (req: Request, res: Response) => {
 });
 
 // Event receiver
-app.post('/webhook', (req: Request & { rawBody?: Buffer }, res: Response) => {
+// Events are stored in the job queue before answering Meta, then processed by the worker
+app.post('/webhook', async (req: Request & { rawBody?: Buffer }, res: Response) => {
   const signatureHeader = req.header('x-hub-signature-256');
   
   if (!verifyWebhookSignature(req.rawBody ?? Buffer.from(''), signatureHeader, APP_SECRET!)) {
@@ -72,45 +75,39 @@ app.post('/webhook', (req: Request & { rawBody?: Buffer }, res: Response) => {
     return res.sendStatus(404);
   }
 
-  // Process each messaging event
-  for (const event of events) {
-    const { senderId, messageText, mid, imageUrl, hasImage } = event;
-
-    // Apply rate limiting
-    if (!rateLimiter.allowEvent(senderId)) {
-      logger.warn({ senderId }, 'Rate limit exceeded, skipping event');
-      continue;
-    }
-
-    const clipped = clampText(messageText, MAX_MESSAGE_CHARS);
-    
-    // Send typing indicator (non-blocking)
-    sendSenderAction(PAGE_ACCESS_TOKEN!, senderId, 'typing_on')
-      .catch((err) => logger.debug({ err }, 'Failed to send typing indicator'));
-
-    // Handle conversation asynchronously (with image if present)
-    const conversationOpts = {
-      mid,
-      ...(hasImage && imageUrl ? { imageUrl } : {})
-    };
-    
-    handleConversation(senderId, clipped, conversationOpts)
-      .then(async (resp) => {
-        try {
-          if (resp.products && resp.products.length > 0) {
-            await sendProductCarousel(PAGE_ACCESS_TOKEN!, senderId, resp.products);
-          }
-        } catch (err) {
-          logger.error({ err, senderId }, 'Failed to send product carousel');
-        }
-        return sendTextMessage(PAGE_ACCESS_TOKEN!, senderId, resp.text);
-      })
-      .catch((err) => {
-        logger.error({ err, senderId }, 'Failed to generate/send AI reply');
-      });
+  // Redeliveries of messages already received don't count against the rate limits
+  const deliveryId = crypto.randomUUID();
+  const fresh = await claimDeliveries(events, deliveryId);
+
+  // Per-user rate limits (src/ratelimit); limited users get a "slow down" reply
+  const accepted = (await admitEvents(fresh))
+    .map((event) => ({ ...event, messageText: clampText(event.messageText, MAX_MESSAGE_CHARS) }));
+
+  try {
+    await enqueueWebhookEvents(accepted);
+  } catch (err) {
+    // Meta redelivers when the webhook doesn't answer 200
+    logger.error({ err }, 'Failed to enqueue webhook events');
+    await releaseDeliveries(accepted, deliveryId).catch((releaseErr) => {
+      logger.error({ err: releaseErr }, 'Failed to release webhook deliveries');
+    });
+    return res.sendStatus(500);
   }
 
   res.sendStatus(200);
+  if (accepted.length > 0) void kickWebhookWorker();
+});
+
+// Admin API (leads, orders, handovers, webhook jobs) - see src/admin.ts
+app.use('/admin', async (req: Request, res: Response) => {
+  const result = await handleAdminRequest({
+    method: req.method,
+    path: req.originalUrl.split('?')[0] ?? '',
+    query: req.query as Record<string, string | undefined>,
+    body: req.body,
+    authorization: req.header('authorization')
+  });
+  res.status(result.status).json(result.body);
 });
 
 app.get('/', (_req, res) => {
@@ -125,8 +122,8 @@ app.get('/healthz', async (_req, res) => {
   }
 });
 
-// Clean up expired rate limit buckets every minute to prevent memory leak
-rateLimiter.startAutoCleanup(60000);
+// Process queued webhook jobs (new events, retries after backoff, jobs left by a crash)
+startWebhookWorker();
 
 app.listen(PORT, () => {
   logger.info({ port: PORT }, `Server listening on http://localhost:${PORT}`);
@@ -0,0 +1,256 @@
+import type { OrderItem } from './leads-supabase';
+import type { AppliedPromo } from './pricing';
+import { matchSizeOption, parseSizeOptions } from '../utils/variants';
+
+/**
+ * Shopping cart helpers
+ *
+ * The cart is persisted on the lead as `pendingOrder` ({ items, total, promo }) so the
+ * same structure feeds the confirmation prompt and `createOrder`. `total` is the sum of
+ * the lines; delivery, discount and tax are added by the pricing engine (services/pricing.ts).
+ * Every function here is pure and returns a new cart.
+ *
+ * A line is one product in one variant (size/color). Lines are addressed by
+ * `cartLineKey()`, which is just the product id for products without variants.
+ */
+
+export type Cart = {
+  items: OrderItem[];
+  total: number;
+  promo?: AppliedPromo | null;  // Promo code the customer entered, kept while the cart changes
+};
+
+export type CartProduct = {
+  id: string;
+  name: string;
+  price: number | null;
+  image_url?: string | null;
+  size?: string | null;
+  description?: string | null;
+};
+
+export type CartVariant = {
+  size?: string | undefined;
+  color?: string | undefined;
+};
+
+const MAX_ITEM_QUANTITY = 99;
+
+// Words customers use to point at "the product you just showed me"
+const DEICTIC_REFERENCES = /^(it|this|that|this one|that one|the first one|first one|វា|នេះ|មួយនេះ)$/i;
+
+/**
+ * Sum of line totals, rounded to cents
+ */
+export function cartTotal(items: OrderItem[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.price * item.quantity, 0) * 100) / 100;
+}
+
+function withItems(items: OrderItem[], from?: Cart | null): Cart {
+  return { items, total: cartTotal(items), ...(from?.promo ? { promo: from.promo } : {}) };
+}
+
+function clampQuantity(quantity: number): number {
+  return Math.max(0, Math.min(MAX_ITEM_QUANTITY, Math.floor(quantity)));
+}
+
+/**
+ * Count units in the cart (2x A + 1x B = 3)
+ */
+export function cartItemCount(cart: Cart | null | undefined): number {
+  return (cart?.items ?? []).reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * Key identifying a cart line (product + variant)
+ */
+export function cartLineKey(item: Pick<OrderItem, 'productId' | 'size' | 'color'>): string {
+  if (!item.size && !item.color) return item.productId;
+  return [item.productId, item.size ?? '', item.color ?? ''].join(':');
+}
+
+// A bare product id addresses every line of that product (e.g. "remove sneakers")
+function matchesLine(item: OrderItem, key: string): boolean {
+  return cartLineKey(item) === key || item.productId === key;
+}
+
+/**
+ * Build a cart line for a product in the requested variant
+ * A requested size the product doesn't come in is dropped so it gets asked for at checkout
+ */
+export function toCartLine(product: CartProduct, quantity: number = 1, variant: CartVariant = {}): OrderItem {
+  const sizeOptions = parseSizeOptions(product.size);
+  return {
+    productId: product.id,
+    productName: product.name,
+    quantity: clampQuantity(quantity) || 1,
+    price: product.price || 0,
+    imageUrl: product.image_url ?? null,
+    size: variant.size ? matchSizeOption(variant.size, sizeOptions) ?? null : null,
+    color: variant.color ?? null,
+    sizeOptions
+  };
+}
+
+/**
+ * Add a line, merging with an existing line for the same product and variant
+ */
+export function addLineToCart(cart: Cart | null | undefined, line: OrderItem): Cart {
+  const items = [...(cart?.items ?? [])];
+  const idx = items.findIndex(item => cartLineKey(item) === cartLineKey(line));
+
+  if (idx >= 0) {
+    const existing = items[idx]!;
+    items[idx] = { ...existing, quantity: clampQuantity(existing.quantity + line.quantity) || 1 };
+  } else {
+    items.push(line);
+  }
+
+  return withItems(items, cart);
+}
+
+/**
+ * Add a product in the requested variant
+ */
+export function addToCart(
+  cart: Cart | null | undefined,
+  product: CartProduct,
+  quantity: number = 1,
+  variant: CartVariant = {}
+): Cart {
+  return addLineToCart(cart, toCartLine(product, quantity, variant));
+}
+
+/**
+ * Remove a cart line entirely
+ */
+export function removeFromCart(cart: Cart | null | undefined, lineKey: string): Cart {
+  return withItems((cart?.items ?? []).filter(item => !matchesLine(item, lineKey)), cart);
+}
+
+/**
+ * Set the quantity of a cart line (0 removes it)
+ */
+export function setCartQuantity(cart: Cart | null | undefined, lineKey: string, quantity: number): Cart {
+  const qty = clampQuantity(quantity);
+  if (qty === 0) {
+    return removeFromCart(cart, lineKey);
+  }
+  return withItems((cart?.items ?? []).map(item =>
+    matchesLine(item, lineKey) ? { ...item, quantity: qty } : item
+  ), cart);
+}
+
+/**
+ * Change the quantity of a cart line by a delta (e.g. +1 / -1 buttons)
+ */
+export function changeCartQuantity(cart: Cart | null | undefined, lineKey: string, delta: number): Cart {
+  const item = cart?.items.find(i => matchesLine(i, lineKey));
+  if (!item) {
+    return withItems(cart?.items ?? [], cart);
+  }
+  return setCartQuantity(cart, lineKey, item.quantity + delta);
+}
+
+/**
+ * First cart line that still needs a size chosen
+ */
+export function itemNeedingSize(cart: Cart | null | undefined): OrderItem | null {
+  return cart?.items.find(item => (item.sizeOptions?.length ?? 0) > 0 && !item.size) ?? null;
+}
+
+/**
+ * Change the size and/or color of a cart line, merging it into an existing line with the same variant
+ */
+export function setCartItemVariant(cart: Cart | null | undefined, lineKey: string, variant: CartVariant): Cart {
+  const items = cart?.items ?? [];
+  const target = items.find(item => cartLineKey(item) === lineKey);
+  if (!target) {
+    return withItems(items, cart);
+  }
+
+  const changed: OrderItem = {
+    ...target,
+    ...(variant.size !== undefined ? { size: variant.size } : {}),
+    ...(variant.color !== undefined ? { color: variant.color } : {})
+  };
+  const rest = items.filter(item => item !== target);
+  const idx = rest.findIndex(item => cartLineKey(item) === cartLineKey(changed));
+  if (idx >= 0) {
+    const existing = rest[idx]!;
+    rest[idx] = { ...existing, quantity: clampQuantity(existing.quantity + changed.quantity) || 1 };
+    return withItems(rest, cart);
+  }
+
+  return withItems(items.map(item => (item === target ? changed : item)), cart);
+}
+
+/**
+ * Set the size of a cart line, merging it into an existing line with the same variant
+ */
+export function setCartItemSize(cart: Cart | null | undefined, lineKey: string, size: string): Cart {
+  return setCartItemVariant(cart, lineKey, { size });
+}
+
+export type StockShortage = {
+  item: OrderItem;
+  available: number;  // Units that could be kept (0 = sold out)
+};
+
+/**
+ * Trim the cart to what's in stock
+ * Variant lines of the same product share its stock; products missing from `stock` count as sold out
+ */
+export function applyStockLimits(
+  cart: Cart | null | undefined,
+  stock: Map<string, number>
+): { cart: Cart; shortages: StockShortage[] } {
+  const remaining = new Map(stock);
+  const items: OrderItem[] = [];
+  const shortages: StockShortage[] = [];
+
+  for (const item of cart?.items ?? []) {
+    const left = Math.max(0, remaining.get(item.productId) ?? 0);
+    const quantity = Math.min(item.quantity, left);
+    remaining.set(item.productId, left - quantity);
+
+    if (quantity < item.quantity) shortages.push({ item, available: quantity });
+    if (quantity > 0) items.push({ ...item, quantity });
+  }
+
+  return { cart: withItems(items, cart), shortages };
+}
+
+/**
+ * Resolve a product the customer named against a list of candidates
+ * Matches "it"/"this one" to the first candidate, then full-name, then significant-word overlap
+ */
+export function findProductByName<T extends { name: string }>(query: string, candidates: T[]): T | null {
+  const q = query.trim().toLowerCase();
+  if (!q || candidates.length === 0) return null;
+
+  if (DEICTIC_REFERENCES.test(q)) {
+    return candidates[0] ?? null;
+  }
+
+  const exact = candidates.find(c => {
+    const name = c.name.toLowerCase();
+    return name.includes(q) || q.includes(name);
+  });
+  if (exact) return exact;
+
+  // Score by shared significant words (skip short words like "the", "men's")
+  const queryWords = q.split(/\s+/).filter(w => w.length > 2);
+  let best: T | null = null;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    const name = candidate.name.toLowerCase();
+    const score = queryWords.filter(w => name.includes(w)).length;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
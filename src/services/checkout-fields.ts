@@ -0,0 +1,72 @@
+import { normalizePhone } from './phone';
+import { normalizeDigits } from '../utils/variants';
+import { parseConfirmation } from '../utils/confirm-intents';
+
+/**
+ * Validation of the customer details collected at checkout
+ *
+ * Each ask_* stage saves its reply only when it passes the field's check; otherwise the
+ * conversation asks again with a hint (see `invalidField` in prompts.ts) and stays on the stage.
+ */
+
+export type CheckoutField = 'name' | 'phone' | 'email' | 'address';
+
+export type FieldResult =
+  | { ok: true; value: string | null }  // null: optional field skipped
+  | { ok: false };
+
+// Email is optional: "." or "skip" (and their Khmer equivalents) moves on without one
+const EMAIL_SKIP = /^(?:\.|-|skip|skip it|please skip|no|none|n\/a|no email|i don't have one|រំលង|គ្មាន|អត់មាន|អត់ទេ)$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+
+// Words that make a single Khmer phrase an address: house, street, village, commune, district, province, city
+const KHMER_ADDRESS_WORDS = /(?:ផ្ទះ|ផ្លូវ|ភូមិ|ឃុំ|សង្កាត់|ខណ្ឌ|ស្រុក|ខេត្ត|ក្រុង|ភ្នំពេញ)/;
+
+function validateName(text: string): FieldResult {
+  const name = text.replace(/\s+/g, ' ').trim();
+  const words = name.split(' ');
+  const looksLikeName = name.length >= 2 && name.length <= 60 && words.length <= 6 &&
+    /\p{L}/u.test(name) && !/[\d@]/.test(normalizeDigits(name)) &&
+    parseConfirmation(name) === null;  // "ok", "yes" aren't names
+  return looksLikeName ? { ok: true, value: name } : { ok: false };
+}
+
+function validatePhone(text: string): FieldResult {
+  const phone = normalizePhone(normalizeDigits(text), 'KH').e164;
+  return phone ? { ok: true, value: phone } : { ok: false };
+}
+
+function validateEmail(text: string): FieldResult {
+  const email = text.trim();
+  if (EMAIL_SKIP.test(email)) return { ok: true, value: null };
+  return EMAIL.test(email) ? { ok: true, value: email } : { ok: false };
+}
+
+/**
+ * At least a place plus something more specific: "House 12, Street 271, Phnom Penh", "Siem Reap",
+ * "ផ្ទះលេខ ១២ ផ្លូវ ២៧១"; a lone word ("home", "Kampot") isn't enough to deliver to
+ */
+function validateAddress(text: string): FieldResult {
+  const address = text.replace(/\s+/g, ' ').trim();
+  if (address.length < 5 || address.length > 300 || !/\p{L}/u.test(address)) return { ok: false };
+  if (parseConfirmation(address) !== null) return { ok: false };
+
+  const parts = address.split(/[\s,]+/).filter(Boolean);
+  const hasStructure = parts.length >= 2 || KHMER_ADDRESS_WORDS.test(address);
+  return hasStructure ? { ok: true, value: address } : { ok: false };
+}
+
+const VALIDATORS: Record<CheckoutField, (text: string) => FieldResult> = {
+  name: validateName,
+  phone: validatePhone,
+  email: validateEmail,
+  address: validateAddress
+};
+
+/**
+ * Check a reply for a checkout field
+ * @returns the value to save (phone numbers in E.164), or ok: false to ask again
+ */
+export function validateCheckoutField(field: CheckoutField, text: string): FieldResult {
+  return VALIDATORS[field](text);
+}
@@ -0,0 +1,150 @@
+import type { ConversationStage, LeadDoc } from './leads-supabase';
+import { logger } from '../logger';
+import { itemNeedingSize } from './cart';
+import type { CheckoutField } from './checkout-fields';
+
+/**
+ * Checkout state machine
+ *
+ * ask_item ──buy──▶ [ask_size] ─▶ ask_name ─▶ ask_phone ─▶ ask_email ─▶ ask_address ─▶ confirm_order ──place──▶ processing_order ──order_placed──▶ completed
+ *                   (once per cart line without a size; steps already on the lead are skipped)   │   ◀──placement_failed──┘
+ *                                                                                                └──cancel──▶ completed
+ * confirm_order or any ask_* stage ──edit_<field>──▶ that field's ask_* stage
+ *
+ * All stage changes during checkout go through `transition()` so the flow
+ * is defined by the tables below instead of scattered if/else branches.
+ */
+
+export type CheckoutStage = 'ask_size' | 'ask_name' | 'ask_phone' | 'ask_email' | 'ask_address';
+
+export type CheckoutEvent =
+  | 'buy'              // Buy intent on a shown product (text or carousel tap)
+  | 'field_collected'  // Current ask_* field was saved on the lead
+  | 'place'            // Customer confirmed; the order is being written
+  | 'placement_failed' // Writing the order stopped before it was saved (stock, promo, error)
+  | 'order_placed'     // Order was written to the database
+  | 'cancel'           // Customer declined the pending order
+  | `edit_${CheckoutField}`;  // Customer wants to change a detail given earlier
+
+type CheckoutStep = {
+  stage: Exclude<CheckoutStage, 'ask_size'>;
+  field: CheckoutField;
+  optional: boolean;
+};
+
+// Order in which details are collected
+const CHECKOUT_STEPS: readonly CheckoutStep[] = [
+  { stage: 'ask_name', field: 'name', optional: false },
+  { stage: 'ask_phone', field: 'phone', optional: false },
+  { stage: 'ask_email', field: 'email', optional: true },
+  { stage: 'ask_address', field: 'address', optional: false }
+];
+
+type Transition = {
+  event: CheckoutEvent;
+  from: readonly ConversationStage[] | '*';
+  guard?: (lead: LeadDoc) => boolean;
+  to: (lead: LeadDoc, from: ConversationStage) => ConversationStage;
+};
+
+const COLLECTING_STAGES: readonly ConversationStage[] = ['ask_size', ...CHECKOUT_STEPS.map(s => s.stage)];
+
+const TRANSITIONS: readonly Transition[] = [
+  // Re-entry: buying again (from browsing, mid-checkout or a finished order) keeps collected details
+  { event: 'buy', from: '*', guard: hasPendingItems, to: (lead) => nextCheckoutStage(lead) },
+  { event: 'field_collected', from: COLLECTING_STAGES, to: (lead, from) => nextCheckoutStage(lead, from as CheckoutStage) },
+  { event: 'place', from: ['confirm_order'], guard: hasPendingItems, to: () => 'processing_order' },
+  { event: 'placement_failed', from: ['processing_order'], to: () => 'confirm_order' },
+  { event: 'order_placed', from: ['confirm_order', 'processing_order'], to: () => 'completed' },
+  { event: 'cancel', from: ['confirm_order', ...COLLECTING_STAGES], to: () => 'completed' },
+  // Going back to a step ("I want to change my address"); the steps after it are skipped if already collected
+  ...CHECKOUT_STEPS.map((step): Transition => ({
+    event: `edit_${step.field}`,
+    from: ['confirm_order', ...COLLECTING_STAGES],
+    guard: hasPendingItems,
+    to: () => step.stage
+  }))
+];
+
+function hasPendingItems(lead: LeadDoc): boolean {
+  return !!lead.pendingOrder && lead.pendingOrder.items.length > 0;
+}
+
+function isCollected(lead: LeadDoc, step: CheckoutStep): boolean {
+  const value = lead[step.field];
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Customer detail an ask_* stage collects
+ */
+export function checkoutFieldFor(stage: Exclude<CheckoutStage, 'ask_size'>): CheckoutField {
+  return CHECKOUT_STEPS.find(step => step.stage === stage)!.field;
+}
+
+/**
+ * Check whether every required customer detail is on the lead
+ */
+export function hasRequiredDetails(lead: LeadDoc): boolean {
+  return CHECKOUT_STEPS.every(step => step.optional || isCollected(lead, step));
+}
+
+/**
+ * Find the next stage to enter
+ * @param lead Lead with the latest collected fields applied
+ * @param after Stage just completed; when omitted (or after choosing a size) this is a fresh (re-)entry,
+ *              and optional steps are skipped so returning buyers aren't re-asked for email
+ *              (also after changing a detail, once every required one is on the lead)
+ * @returns next ask_* stage, confirm_order when there is something to confirm, else completed
+ */
+export function nextCheckoutStage(lead: LeadDoc, after?: CheckoutStage): ConversationStage {
+  // Sizes come first: they belong to the cart, not the customer
+  if (itemNeedingSize(lead.pendingOrder)) {
+    return 'ask_size';
+  }
+
+  const fresh = !after || after === 'ask_size';
+  const skipOptional = fresh || hasRequiredDetails(lead);
+  const startIdx = fresh ? 0 : CHECKOUT_STEPS.findIndex(s => s.stage === after) + 1;
+
+  for (const step of CHECKOUT_STEPS.slice(startIdx)) {
+    if (isCollected(lead, step)) continue;
+    if (step.optional && skipOptional) continue;
+    return step.stage;
+  }
+
+  // A later required field may still be missing if an earlier step was re-entered
+  if (!hasRequiredDetails(lead)) {
+    return CHECKOUT_STEPS.find(s => !s.optional && !isCollected(lead, s))!.stage;
+  }
+
+  return hasPendingItems(lead) ? 'confirm_order' : 'completed';
+}
+
+/**
+ * Apply a checkout event to a lead
+ * @returns the stage to move to, or null when the event is not allowed from the current stage
+ */
+export function transition(lead: LeadDoc, event: CheckoutEvent): ConversationStage | null {
+  const match = TRANSITIONS.find(t =>
+    t.event === event &&
+    (t.from === '*' || t.from.includes(lead.stage)) &&
+    (!t.guard || t.guard(lead))
+  );
+
+  if (!match) {
+    logger.warn({ userId: lead.userId, stage: lead.stage, event }, '⚠️ Checkout: Transition not allowed');
+    return null;
+  }
+
+  const next = match.to(lead, lead.stage);
+  logger.info({ userId: lead.userId, from: lead.stage, event, to: next }, '🔀 Checkout: Stage transition');
+  return next;
+}
+
+/**
+ * Check if a stage collects a checkout detail (size or customer field)
+ */
+export function isCollectingStage(stage: ConversationStage): stage is CheckoutStage {
+  return COLLECTING_STAGES.includes(stage);
+}
@@ -0,0 +1,87 @@
+import { env } from '../config';
+import { logger } from '../logger';
+import { notifyStaff, type HandoverReason } from '../notifiers';
+import type { Repositories } from '../repositories';
+import type { LeadDoc, LeadHandover } from './leads-supabase';
+
+/**
+ * Human handover
+ *
+ * While a lead is in the human_handover stage the bot saves the customer's messages
+ * but doesn't reply, so staff can answer from the Page inbox. The handover starts on a
+ * customer request, when the LLM isn't confident, or from the admin API; it ends when
+ * staff release it or after HANDOVER_TIMEOUT_MINUTES, and the lead goes back to the
+ * stage it was in. Staff are notified both times (src/notifiers).
+ */
+
+export function isInHandover(lead: LeadDoc): boolean {
+  return lead.stage === 'human_handover';
+}
+
+export function isHandoverExpired(lead: LeadDoc, now: number = Date.now()): boolean {
+  if (!isInHandover(lead)) return false;
+  // A handover without details (e.g. stage set by hand in the database) never expires on its own
+  if (!lead.handover) return false;
+  return Date.parse(lead.handover.expiresAt) <= now;
+}
+
+/**
+ * Pause the bot for this customer and notify staff
+ * Starting again while already handed over extends the handover and keeps the original stage to resume.
+ * @returns the lead with the handover applied
+ */
+export async function startHandover(
+  repos: Repositories,
+  lead: LeadDoc,
+  reason: HandoverReason,
+  opts: { lastMessage?: string; minutes?: number } = {}
+): Promise<LeadDoc> {
+  const now = Date.now();
+  const minutes = opts.minutes ?? env.HANDOVER_TIMEOUT_MINUTES;
+  const handover: LeadHandover = {
+    reason,
+    startedAt: lead.handover?.startedAt ?? new Date(now).toISOString(),
+    expiresAt: new Date(now + minutes * 60_000).toISOString(),
+    resumeStage: isInHandover(lead) ? lead.handover?.resumeStage ?? 'ask_item' : lead.stage
+  };
+
+  await repos.leads.update(lead.userId, { stage: 'human_handover', handover });
+  logger.info({ userId: lead.userId, reason, expiresAt: handover.expiresAt }, '🙋 Handover: Bot paused for staff');
+
+  await notifyStaff({
+    type: 'handover_started',
+    userId: lead.userId,
+    reason,
+    customerName: lead.name ?? null,
+    customerPhone: lead.phone ?? null,
+    ...(opts.lastMessage ? { lastMessage: opts.lastMessage } : {}),
+    expiresAt: handover.expiresAt
+  });
+
+  return { ...lead, stage: 'human_handover', handover };
+}
+
+/**
+ * Hand the conversation back to the bot
+ * @returns the lead with the handover removed
+ */
+export async function endHandover(
+  repos: Repositories,
+  lead: LeadDoc,
+  reason: 'timeout' | 'released'
+): Promise<LeadDoc> {
+  const stage = lead.handover?.resumeStage ?? 'ask_item';
+
+  await repos.leads.update(lead.userId, { stage, handover: null });
+  logger.info({ userId: lead.userId, reason, stage }, '🤖 Handover: Bot resumed');
+
+  await notifyStaff({
+    type: 'handover_ended',
+    userId: lead.userId,
+    reason,
+    customerName: lead.name ?? null,
+    customerPhone: lead.phone ?? null
+  });
+
+  return { ...lead, stage, handover: null };
+}
@@ -13,6 +13,7 @@ export type ChatMessage = {
 
 /**
  * Save user message to Supabase
+ * A message_id that is already saved (redelivered webhook) is skipped
  */
 export async function saveUserMessage(
   userId: string,
@@ -20,16 +21,21 @@ export async function saveUserMessage(
   messageId?: string
 ): Promise<void> {
   const tenantId = env.PRODUCT_TENANT_ID;
-
-  const { error } = await supabase
-    .from('chat_messages')
-    .insert({
-      user_id: userId,
-      role: 'user',
-      content,
-      message_id: messageId,
-      tenant_id: tenantId
-    });
+  const row = {
+    user_id: userId,
+    role: 'user',
+    content,
+    message_id: messageId,
+    tenant_id: tenantId
+  };
+
+  const { error } = messageId
+    ? await supabase
+        .from('chat_messages')
+        .upsert(row, { onConflict: 'user_id,role,message_id', ignoreDuplicates: true })
+    : await supabase
+        .from('chat_messages')
+        .insert(row);
 
   if (error) {
     logger.error({ error, userId }, '❌ Failed to save user message');
@@ -0,0 +1,153 @@
+import { supabase } from '../supabase';
+import { env } from '../config';
+import { logger } from '../logger';
+import type { MessagingEvent } from '../utils/webhook';
+
+/**
+ * Idempotency store for incoming messages (keyed by mid)
+ *
+ * `claim(key, owner)` is true for the first owner to claim a key, and again for
+ * that same owner (a retried job), until the TTL expires. Everyone else gets false.
+ * `release(key, owner)` drops the owner's claim, so the key can be claimed again.
+ */
+export interface IdempotencyStore {
+  readonly name: string;
+  claim(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  release(key: string, owner: string): Promise<void>;
+}
+
+/**
+ * Per-process store: catches redeliveries that land on the same instance
+ */
+export function createMemoryIdempotencyStore(maxEntries: number = 10_000): IdempotencyStore {
+  const claims = new Map<string, { owner: string; expiresAt: number }>();
+
+  return {
+    name: 'memory',
+    async claim(key, owner, ttlMs) {
+      const now = Date.now();
+      const existing = claims.get(key);
+      if (existing && existing.expiresAt > now) {
+        return existing.owner === owner;
+      }
+
+      // Map keeps insertion order: drop expired and then oldest entries when full
+      if (claims.size >= maxEntries) {
+        for (const [k, v] of claims) {
+          if (v.expiresAt <= now || claims.size >= maxEntries) claims.delete(k);
+          else break;
+        }
+      }
+
+      claims.set(key, { owner, expiresAt: now + ttlMs });
+      return true;
+    },
+    async release(key, owner) {
+      if (claims.get(key)?.owner === owner) claims.delete(key);
+    }
+  };
+}
+
+/**
+ * Shared store in public.processed_messages (supabase_processed_messages.sql)
+ */
+export function createSupabaseIdempotencyStore(): IdempotencyStore {
+  return {
+    name: 'supabase',
+    async claim(key, owner, ttlMs) {
+      const { data, error } = await supabase.rpc('claim_message_id', {
+        p_mid: key,
+        p_owner: owner,
+        p_ttl_seconds: Math.ceil(ttlMs / 1000)
+      });
+
+      if (error) {
+        logger.error({ error, mid: key }, '❌ Dedup: Failed to claim message ID');
+        throw new Error('Failed to claim message ID');
+      }
+      return data === true;
+    },
+    async release(key, owner) {
+      const { error } = await supabase
+        .from('processed_messages')
+        .delete()
+        .eq('mid', key)
+        .eq('owner', owner);
+
+      if (error) {
+        logger.error({ error, mid: key }, '❌ Dedup: Failed to release message ID');
+        throw new Error('Failed to release message ID');
+      }
+    }
+  };
+}
+
+/**
+ * Supabase store, falling back to the in-memory store when the database call fails
+ * (dedup then only covers this instance, but messages keep flowing)
+ */
+export function createIdempotencyStore(
+  primary: IdempotencyStore = createSupabaseIdempotencyStore(),
+  fallback: IdempotencyStore = createMemoryIdempotencyStore()
+): IdempotencyStore {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async claim(key, owner, ttlMs) {
+      try {
+        const claimed = await primary.claim(key, owner, ttlMs);
+        // Keep the fallback warm so a later outage still knows about this message
+        if (claimed) await fallback.claim(key, owner, ttlMs);
+        return claimed;
+      } catch (err: any) {
+        logger.warn({ mid: key, error: err.message, fallback: fallback.name }, '⚠️ Dedup: Using fallback store');
+        return fallback.claim(key, owner, ttlMs);
+      }
+    },
+    async release(key, owner) {
+      await fallback.release(key, owner);
+      await primary.release(key, owner).catch((err: any) => {
+        logger.warn({ mid: key, error: err.message }, '⚠️ Dedup: Failed to release claim in primary store');
+      });
+    }
+  };
+}
+
+let store: IdempotencyStore | null = null;
+
+/**
+ * Claim a message for a job; false means another job already handled (or is handling) it
+ */
+export async function claimMessage(mid: string, owner: string): Promise<boolean> {
+  if (!store) store = createIdempotencyStore();
+  return store.claim(mid, owner, env.MESSAGE_DEDUP_TTL_S * 1000);
+}
+
+/**
+ * Keep only the events whose message this webhook delivery is the first to receive
+ * Meta redelivers a webhook when the 200 is slow; dropping the repeats before rate limiting
+ * keeps them from counting against the sender. Events without a message ID are kept.
+ * @param deliveryId Unique per webhook request
+ */
+export async function claimDeliveries(events: MessagingEvent[], deliveryId: string): Promise<MessagingEvent[]> {
+  if (!store) store = createIdempotencyStore();
+  const fresh: MessagingEvent[] = [];
+  for (const event of events) {
+    if (event.mid && !(await store.claim(`delivery:${event.mid}`, deliveryId, env.MESSAGE_DEDUP_TTL_S * 1000))) {
+      logger.info({ senderId: event.senderId, mid: event.mid }, '🔁 Dedup: Redelivered message, skipping');
+      continue;
+    }
+    fresh.push(event);
+  }
+  return fresh;
+}
+
+/**
+ * Give up a delivery's claims when its events couldn't be queued, so Meta's next
+ * redelivery goes through
+ */
+export async function releaseDeliveries(events: MessagingEvent[], deliveryId: string): Promise<void> {
+  if (!store) store = createIdempotencyStore();
+  for (const event of events) {
+    if (event.mid) await store.release(`delivery:${event.mid}`, deliveryId);
+  }
+}
@@ -0,0 +1,273 @@
+import { supabase } from '../supabase';
+import { env } from '../config';
+import { logger } from '../logger';
+import type { MessagingEvent } from '../utils/webhook';
+import type { ConversationResponse } from '../conversation';
+import type { OrderStatus } from './order-lifecycle';
+
+/**
+ * Durable queue for incoming webhook events (public.webhook_jobs)
+ *
+ * pending → processing → done
+ *              ↓ (error)
+ *           pending (run_at = now + backoff) … → dead after max_attempts
+ *
+ * Order status messages to customers go through the same queue (kind 'order_status'),
+ * so the admin request doesn't wait for Messenger and failed sends are retried and kept.
+ */
+
+export type WebhookJobStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+/**
+ * An order status change to tell the customer who placed the order about
+ */
+export type OrderStatusEvent = {
+  psid: string;
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+};
+
+export type WebhookJob = {
+  id: string;
+  senderId: string;  // Lane: jobs with the same sender run one at a time, in order
+  response: ConversationResponse | null;  // Set once the conversation has handled the event
+  status: WebhookJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+} & (
+  | { kind: 'message'; event: MessagingEvent }
+  | { kind: 'order_status'; event: OrderStatusEvent }
+);
+
+/**
+ * A failure that retrying won't fix: the job goes to dead letter straight away
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+function toJob(row: any): WebhookJob {
+  return {
+    id: row.id,
+    senderId: row.sender_id,
+    kind: row.kind ?? 'message',
+    event: row.event,
+    response: row.response ?? null,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lastError: row.last_error ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Delay before the next attempt: WEBHOOK_JOB_BACKOFF_MS doubled per failed attempt, capped
+ */
+export function retryDelayMs(attempts: number): number {
+  const delay = env.WEBHOOK_JOB_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, env.WEBHOOK_JOB_MAX_BACKOFF_MS);
+}
+
+/**
+ * Store incoming events before the webhook responds
+ * Throws so the webhook can answer with an error and let Meta redeliver
+ */
+export async function enqueueWebhookEvents(events: MessagingEvent[]): Promise<WebhookJob[]> {
+  if (events.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('webhook_jobs')
+    .insert(events.map(event => ({
+      sender_id: event.senderId,
+      event,
+      max_attempts: env.WEBHOOK_JOB_MAX_ATTEMPTS,
+      tenant_id: env.PRODUCT_TENANT_ID
+    })))
+    .select('*');
+
+  if (error) {
+    logger.error({ error, count: events.length }, '❌ Queue: Failed to enqueue webhook events');
+    throw new Error('Failed to enqueue webhook events');
+  }
+
+  const jobs = (data ?? []).map(toJob);
+  logger.info({ jobIds: jobs.map(j => j.id) }, '📥 Queue: Webhook events enqueued');
+  return jobs;
+}
+
+/**
+ * Queue a status message for the customer who placed an order
+ * Each order is its own lane, so its messages go out in order without holding up the chat
+ */
+export async function enqueueOrderNotification(event: OrderStatusEvent): Promise<WebhookJob> {
+  const { data, error } = await supabase
+    .from('webhook_jobs')
+    .insert({
+      sender_id: `order:${event.orderId}`,
+      kind: 'order_status',
+      event,
+      max_attempts: env.ORDER_NOTIFY_MAX_ATTEMPTS,
+      tenant_id: env.PRODUCT_TENANT_ID
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error({ error, orderId: event.orderId }, '❌ Queue: Failed to enqueue order notification');
+    throw new Error('Failed to enqueue order notification');
+  }
+
+  const job = toJob(data);
+  logger.info({ jobId: job.id, orderId: event.orderId, to: event.to }, '📥 Queue: Order notification enqueued');
+  return job;
+}
+
+/**
+ * Lock up to `limit` ready jobs for this worker
+ */
+export async function claimWebhookJobs(limit: number = 5): Promise<WebhookJob[]> {
+  const { data, error } = await supabase.rpc('claim_webhook_jobs', {
+    batch_size: limit,
+    lock_timeout_seconds: env.WEBHOOK_JOB_LOCK_TIMEOUT_S,
+    p_tenant_id: env.PRODUCT_TENANT_ID ?? null
+  });
+
+  if (error) {
+    logger.error({ error }, '❌ Queue: Failed to claim jobs');
+    throw new Error('Failed to claim webhook jobs');
+  }
+
+  return (data ?? []).map(toJob);
+}
+
+/**
+ * Keep the computed reply so a retry after a failed send doesn't run the conversation twice
+ */
+export async function saveWebhookJobResponse(jobId: string, response: ConversationResponse): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_jobs')
+    .update({ response })
+    .eq('id', jobId);
+
+  if (error) {
+    logger.error({ error, jobId }, '❌ Queue: Failed to store job response');
+    throw new Error('Failed to store webhook job response');
+  }
+}
+
+export async function completeWebhookJob(jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_jobs')
+    .update({ status: 'done', locked_at: null, last_error: null })
+    .eq('id', jobId);
+
+  if (error) {
+    logger.error({ error, jobId }, '❌ Queue: Failed to mark job done');
+    throw new Error('Failed to complete webhook job');
+  }
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter the job
+ */
+export async function failWebhookJob(job: WebhookJob, err: unknown): Promise<WebhookJobStatus> {
+  const message = err instanceof Error ? err.message : String(err);
+  const dead = job.attempts >= job.maxAttempts || err instanceof PermanentJobError;
+  const runAt = new Date(Date.now() + retryDelayMs(job.attempts)).toISOString();
+
+  const { error } = await supabase
+    .from('webhook_jobs')
+    .update({
+      status: dead ? 'dead' : 'pending',
+      locked_at: null,
+      last_error: message.slice(0, 2000),
+      ...(dead ? {} : { run_at: runAt })
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    logger.error({ error, jobId: job.id }, '❌ Queue: Failed to record job failure');
+    throw new Error('Failed to record webhook job failure');
+  }
+
+  if (dead) {
+    logger.error({ jobId: job.id, senderId: job.senderId, attempts: job.attempts, error: message }, '💀 Queue: Job moved to dead letter');
+  } else {
+    logger.warn({ jobId: job.id, attempts: job.attempts, runAt, error: message }, '🔁 Queue: Job scheduled for retry');
+  }
+  return dead ? 'dead' : 'pending';
+}
+
+/**
+ * List jobs for the admin API (newest first)
+ */
+export async function listWebhookJobs(
+  opts: { status?: WebhookJobStatus | undefined; senderId?: string | undefined; limit?: number | undefined } = {}
+): Promise<WebhookJob[]> {
+  let query = supabase
+    .from('webhook_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(opts.limit ?? 50, 200));
+
+  if (opts.status) query = query.eq('status', opts.status);
+  if (opts.senderId) query = query.eq('sender_id', opts.senderId);
+  if (env.PRODUCT_TENANT_ID) query = query.eq('tenant_id', env.PRODUCT_TENANT_ID);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error({ error }, '❌ Queue: Failed to list jobs');
+    throw new Error('Failed to list webhook jobs');
+  }
+
+  return (data ?? []).map(toJob);
+}
+
+export async function getWebhookJob(jobId: string): Promise<WebhookJob | null> {
+  const { data, error } = await supabase
+    .from('webhook_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, jobId }, '❌ Queue: Failed to fetch job');
+    throw new Error('Failed to fetch webhook job');
+  }
+
+  return data ? toJob(data) : null;
+}
+
+/**
+ * Put a dead (or stuck) job back in the queue with a fresh set of attempts
+ * Returns null when the job doesn't exist or is not replayable
+ */
+export async function replayWebhookJob(jobId: string): Promise<WebhookJob | null> {
+  const { data, error } = await supabase
+    .from('webhook_jobs')
+    .update({ status: 'pending', attempts: 0, run_at: new Date().toISOString(), locked_at: null })
+    .eq('id', jobId)
+    .in('status', ['dead', 'processing'])
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, jobId }, '❌ Queue: Failed to replay job');
+    throw new Error('Failed to replay webhook job');
+  }
+
+  if (data) logger.info({ jobId }, '🔁 Queue: Job replayed by admin');
+  return data ? toJob(data) : null;
+}
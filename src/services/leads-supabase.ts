@@ -1,22 +1,32 @@
 import { supabase } from '../supabase';
 import { env } from '../config';
 import { logger } from '../logger';
+import { LeadVersionConflictError } from '../repositories/errors';
+import type { HandoverReason } from '../notifiers/types';
+import type { AppliedPromo } from './pricing';
+import type { Language } from '../utils/language';
 
 export type ConversationStage = 
   | 'ask_item' 
+  | 'ask_size'
   | 'ask_name' 
   | 'ask_phone'
   | 'ask_email'
   | 'ask_address' 
   | 'completed'
   | 'confirm_order'
-  | 'processing_order';
+  | 'processing_order'
+  | 'human_handover';
 
 export type OrderItem = {
   productId: string;
   productName: string;
   quantity: number;
   price: number;
+  imageUrl?: string | null;
+  size?: string | null;          // Chosen variant
+  color?: string | null;
+  sizeOptions?: string[];        // Sizes the product comes in; a size must be chosen when non-empty
 };
 
 export type ProductInfo = {
@@ -24,6 +34,15 @@ export type ProductInfo = {
   name: string;
   price: number;
   similarity?: number;
+  imageUrl?: string | null;
+  size?: string | null;  // Raw size column, e.g. "38, 39, 40"
+};
+
+export type LeadHandover = {
+  reason: HandoverReason;
+  startedAt: string;               // ISO
+  expiresAt: string;               // Bot answers again after this
+  resumeStage: ConversationStage;  // Stage to go back to when the handover ends
 };
 
 export type LeadDoc = {
@@ -35,14 +54,39 @@ export type LeadDoc = {
   email?: string | null;
   address?: string | null;
   stage: ConversationStage;
-  pendingOrder?: {
+  pendingOrder?: {  // Doubles as the shopping cart until the order is placed
     items: OrderItem[];
     total: number;
+    promo?: AppliedPromo | null;
+    placementId?: string | null;  // Set while the order is written (processing_order), see placeOrder
+    language?: Language | null;   // Language the order summary was last shown in; the order is placed in its currency
   } | null;
   lastOrderId?: string | null;
+  customerId?: string | null;  // Customer this chat ordered as (set when an order is placed)
   lastShownProducts?: ProductInfo[] | null;  // NEW: Store products from last product query
+  version?: number;  // Bumped on every update (optimistic concurrency)
+  handover?: LeadHandover | null;  // Set while stage is human_handover
 };
 
+function toLeadDoc(row: any): LeadDoc {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    item: row.item,
+    name: row.name,
+    phone: row.phone,
+    email: row.email,
+    address: row.address,
+    stage: row.stage as ConversationStage,
+    pendingOrder: row.pending_order,
+    lastOrderId: row.last_order_id,
+    customerId: row.customer_id,
+    lastShownProducts: row.last_shown_products,
+    version: row.version,
+    handover: row.handover
+  };
+}
+
 /**
  * Get or create lead in Supabase
  */
@@ -58,19 +102,7 @@ export async function getOrCreateLead(userId: string): Promise<LeadDoc> {
     .single();
 
   if (existing && !findError) {
-    return {
-      id: existing.id,
-      userId: existing.user_id,
-      item: existing.item,
-      name: existing.name,
-      phone: existing.phone,
-      email: existing.email,
-      address: existing.address,
-      stage: existing.stage as ConversationStage,
-      pendingOrder: existing.pending_order,
-      lastOrderId: existing.last_order_id,
-      lastShownProducts: existing.last_shown_products
-    };
+    return toLeadDoc(existing);
   }
 
   // Create new lead
@@ -94,14 +126,21 @@ export async function getOrCreateLead(userId: string): Promise<LeadDoc> {
   return {
     id: newLead.id,
     userId: newLead.user_id,
-    stage: newLead.stage as ConversationStage
+    stage: newLead.stage as ConversationStage,
+    version: newLead.version
   };
 }
 
 /**
  * Update lead in Supabase
+ * With `expectedVersion`, the update only applies if the lead is still at that version
+ * (throws LeadVersionConflictError otherwise). Returns the lead's new version.
  */
-export async function updateLead(userId: string, updates: Partial<LeadDoc>): Promise<void> {
+export async function updateLead(
+  userId: string,
+  updates: Partial<LeadDoc>,
+  expectedVersion?: number
+): Promise<number | undefined> {
   const tenantId = env.PRODUCT_TENANT_ID;
 
   // Convert camelCase to snake_case for Supabase
@@ -115,19 +154,87 @@ export async function updateLead(userId: string, updates: Partial<LeadDoc>): Pro
   if (updates.stage !== undefined) dbUpdates.stage = updates.stage;
   if (updates.pendingOrder !== undefined) dbUpdates.pending_order = updates.pendingOrder;
   if (updates.lastOrderId !== undefined) dbUpdates.last_order_id = updates.lastOrderId;
+  if (updates.customerId !== undefined) dbUpdates.customer_id = updates.customerId;
   if (updates.lastShownProducts !== undefined) dbUpdates.last_shown_products = updates.lastShownProducts;
+  if (updates.handover !== undefined) dbUpdates.handover = updates.handover;
 
-  const { error } = await supabase
+  let query = supabase
     .from('leads')
     .update(dbUpdates)
     .eq('user_id', userId)
     .eq('tenant_id', tenantId);
 
+  // The version itself is bumped by the trg_leads_bump_version trigger
+  if (expectedVersion !== undefined) {
+    query = query.eq('version', expectedVersion);
+  }
+
+  const { data, error } = await query.select('version');
+
   if (error) {
     logger.error({ error, userId, updates }, '❌ Failed to update lead');
     throw new Error('Failed to update lead');
   }
 
+  if (expectedVersion !== undefined && (!data || data.length === 0)) {
+    logger.warn({ userId, expectedVersion, updates: Object.keys(updates) }, '⚠️ Lead version conflict');
+    throw new LeadVersionConflictError(userId, expectedVersion);
+  }
+
   logger.debug({ userId, updates: Object.keys(updates) }, '✅ Lead updated');
+  return data?.[0]?.version;
 }
 
+/**
+ * Get a lead without creating it
+ */
+export async function findLead(userId: string): Promise<LeadDoc | null> {
+  const { data, error } = await supabase
+    .from('leads')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('tenant_id', env.PRODUCT_TENANT_ID)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, userId }, '❌ Failed to fetch lead');
+    throw new Error('Failed to fetch lead');
+  }
+
+  return data ? toLeadDoc(data) : null;
+}
+
+export type LeadSearch = {
+  stage?: ConversationStage | undefined;
+  search?: string | undefined;  // Matches name, phone or PSID
+  limit?: number | undefined;
+};
+
+/**
+ * List leads, most recently active first
+ */
+export async function listLeads(opts: LeadSearch = {}): Promise<LeadDoc[]> {
+  let query = supabase
+    .from('leads')
+    .select('*')
+    .eq('tenant_id', env.PRODUCT_TENANT_ID)
+    .order('updated_at', { ascending: false })
+    .limit(Math.min(opts.limit ?? 50, 200));
+
+  if (opts.stage) query = query.eq('stage', opts.stage);
+
+  // Characters with a meaning in PostgREST filters are dropped from the search term
+  const search = opts.search?.replace(/[,()*%\\]/g, ' ').trim();
+  if (search) {
+    query = query.or(`name.ilike.*${search}*,phone.ilike.*${search}*,user_id.eq.${search}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error({ error, opts }, '❌ Failed to list leads');
+    throw new Error('Failed to list leads');
+  }
+
+  return (data ?? []).map(toLeadDoc);
+}
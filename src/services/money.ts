@@ -0,0 +1,67 @@
+import { env } from '../config';
+import type { Language } from '../utils/language';
+
+/**
+ * Money and currency formatting
+ *
+ * Catalog prices, fees and order amounts are stored in US dollars. Amounts are shown to
+ * customers in the currency of their conversation (CURRENCY_EN / CURRENCY_KM, riel for Khmer
+ * by default), converted at KHR_PER_USD. Riel amounts are rounded to 100៛, the smallest note
+ * in common use.
+ */
+
+export type Currency = 'USD' | 'KHR';
+
+export const CURRENCIES: readonly Currency[] = ['USD', 'KHR'];
+
+export type Money = {
+  amount: number;
+  currency: Currency;
+};
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Currency a conversation in this language is shown prices in
+ */
+export function currencyFor(language: Language): Currency {
+  return language === 'km' ? env.CURRENCY_KM : env.CURRENCY_EN;
+}
+
+/**
+ * Convert a dollar amount
+ * @param khrPerUsd Exchange rate (defaults to KHR_PER_USD; pass an order's own rate for past orders)
+ */
+export function toMoney(usd: number, currency: Currency, khrPerUsd: number = env.KHR_PER_USD): Money {
+  if (currency === 'KHR') {
+    return { amount: Math.round(usd * khrPerUsd / 100) * 100, currency };
+  }
+  return { amount: Math.round(usd * 100) / 100, currency };
+}
+
+function groupThousands(digits: string): string {
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/**
+ * "$12.50" or "51,300៛" (negative amounts keep their sign in front: "-$1.20")
+ */
+export function formatMoney(money: Money): string {
+  const sign = money.amount < 0 ? '-' : '';
+  const amount = Math.abs(money.amount);
+
+  if (money.currency === 'KHR') {
+    return `${sign}${groupThousands(Math.round(amount).toString())}៛`;
+  }
+  const [whole = '0', cents = '00'] = amount.toFixed(2).split('.');
+  return `${sign}$${groupThousands(whole)}.${cents}`;
+}
+
+/**
+ * Format a dollar amount in a currency
+ */
+export function formatPrice(usd: number, currency: Currency, khrPerUsd?: number): string {
+  return formatMoney(toMoney(usd, currency, khrPerUsd));
+}
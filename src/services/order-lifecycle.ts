@@ -0,0 +1,94 @@
+/**
+ * Order lifecycle
+ *
+ * pending ─▶ confirmed ─▶ paid ─▶ packed ─▶ shipped ─▶ delivered
+ *    │           │          │        │          │          │
+ *    └───────────┴──────────┴────────┴─▶ cancelled         │
+ *                           └────────┴──────────┴──────────┴─▶ refunded
+ *
+ * Moving to paid takes the items out of stock (accept_order); cancelling or refunding
+ * an order that took stock puts it back (restock_order). Every change is recorded in
+ * order_status_history with who made it.
+ */
+
+export type OrderStatus =
+  | 'pending'    // Placed in chat, waiting for staff
+  | 'confirmed'  // Staff confirmed with the customer, waiting for payment
+  | 'paid'       // Payment received, stock taken
+  | 'packed'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded';
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  'pending', 'confirmed', 'paid', 'packed', 'shipped', 'delivered', 'cancelled', 'refunded'
+];
+
+export type OrderActor = {
+  type: 'customer' | 'staff' | 'system';
+  id?: string;  // PSID for customers, staff name or email when known
+};
+
+export type OrderStatusChange = {
+  orderId: string;
+  from: OrderStatus | null;  // null when the order was created
+  to: OrderStatus;
+  actor: OrderActor;
+  at: string;
+};
+
+const TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['confirmed', 'paid', 'cancelled'],
+  confirmed: ['paid', 'cancelled'],
+  paid: ['packed', 'shipped', 'cancelled', 'refunded'],
+  packed: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: []
+};
+
+// Statuses whose items have been taken out of stock
+const STOCK_HELD: readonly OrderStatus[] = ['paid', 'packed', 'shipped', 'delivered'];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses an order can move to next
+ */
+export function nextOrderStatuses(from: OrderStatus): readonly OrderStatus[] {
+  return TRANSITIONS[from];
+}
+
+export function holdsStock(status: OrderStatus): boolean {
+  return STOCK_HELD.includes(status);
+}
+
+/**
+ * How a status change affects stock
+ * - take: the order is paid for the first time (accept_order)
+ * - restore: a paid order is cancelled or refunded (restock_order)
+ */
+export function stockEffect(from: OrderStatus, to: OrderStatus): 'take' | 'restore' | 'none' {
+  if (!holdsStock(from) && holdsStock(to)) return 'take';
+  if (holdsStock(from) && !holdsStock(to)) return 'restore';
+  return 'none';
+}
+
+/**
+ * The requested status change isn't allowed from the order's current status
+ */
+export class OrderTransitionError extends Error {
+  constructor(readonly orderId: string, readonly from: OrderStatus, readonly to: OrderStatus) {
+    super(`Order ${orderId} can't go from ${from} to ${to}` +
+      (TRANSITIONS[from].length > 0 ? ` (allowed: ${TRANSITIONS[from].join(', ')})` : ` (${from} is final)`));
+    this.name = 'OrderTransitionError';
+  }
+}
@@ -0,0 +1,103 @@
+import { env } from '../config';
+import { logger } from '../logger';
+import { orderStatusUpdatePrompt } from '../prompts';
+import { sendTextMessage, type MessageDelivery } from '../social/facebook';
+import { detectLanguage, type Language } from '../utils';
+import { getChatHistory, saveAssistantMessage, type ChatMessage } from './history-supabase';
+import { enqueueOrderNotification, PermanentJobError, type OrderStatusEvent } from './jobs';
+import { getOrder, type Order } from './orders';
+
+/**
+ * Order status messages to the customer
+ *
+ * When staff move an order on (pending → paid → refunded, or cancel it), the customer who
+ * placed it gets a message on Messenger in the language of their conversation. Outside the
+ * 24-hour window it is sent with the POST_PURCHASE_UPDATE tag, which Messenger allows for
+ * updates about a purchase. Messages are queued as webhook jobs and sent by the worker.
+ */
+
+export type OrderNotificationResult =
+  | { queued: true; jobId: string }
+  | { queued: false; reason: 'no_change' | 'not_notified' | 'no_psid' | 'enqueue_failed' };
+
+// Messenger's standard messaging window after the customer's last message
+const MESSAGING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Plain update while the customer wrote in the last 24 hours, tagged message otherwise
+ */
+export function deliveryFor(history: ChatMessage[], now: number = Date.now()): MessageDelivery {
+  const lastUserMessage = history.find(m => m.role === 'user' && m.createdAt);
+  const lastAt = lastUserMessage?.createdAt ? Date.parse(lastUserMessage.createdAt) : NaN;
+  return now - lastAt < MESSAGING_WINDOW_MS
+    ? { type: 'UPDATE' }
+    : { type: 'MESSAGE_TAG', tag: 'POST_PURCHASE_UPDATE' };
+}
+
+function conversationLanguage(history: ChatMessage[]): Language {
+  const lastAssistant = history.find(m => m.role === 'assistant');
+  return lastAssistant ? detectLanguage(lastAssistant.content) : 'en';
+}
+
+/**
+ * Queue a message telling the customer their order status changed
+ * Returns as soon as the message is queued; the worker sends it (sendOrderNotification) and
+ * retries failed sends, which end up in the dead letter queue.
+ * Never throws: the status change itself already happened and must not be reported as failed.
+ */
+export async function onOrderStatusChange(order: Order, previousStatus: Order['status']): Promise<OrderNotificationResult> {
+  if (order.status === previousStatus) {
+    return { queued: false, reason: 'no_change' };
+  }
+  if (!order.psid) {
+    // Orders placed before orders.psid existed, or entered by staff
+    logger.info({ orderId: order.id, status: order.status }, '📭 Order notification skipped: no customer PSID');
+    return { queued: false, reason: 'no_psid' };
+  }
+  if (!orderStatusUpdatePrompt(order)) {
+    return { queued: false, reason: 'not_notified' };
+  }
+
+  try {
+    const job = await enqueueOrderNotification({ psid: order.psid, orderId: order.id, from: previousStatus, to: order.status });
+    return { queued: true, jobId: job.id };
+  } catch {
+    // Logged by the queue; staff can still tell the customer through the admin API
+    return { queued: false, reason: 'enqueue_failed' };
+  }
+}
+
+/**
+ * Send a queued order status message (worker)
+ * Throws to have the job retried; PermanentJobError when Messenger refuses it for good.
+ */
+export async function sendOrderNotification(event: OrderStatusEvent): Promise<void> {
+  const order = await getOrder(event.orderId);
+  if (!order) {
+    logger.warn({ orderId: event.orderId }, '📭 Order notification skipped: order no longer exists');
+    return;
+  }
+
+  // The message is about this change, even if the order has moved on since
+  const history = await getChatHistory(event.psid, 10);
+  const text = orderStatusUpdatePrompt({ ...order, status: event.to }, conversationLanguage(history));
+  if (!text) return;
+  const delivery = deliveryFor(history);
+
+  try {
+    await sendTextMessage(env.PAGE_ACCESS_TOKEN, event.psid, text, undefined, delivery);
+  } catch (err: any) {
+    const detail = err.response?.data?.error?.message ?? err.message;
+    // 4xx from the Graph API (blocked page, deleted account, policy) won't succeed on retry
+    const status = err.response?.status;
+    const retryable = !status || status >= 500 || status === 429;
+    logger.warn({ orderId: order.id, userId: event.psid, retryable, error: detail }, '⚠️ Order status notification failed');
+    throw retryable ? err : new PermanentJobError(`Messenger refused the order notification: ${detail}`);
+  }
+
+  logger.info(
+    { orderId: order.id, userId: event.psid, from: event.from, to: event.to, delivery: delivery.type },
+    '📬 Order status notification sent'
+  );
+  await saveAssistantMessage(event.psid, text);
+}
@@ -1,6 +1,17 @@
 import { supabase } from '../supabase';
 import { env } from '../config';
 import { logger } from '../logger';
+import type { NewOrderItem, NewOrderOptions } from '../repositories/types';
+import type { DeliveryZone, PriceBreakdown } from './pricing';
+import type { Currency } from './money';
+import {
+  canTransitionOrder,
+  OrderTransitionError,
+  stockEffect,
+  type OrderActor,
+  type OrderStatus,
+  type OrderStatusChange
+} from './order-lifecycle';
 
 export type Customer = {
   id: string;
@@ -8,6 +19,7 @@ export type Customer = {
   phone: string;
   email?: string | null;
   address?: string | null;
+  psid?: string | null;  // Messenger user the customer was created from
 };
 
 export type OrderItem = {
@@ -15,21 +27,81 @@ export type OrderItem = {
   product_name: string;
   qty: number;
   price: number;
+  size?: string | null;
+  color?: string | null;
 };
 
 export type Order = {
   id: string;
   customer_id: string;
   date: string;
-  status: 'pending' | 'paid' | 'refunded';
-  total: number;
+  status: OrderStatus;
+  total: number;         // What the customer pays: subtotal − discount + delivery fee + tax
   items: OrderItem[];
+  psid?: string | null;  // Messenger user who placed the order (status notifications)
+  placement_id?: string | null;  // Checkout it was placed from; at most one order per placement
+  // Price breakdown (null on orders placed before the pricing engine)
+  subtotal?: number | null;
+  discount?: number | null;
+  promo_code?: string | null;
+  delivery_zone?: DeliveryZone | null;
+  delivery_fee?: number | null;
+  tax?: number | null;
+  // Amounts are in USD; the customer was shown them in this currency at this rate (KHR per USD)
+  currency?: Currency;
+  exchange_rate?: number | null;
 };
 
+function pricingColumns(pricing: PriceBreakdown) {
+  return {
+    subtotal: pricing.subtotal,
+    discount: pricing.discount,
+    promo_code: pricing.promoCode,
+    delivery_zone: pricing.deliveryZone,
+    delivery_fee: pricing.deliveryFee,
+    tax: pricing.tax
+  };
+}
+
+function toCustomer(row: any): Customer {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    email: row.email,
+    address: row.address,
+    psid: row.psid
+  };
+}
+
+/**
+ * Get a customer by ID
+ */
+export async function getCustomer(customerId: string): Promise<Customer | null> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', customerId)
+    .eq('tenant_id', env.PRODUCT_TENANT_ID)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, customerId }, '❌ Failed to fetch customer');
+    throw new Error('Failed to fetch customer');
+  }
+
+  return data ? toCustomer(data) : null;
+}
+
 /**
  * Find or create customer in Supabase
+ * Only customers created from this chat are reused (the newest, if several share the phone), and
+ * their name, email and address updated to the ones given for this order. A typed phone number
+ * isn't verified, so a customer from another chat with the same phone gets a new record instead
+ * of having their details overwritten.
  */
 export async function findOrCreateCustomer(
+  psid: string,
   name: string,
   phone: string,
   email?: string,
@@ -37,23 +109,41 @@ export async function findOrCreateCustomer(
 ): Promise<Customer> {
   const tenantId = env.PRODUCT_TENANT_ID;
 
-  // Try to find existing customer by phone
+  // Try to find this chat's customer by phone
   const { data: existing, error: findError } = await supabase
     .from('customers')
     .select('*')
     .eq('phone', phone)
+    .eq('psid', psid)
     .eq('tenant_id', tenantId)
-    .single();
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (findError) {
+    logger.error({ error: findError, phone }, '❌ Failed to look up customer by phone');
+    throw new Error('Failed to look up customer');
+  }
 
-  if (existing && !findError) {
+  if (existing) {
     logger.info({ customerId: existing.id, phone }, '✅ Customer found');
-    return {
-      id: existing.id,
-      name: existing.name,
-      phone: existing.phone,
-      email: existing.email,
-      address: existing.address
-    };
+    const details = { name, email: email || existing.email, address: address || existing.address };
+    if (details.name === existing.name && details.email === existing.email && details.address === existing.address) {
+      return toCustomer(existing);
+    }
+
+    const { error: updateError } = await supabase
+      .from('customers')
+      .update(details)
+      .eq('id', existing.id)
+      .eq('tenant_id', tenantId);
+
+    if (updateError) {
+      // The order can still be placed with the customer as they were
+      logger.warn({ error: updateError, customerId: existing.id }, '⚠️ Failed to update customer details');
+      return toCustomer(existing);
+    }
+    return toCustomer({ ...existing, ...details });
   }
 
   // Create new customer
@@ -64,6 +154,7 @@ export async function findOrCreateCustomer(
       phone,
       email: email || null,
       address: address || null,
+      psid,
       tenant_id: tenantId
     })
     .select()
@@ -75,13 +166,7 @@ export async function findOrCreateCustomer(
   }
 
   logger.info({ customerId: newCustomer.id, phone }, '✅ Customer created');
-  return {
-    id: newCustomer.id,
-    name: newCustomer.name,
-    phone: newCustomer.phone,
-    email: newCustomer.email,
-    address: newCustomer.address
-  };
+  return toCustomer(newCustomer);
 }
 
 /**
@@ -89,9 +174,10 @@ export async function findOrCreateCustomer(
  */
 export async function createOrder(
   customerId: string,
-  items: Array<{ productId: string; quantity: number; price: number }>,
-  status: 'pending' | 'paid' = 'pending'
+  items: NewOrderItem[],
+  opts: NewOrderOptions = {}
 ): Promise<Order> {
+  const { status = 'pending', psid, pricing, currency = 'USD', placementId } = opts;
   const tenantId = env.PRODUCT_TENANT_ID;
 
   if (!tenantId) {
@@ -104,8 +190,8 @@ export async function createOrder(
     throw new Error('Cannot create order without items');
   }
 
-  // Calculate total
-  const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  // Priced orders carry delivery, discount and tax; otherwise the total is the plain sum of the lines
+  const total = pricing?.total ?? items.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
   logger.info(
     { customerId, itemCount: items.length, total, tenantId },
@@ -120,11 +206,25 @@ export async function createOrder(
       date: new Date().toISOString().split('T')[0],
       status,
       total,
+      ...(pricing ? pricingColumns(pricing) : {}),
+      psid: psid ?? null,
+      placement_id: placementId ?? null,
+      currency,
+      exchange_rate: env.KHR_PER_USD,
       tenant_id: tenantId
     })
     .select()
     .single();
 
+  // Unique violation on placement_id: this checkout's order was already written
+  if (orderError?.code === '23505' && placementId) {
+    const existing = await findOrderByPlacement(placementId);
+    if (existing) {
+      logger.warn({ orderId: existing.id, placementId }, '🔁 Order already placed for this checkout');
+      return existing;
+    }
+  }
+
   if (orderError || !order) {
     logger.error({ 
       error: orderError, 
@@ -143,6 +243,8 @@ export async function createOrder(
     product_id: item.productId,
     qty: item.quantity,
     price: item.price,
+    size: item.size ?? null,
+    color: item.color ?? null,
     tenant_id: tenantId
   }));
 
@@ -180,21 +282,49 @@ export async function createOrder(
     '✅ ORDER SAVED SUCCESSFULLY'
   );
 
+  await recordStatusChange(order.id, null, order.status, psid ? { type: 'customer', id: psid } : { type: 'system' });
+
   return {
     id: order.id,
     customer_id: customerId,
     date: order.date,
     status: order.status,
     total: order.total,
+    psid: order.psid ?? null,
+    placement_id: order.placement_id ?? null,
+    ...(pricing ? pricingColumns(pricing) : {}),
+    currency,
+    exchange_rate: env.KHR_PER_USD,
     items: items.map((item) => ({
       product_id: item.productId,
       product_name: '', // Will be populated later if needed
       qty: item.quantity,
-      price: item.price
+      price: item.price,
+      size: item.size ?? null,
+      color: item.color ?? null
     }))
   };
 }
 
+/**
+ * Get the order written for a checkout placement, if any
+ */
+export async function findOrderByPlacement(placementId: string): Promise<Order | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('placement_id', placementId)
+    .eq('tenant_id', env.PRODUCT_TENANT_ID)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, placementId }, '❌ Failed to look up order by placement');
+    throw new Error('Failed to look up order');
+  }
+
+  return data ? getOrder(data.id) : null;
+}
+
 /**
  * Get order by ID
  */
@@ -217,6 +347,8 @@ export async function getOrder(orderId: string): Promise<Order | null> {
       product_id,
       qty,
       price,
+      size,
+      color,
       products(name)
     `)
     .eq('order_id', orderId);
@@ -226,52 +358,214 @@ export async function getOrder(orderId: string): Promise<Order | null> {
     return null;
   }
 
+  return toOrder(order, items || []);
+}
+
+function toOrder(order: any, items: any[]): Order {
   return {
     id: order.id,
     customer_id: order.customer_id,
     date: order.date,
     status: order.status,
     total: order.total,
-    items: (items || []).map((item: any) => ({
+    psid: order.psid ?? null,
+    placement_id: order.placement_id ?? null,
+    subtotal: order.subtotal ?? null,
+    discount: order.discount ?? null,
+    promo_code: order.promo_code ?? null,
+    delivery_zone: order.delivery_zone ?? null,
+    delivery_fee: order.delivery_fee ?? null,
+    tax: order.tax ?? null,
+    currency: order.currency ?? 'USD',
+    exchange_rate: order.exchange_rate ?? null,
+    items: items.map((item: any) => ({
       product_id: item.product_id,
       product_name: item.products?.name || 'Unknown Product',
       qty: item.qty,
-      price: item.price
+      price: item.price,
+      size: item.size ?? null,
+      color: item.color ?? null
     }))
   };
 }
 
 /**
- * Update order status
+ * Orders placed from a Messenger chat, newest first
+ */
+export async function listOrdersByPsid(psid: string, limit: number = 5): Promise<Order[]> {
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      order_items (
+        product_id,
+        qty,
+        price,
+        size,
+        color,
+        products(name)
+      )
+    `)
+    .eq('psid', psid)
+    .eq('tenant_id', env.PRODUCT_TENANT_ID)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error({ error, psid }, '❌ Failed to list customer orders');
+    throw new Error('Failed to list orders');
+  }
+
+  return (orders || []).map((order: any) => toOrder(order, order.order_items || []));
+}
+
+/**
+ * Cancel an order that is still pending (customer, from the chat)
+ * @returns false when the order doesn't exist or is no longer pending
+ */
+export async function cancelPendingOrder(orderId: string): Promise<boolean> {
+  // The status condition makes this safe against staff accepting the order at the same moment
+  const { data, error } = await supabase
+    .from('orders')
+    .update({ status: 'cancelled' })
+    .eq('id', orderId)
+    .eq('status', 'pending')
+    .select('id, psid');
+
+  if (error) {
+    logger.error({ error, orderId }, '❌ Failed to cancel order');
+    throw new Error('Failed to cancel order');
+  }
+
+  const cancelled = data?.[0];
+  logger.info({ orderId, cancelled: !!cancelled }, cancelled ? '✅ Order cancelled by customer' : '⚠️ Order not cancellable (not pending)');
+  if (!cancelled) return false;
+
+  await recordStatusChange(orderId, 'pending', 'cancelled', { type: 'customer', ...(cancelled.psid ? { id: cancelled.psid } : {}) });
+  return true;
+}
+
+/**
+ * Move an order to another status, enforcing the lifecycle (src/services/order-lifecycle.ts)
+ * Paying takes stock (accept_order); cancelling or refunding a paid order restocks (restock_order).
+ * Setting the status the order already has is a no-op.
+ * @throws OrderTransitionError when the change isn't allowed from the current status
  */
 export async function updateOrderStatus(
   orderId: string,
-  status: 'pending' | 'paid' | 'refunded'
+  status: OrderStatus,
+  actor: OrderActor = { type: 'staff' }
 ): Promise<void> {
-  const { error } = await supabase
+  const { data: current, error: readError } = await supabase
     .from('orders')
-    .update({ status })
-    .eq('id', orderId);
+    .select('status')
+    .eq('id', orderId)
+    .maybeSingle();
 
-  if (error) {
-    logger.error({ error, orderId, status }, '❌ Failed to update order status');
+  if (readError) {
+    logger.error({ error: readError, orderId }, '❌ Failed to read order status');
     throw new Error('Failed to update order status');
   }
+  if (!current) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  const from = current.status as OrderStatus;
+  if (from === status) return;
+  if (!canTransitionOrder(from, status)) {
+    throw new OrderTransitionError(orderId, from, status);
+  }
 
-  logger.info({ orderId, status }, '✅ Order status updated');
+  const effect = stockEffect(from, status);
+  if (effect === 'take') {
+    // accept_order re-checks the status under a row lock and refuses orders short on stock
+    const { error } = await supabase.rpc('accept_order', { p_order_id: orderId });
+    if (error) {
+      logger.error({ error, orderId }, '❌ Failed to accept order');
+      throw new Error(error.message || 'Failed to accept order');
+    }
+  } else if (effect === 'restore') {
+    const { error } = await supabase.rpc('restock_order', { p_order_id: orderId, p_status: status });
+    if (error) {
+      logger.error({ error, orderId, status }, '❌ Failed to restock order');
+      throw new Error(error.message || 'Failed to restock order');
+    }
+  } else {
+    // Only from the status we checked: a concurrent change must not be overwritten
+    const { data, error } = await supabase
+      .from('orders')
+      .update({ status })
+      .eq('id', orderId)
+      .eq('status', from)
+      .select('id');
+
+    if (error) {
+      logger.error({ error, orderId, status }, '❌ Failed to update order status');
+      throw new Error('Failed to update order status');
+    }
+    if (!data || data.length === 0) {
+      throw new Error(`Order ${orderId} changed while updating, try again`);
+    }
+  }
+
+  await recordStatusChange(orderId, from, status, actor);
+  logger.info({ orderId, from, to: status, stock: effect, actor: actor.type }, '✅ Order status updated');
 }
 
 /**
  * Accept order (mark as paid and decrement stock)
+ * Already-paid orders are left as they are.
  */
-export async function acceptOrder(orderId: string): Promise<void> {
-  const { error } = await supabase.rpc('accept_order', { p_order_id: orderId });
+export async function acceptOrder(orderId: string, actor: OrderActor = { type: 'staff' }): Promise<void> {
+  await updateOrderStatus(orderId, 'paid', actor);
+}
+
+/**
+ * Append to order_status_history
+ * Failures are logged only: the status change itself already happened.
+ */
+async function recordStatusChange(
+  orderId: string,
+  from: OrderStatus | null,
+  to: OrderStatus,
+  actor: OrderActor
+): Promise<void> {
+  const { error } = await supabase
+    .from('order_status_history')
+    .insert({
+      order_id: orderId,
+      from_status: from,
+      to_status: to,
+      actor_type: actor.type,
+      actor_id: actor.id ?? null,
+      tenant_id: env.PRODUCT_TENANT_ID
+    });
 
   if (error) {
-    logger.error({ error, orderId }, '❌ Failed to accept order');
-    throw new Error(error.message || 'Failed to accept order');
+    logger.error({ error, orderId, from, to }, '❌ Failed to record order status change');
   }
-
-  logger.info({ orderId }, '✅ Order accepted and stock decremented');
 }
 
+/**
+ * Status changes of an order, oldest first
+ */
+export async function getOrderHistory(orderId: string): Promise<OrderStatusChange[]> {
+  const { data, error } = await supabase
+    .from('order_status_history')
+    .select('order_id, from_status, to_status, actor_type, actor_id, created_at')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error({ error, orderId }, '❌ Failed to fetch order history');
+    throw new Error('Failed to fetch order history');
+  }
+
+  return (data || []).map((row: any) => ({
+    orderId: row.order_id,
+    from: row.from_status,
+    to: row.to_status,
+    actor: { type: row.actor_type, ...(row.actor_id ? { id: row.actor_id } : {}) },
+    at: row.created_at
+  }));
+}
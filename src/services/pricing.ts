@@ -0,0 +1,126 @@
+import { env } from '../config';
+import type { OrderItem } from './leads-supabase';
+import { cartTotal } from './cart';
+
+/**
+ * Pricing engine
+ *
+ *   subtotal  = Σ price × quantity
+ *   discount  = promo code (percentage or fixed), never more than the subtotal
+ *   delivery  = fee of the zone the address is in (DELIVERY_FEE_PHNOM_PENH / DELIVERY_FEE_PROVINCE)
+ *   tax       = TAX_RATE × (subtotal − discount)
+ *   total     = subtotal − discount + delivery + tax
+ *
+ * Every function here is pure; promo codes are looked up and redeemed through the repositories.
+ */
+
+export type DeliveryZone = 'phnom_penh' | 'province';
+
+export type PromoCode = {
+  code: string;                  // Stored and matched upper-case
+  type: 'percent' | 'fixed';
+  value: number;                 // 10 = 10% off, or $10 off
+  active: boolean;
+  expiresAt?: string | null;     // ISO
+  maxUses?: number | null;       // null = unlimited
+  usedCount: number;
+  minSubtotal?: number | null;
+};
+
+// What the cart keeps of a code once it was accepted
+export type AppliedPromo = Pick<PromoCode, 'code' | 'type' | 'value'> & { minSubtotal?: number | null };
+
+export type PromoRejection = 'not_found' | 'inactive' | 'expired' | 'used_up' | 'min_subtotal';
+
+export type PriceBreakdown = {
+  subtotal: number;
+  discount: number;
+  promoCode: string | null;
+  deliveryZone: DeliveryZone | null;  // null until there is an address
+  deliveryFee: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+};
+
+// Phnom Penh itself, its khans (districts) and common abbreviations
+const PHNOM_PENH_PATTERN = new RegExp([
+  'phnom\\s*penh', '\\bpp\\b', 'ភ្នំពេញ', '\\bkhan\\b', 'ខណ្ឌ',
+  'daun\\s*penh', 'chamkar\\s*mon', 'tuol\\s*kork', 'toul\\s*kork', 'boeung\\s*keng\\s*kang', '\\bbkk\\b',
+  'sen\\s*sok', 'russey\\s*keo', 'mean\\s*chey', 'chbar\\s*ampov', 'por\\s*senchey', 'prampir\\s*makara',
+  'chroy\\s*changvar', 'dangkao', 'prek\\s*pnov', '7\\s*makara'
+].join('|'), 'i');
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Delivery zone of an address (anything not recognisably in Phnom Penh is a province)
+ */
+export function deliveryZoneFor(address: string | null | undefined): DeliveryZone | null {
+  if (!address?.trim()) return null;
+  return PHNOM_PENH_PATTERN.test(address) ? 'phnom_penh' : 'province';
+}
+
+export function deliveryFeeFor(zone: DeliveryZone | null): number {
+  if (zone === 'phnom_penh') return env.DELIVERY_FEE_PHNOM_PENH;
+  if (zone === 'province') return env.DELIVERY_FEE_PROVINCE;
+  return 0;
+}
+
+/**
+ * Why a promo code can't be used on this subtotal
+ * @returns null when it can
+ */
+export function checkPromoCode(promo: PromoCode | null, subtotal: number, now: Date = new Date()): PromoRejection | null {
+  if (!promo) return 'not_found';
+  if (!promo.active) return 'inactive';
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= now.getTime()) return 'expired';
+  if (promo.maxUses != null && promo.usedCount >= promo.maxUses) return 'used_up';
+  if (promo.minSubtotal != null && subtotal < promo.minSubtotal) return 'min_subtotal';
+  return null;
+}
+
+export function toAppliedPromo(promo: PromoCode): AppliedPromo {
+  return { code: promo.code, type: promo.type, value: promo.value, minSubtotal: promo.minSubtotal ?? null };
+}
+
+/**
+ * Discount of an applied code on a subtotal (0 once the cart drops below the code's minimum)
+ */
+export function promoDiscount(promo: AppliedPromo | null | undefined, subtotal: number): number {
+  if (!promo || (promo.minSubtotal != null && subtotal < promo.minSubtotal)) return 0;
+  const discount = promo.type === 'percent' ? subtotal * promo.value / 100 : promo.value;
+  return roundCents(Math.min(Math.max(0, discount), subtotal));
+}
+
+/**
+ * Full price of a cart for delivery to an address
+ */
+export function priceOrder(
+  items: OrderItem[],
+  opts: { address?: string | null | undefined; promo?: AppliedPromo | null | undefined } = {}
+): PriceBreakdown {
+  const subtotal = cartTotal(items);
+  const discount = promoDiscount(opts.promo, subtotal);
+  const deliveryZone = deliveryZoneFor(opts.address);
+  const deliveryFee = deliveryFeeFor(deliveryZone);
+  const taxRate = env.TAX_RATE;
+  const tax = roundCents((subtotal - discount) * taxRate);
+
+  return {
+    subtotal,
+    discount,
+    promoCode: discount > 0 && opts.promo ? opts.promo.code : null,
+    deliveryZone,
+    deliveryFee,
+    taxRate,
+    tax,
+    total: roundCents(subtotal - discount + deliveryFee + tax)
+  };
+}
@@ -0,0 +1,68 @@
+import { supabase } from '../supabase';
+import { env } from '../config';
+import { logger } from '../logger';
+import type { RetrievedProduct } from './rag';
+
+const PRODUCT_COLUMNS = 'id, name, description, category, size, price, image_url, stock';
+
+/**
+ * Get a single product by ID (e.g. from a carousel postback)
+ * Returned with similarity 1 so it can be used anywhere a RAG result is expected
+ */
+export async function getProductById(productId: string): Promise<RetrievedProduct | null> {
+  let query = supabase
+    .from('products')
+    .select(PRODUCT_COLUMNS)
+    .eq('id', productId);
+
+  if (env.PRODUCT_TENANT_ID) {
+    query = query.eq('tenant_id', env.PRODUCT_TENANT_ID);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error || !data) {
+    logger.warn({ error, productId }, '⚠️ Product not found');
+    return null;
+  }
+
+  const row: any = data;
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    description: row.description ?? null,
+    price: row.price == null ? null : Number(row.price),
+    image_url: row.image_url ?? null,
+    category: row.category ?? null,
+    size: row.size ?? null,
+    stock: row.stock == null ? null : Number(row.stock),
+    similarity: 1
+  };
+}
+
+/**
+ * Get current stock for a set of products
+ * @returns productId → units in stock (products that weren't found are missing from the map)
+ */
+export async function getStockLevels(productIds: string[]): Promise<Map<string, number>> {
+  const ids = Array.from(new Set(productIds));
+  if (ids.length === 0) return new Map();
+
+  let query = supabase
+    .from('products')
+    .select('id, stock')
+    .in('id', ids);
+
+  if (env.PRODUCT_TENANT_ID) {
+    query = query.eq('tenant_id', env.PRODUCT_TENANT_ID);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error({ error, productIds: ids }, '❌ Failed to fetch stock levels');
+    throw new Error('Failed to fetch stock levels');
+  }
+
+  return new Map((data ?? []).map((row: any) => [String(row.id), Number(row.stock ?? 0)]));
+}
@@ -0,0 +1,82 @@
+import { supabase } from '../supabase';
+import { env } from '../config';
+import { logger } from '../logger';
+import { normalizePromoCode, type PromoCode } from './pricing';
+
+/**
+ * Promo codes in public.promo_codes (supabase_pricing.sql)
+ */
+
+/**
+ * Look up a promo code (case-insensitive)
+ * @returns null when there is no such code for this tenant
+ */
+export async function findPromoCode(code: string): Promise<PromoCode | null> {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('code, discount_type, discount_value, active, expires_at, max_uses, used_count, min_subtotal')
+    .eq('code', normalizePromoCode(code))
+    .eq('tenant_id', env.PRODUCT_TENANT_ID)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, code }, '❌ Failed to look up promo code');
+    throw new Error('Failed to look up promo code');
+  }
+  if (!data) return null;
+
+  return {
+    code: data.code,
+    type: data.discount_type,
+    value: Number(data.discount_value),
+    active: data.active,
+    expiresAt: data.expires_at,
+    maxUses: data.max_uses,
+    usedCount: data.used_count,
+    minSubtotal: data.min_subtotal == null ? null : Number(data.min_subtotal)
+  };
+}
+
+/**
+ * Count one use of a promo code for a placement, if it is still valid for this subtotal
+ * The check and the increment are one statement (redeem_promo_code), so a code with one use left
+ * can't be used by two orders at once. Redeeming again for the same placement doesn't count twice.
+ * @returns false when the code is unknown, inactive, expired, used up or above the subtotal's reach
+ */
+export async function redeemPromoCode(code: string, subtotal: number, placementId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('redeem_promo_code', {
+    p_code: normalizePromoCode(code),
+    p_tenant_id: env.PRODUCT_TENANT_ID ?? null,
+    p_subtotal: subtotal,
+    p_placement_id: placementId
+  });
+
+  if (error) {
+    logger.error({ error, code, placementId }, '❌ Failed to redeem promo code');
+    throw new Error('Failed to redeem promo code');
+  }
+
+  const redeemed = data === true;
+  logger.info({ code, placementId, redeemed }, redeemed ? '🏷️ Promo code redeemed' : '⚠️ Promo code no longer valid');
+  return redeemed;
+}
+
+/**
+ * Give back the use redeemed for a placement whose order wasn't written (release_promo_redemption)
+ * @returns false when nothing was redeemed for it, or its order exists
+ */
+export async function releasePromoRedemption(placementId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('release_promo_redemption', {
+    p_placement_id: placementId,
+    p_tenant_id: env.PRODUCT_TENANT_ID ?? null
+  });
+
+  if (error) {
+    logger.error({ error, placementId }, '❌ Failed to release promo code redemption');
+    throw new Error('Failed to release promo code redemption');
+  }
+
+  const released = data === true;
+  if (released) logger.info({ placementId }, '🏷️ Promo code redemption released');
+  return released;
+}
@@ -1,7 +1,8 @@
 import { supabase } from '../supabase';
 import { env } from '../config';
-import { GoogleAuth } from 'google-auth-library';
 import { logger } from '../logger';
+import { getEmbeddingProvider } from '../embeddings';
+import { formatPrice, type Currency } from './money';
 
 export type RetrievedProduct = {
   id: string;
@@ -11,115 +12,28 @@ export type RetrievedProduct = {
   size: string | null;
   price: number | null;
   image_url: string | null;
+  stock: number | null;  // null when the search function predates the stock column (treated as available)
   similarity: number;
 };
 
-// Cache token to avoid 2s overhead on every request
-let cachedToken: { token: string; expiresAt: number } | null = null;
-
-async function getAccessToken(): Promise<string> {
-  const now = Date.now();
-  // Return cached token if still valid (with 1min buffer)
-  if (cachedToken && cachedToken.expiresAt > now + 60000) {
-    logger.debug('Using cached access token');
-    return cachedToken.token;
-  }
-  
-  logger.info('Fetching new access token');
-  const privateKey = env.GOOGLE_CLOUD_PRIVATE_KEY.replace(/\\n/g, '\n').replace(/\n/g, '\n');
-  const auth = new GoogleAuth({
-    credentials: { client_email: env.GOOGLE_CLOUD_CLIENT_EMAIL, private_key: privateKey },
-    scopes: ['https://www.googleapis.com/auth/cloud-platform']
-  });
-  const client = await auth.getClient();
-  const tokenResponse = await client.getAccessToken();
-  if (!tokenResponse || !tokenResponse.token) throw new Error('Failed to obtain Google access token');
-  
-  // Cache for 55 minutes (tokens expire in 1 hour)
-  cachedToken = {
-    token: tokenResponse.token,
-    expiresAt: now + 3300000
-  };
-  
-  return tokenResponse.token;
-}
-
-export async function embedTextWithVertex(text: string): Promise<number[]> {
-  logger.info({ text: text.slice(0, 100) }, '🧠 Vertex AI: Generating text embedding');
-  const token = await getAccessToken();
-  // Using multimodalembedding@001 to match existing 1408-dim embeddings in Supabase
-  const url = `https://${env.GOOGLE_CLOUD_LOCATION}-aiplatform.googleapis.com/v1/projects/${env.GOOGLE_CLOUD_PROJECT_ID}/locations/${env.GOOGLE_CLOUD_LOCATION}/publishers/google/models/multimodalembedding@001:predict`;
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      instances: [
-        {
-          text: text
-        }
-      ]
-    })
-  });
-  if (!res.ok) {
-    const errText = await res.text().catch(() => '');
-    logger.error({ status: res.status, error: errText, url }, '❌ Vertex AI: Text embedding failed');
-    throw new Error(`Vertex embed error ${res.status}: ${errText}`);
-  }
-  const data = await res.json();
-  const values: number[] | undefined = data?.predictions?.[0]?.textEmbedding;
-  if (!values || !Array.isArray(values)) {
-    logger.error({ response: JSON.stringify(data).slice(0, 500) }, '❌ Vertex AI: Invalid embedding response');
-    throw new Error('Invalid embedding response');
-  }
-  logger.info({ dimension: values.length }, '✅ Vertex AI: Text embedding generated');
-  return values.map((v: any) => Number(v));
+/**
+ * Embed text with the configured provider (Vertex by default)
+ */
+export async function embedText(text: string): Promise<number[]> {
+  return getEmbeddingProvider().embedText(text);
 }
 
 /**
- * Generate embeddings from image using Vertex AI multimodal model
+ * Embed an image with the configured provider
  * @param imageBase64 Base64 encoded image data
- * @returns 1408-dimensional embedding vector
+ * @returns vector with the provider's dimension (1408 for Vertex multimodal)
  */
-export async function embedImageWithVertex(imageBase64: string): Promise<number[]> {
-  logger.info({ imageSize: Math.round(imageBase64.length / 1024) + 'KB' }, '🖼️ Vertex AI: Generating image embedding');
-  const token = await getAccessToken();
-  
-  const url = `https://${env.GOOGLE_CLOUD_LOCATION}-aiplatform.googleapis.com/v1/projects/${env.GOOGLE_CLOUD_PROJECT_ID}/locations/${env.GOOGLE_CLOUD_LOCATION}/publishers/google/models/multimodalembedding@001:predict`;
-  
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      instances: [
-        {
-          image: {
-            bytesBase64Encoded: imageBase64
-          }
-        }
-      ]
-    })
-  });
-
-  if (!res.ok) {
-    const errText = await res.text().catch(() => '');
-    logger.error({ status: res.status, error: errText }, '❌ Vertex AI: Image embedding failed');
-    throw new Error(`Vertex image embed error ${res.status}: ${errText}`);
-  }
-
-  const data = await res.json();
-  const values: number[] | undefined = data?.predictions?.[0]?.imageEmbedding;
-  
-  if (!values || !Array.isArray(values)) {
-    logger.error({ response: JSON.stringify(data).slice(0, 500) }, '❌ Vertex AI: Invalid image embedding response');
-    throw new Error('Invalid image embedding response');
-  }
-
-  logger.info({ dimension: values.length }, '✅ Vertex AI: Image embedding generated');
-  return values.map((v: any) => Number(v));
+export async function embedImage(imageBase64: string): Promise<number[]> {
+  return getEmbeddingProvider().embedImage(imageBase64);
 }
 
 export async function retrieveSimilarContext(queryText: string, opts?: { matchCount?: number; minSimilarity?: number }): Promise<RetrievedProduct[]> {
-  const queryEmbedding = await embedTextWithVertex(queryText);
+  const queryEmbedding = await embedText(queryText);
   // For recommendation queries, fetch more products (up to 10)
   const defaultCount = queryText.toLowerCase().includes('recommend') || 
                        queryText.toLowerCase().includes('show') ||
@@ -211,6 +125,7 @@ export async function retrieveSimilarContext(queryText: string, opts?: { matchCo
     image_url: r.image_url ?? null,
     category: r.category ?? null,
     size: r.size ?? null,
+    stock: r.stock == null ? null : Number(r.stock),
     similarity: Number(r.similarity ?? 0)
   }));
 
@@ -250,7 +165,7 @@ export async function retrieveSimilarContextByImage(
   imageBase64: string,
   opts?: { matchCount?: number; minSimilarity?: number }
 ): Promise<RetrievedProduct[]> {
-  const queryEmbedding = await embedImageWithVertex(imageBase64);
+  const queryEmbedding = await embedImage(imageBase64);
   const matchCount = Math.max(1, opts?.matchCount ?? env.RAG_MATCH_COUNT);
   const matchThreshold = Math.max(0, Math.min(1, opts?.minSimilarity ?? env.RAG_MIN_SIMILARITY));
 
@@ -309,6 +224,7 @@ export async function retrieveSimilarContextByImage(
     image_url: r.image_url ?? null,
     category: r.category ?? null,
     size: r.size ?? null,
+    stock: r.stock == null ? null : Number(r.stock),
     similarity: Number(r.similarity ?? 0)
   }));
 
@@ -336,19 +252,23 @@ export async function retrieveSimilarContextByImage(
   return products;
 }
 
-export function buildRagContext(products: RetrievedProduct[], maxChars = 2000): string {
+/**
+ * Product block for the LLM prompt, prices in the conversation's currency
+ */
+export function buildRagContext(products: RetrievedProduct[], currency: Currency = 'USD', maxChars = 2000): string {
   if (!products.length) return '';
   const header = 'Retrieved products (semantic + keyword matches):\n';
   const body = products
     .sort((a, b) => b.similarity - a.similarity)
     .map((p, idx) => {
-      const price = p.price == null ? '' : `\nPrice: $${p.price}`;
+      const price = p.price == null ? '' : `\nPrice: ${formatPrice(p.price, currency)}`;
       const category = p.category ? `\nCategory: ${p.category}` : '';
       const size = p.size ? `\nSize: ${p.size}` : '';
+      const stock = p.stock == null ? '' : p.stock > 0 ? `\nStock: ${p.stock} available` : '\nStock: OUT OF STOCK (do not offer; suggest an in-stock alternative)';
       const img = p.image_url ? `\nImage: ${p.image_url}` : '';
       const desc = (p.description ?? '').toString().trim();
       const descSnippet = desc.length > 500 ? desc.slice(0, 500) + '…' : desc;
-      return `#${idx + 1} (sim=${p.similarity.toFixed(3)})\nName: ${p.name}${price}${category}${size}${img}\nDescription: ${descSnippet}`;
+      return `#${idx + 1} (sim=${p.similarity.toFixed(3)})\nName: ${p.name}${price}${category}${size}${stock}${img}\nDescription: ${descSnippet}`;
     })
     .join('\n\n');
   const text = (header + body).slice(0, maxChars);
@@ -3,7 +3,14 @@ import http from 'node:http';
 import https from 'node:https';
 import crypto from 'crypto';
 import type { RetrievedProduct } from '../services/rag';
+import type { OrderItem } from '../services/leads-supabase';
+import type { ConversationResponse } from '../conversation';
 import { logger } from '../logger';
+import { buildPostbackPayload, type QuickReply } from '../utils/postback';
+import { cartLineKey } from '../services/cart';
+import { orderItemLabel } from '../prompts';
+import { currencyFor, formatPrice, type Currency } from '../services/money';
+import { detectLanguage } from '../utils/language';
 
 const httpAgent = new http.Agent({ keepAlive: true, maxSockets: 50 });
 const httpsAgent = new https.Agent({ keepAlive: true, maxSockets: 50 });
@@ -27,15 +34,44 @@ export async function sendSenderAction(pageAccessToken: string, recipientPsid: s
   await graph.post('/me/messages', { recipient: { id: recipientPsid }, sender_action: action }, { params: buildParams(pageAccessToken) });
 }
 
-export async function sendTextMessage(pageAccessToken: string, recipientPsid: string, text: string): Promise<void> {
+/**
+ * How a message may be sent under the Messenger policy:
+ * RESPONSE answers the customer (and UPDATE is a message we start) within 24 hours of
+ * their last message; after that only tagged messages are allowed, e.g. POST_PURCHASE_UPDATE.
+ */
+export type MessageDelivery =
+  | { type: 'RESPONSE' }
+  | { type: 'UPDATE' }
+  | { type: 'MESSAGE_TAG'; tag: 'POST_PURCHASE_UPDATE' | 'ACCOUNT_UPDATE' | 'CONFIRMED_EVENT_UPDATE' };
+
+export async function sendTextMessage(
+  pageAccessToken: string,
+  recipientPsid: string,
+  text: string,
+  quickReplies?: QuickReply[],
+  delivery: MessageDelivery = { type: 'RESPONSE' }
+): Promise<void> {
+  // Messenger allows up to 13 quick replies; titles max 20 chars
+  const quick_replies = (quickReplies ?? []).slice(0, 13).map((q) => ({
+    content_type: 'text',
+    title: q.title.slice(0, 20),
+    payload: q.payload
+  }));
+
   await graph.post('/me/messages', {
     recipient: { id: recipientPsid },
-    messaging_type: 'RESPONSE',
-    message: { text }
+    messaging_type: delivery.type,
+    ...(delivery.type === 'MESSAGE_TAG' ? { tag: delivery.tag } : {}),
+    message: { text, ...(quick_replies.length > 0 ? { quick_replies } : {}) }
   }, { params: buildParams(pageAccessToken) });
 }
 
-export async function sendProductCarousel(pageAccessToken: string, recipientPsid: string, products: RetrievedProduct[]): Promise<void> {
+export async function sendProductCarousel(
+  pageAccessToken: string,
+  recipientPsid: string,
+  products: RetrievedProduct[],
+  currency: Currency = 'USD'
+): Promise<void> {
   if (!products || products.length === 0) return;
   
   logger.info(
@@ -48,18 +84,24 @@ export async function sendProductCarousel(pageAccessToken: string, recipientPsid
   );
 
   const elements = products.slice(0, 10).map((p) => {
+    // Messenger allows at most 3 buttons per card; button titles max 20 chars
     const element: any = {
       title: p.name?.slice(0, 80) || 'Product',
-      buttons: (
-        p.price == null
-          ? []
-          : [{ type: 'postback', title: `$${p.price}`, payload: `PRICE_${p.id}` }]
-      )
+      buttons: [
+        {
+          type: 'postback',
+          title: (p.price == null ? 'Buy this' : `Buy this (${formatPrice(p.price, currency)})`).slice(0, 20),
+          payload: buildPostbackPayload({ type: 'buy', productId: p.id })
+        },
+        { type: 'postback', title: 'More like this', payload: buildPostbackPayload({ type: 'more_like', productId: p.id }) },
+        { type: 'postback', title: 'Details', payload: buildPostbackPayload({ type: 'details', productId: p.id }) }
+      ]
     };
 
-    // Add subtitle if exists
-    if (p.description) {
-      element.subtitle = p.description.toString().slice(0, 80);
+    // Add subtitle if exists (out-of-stock items are normally filtered out before this point)
+    const subtitle = [p.stock === 0 ? '❌ Out of stock' : null, p.description?.toString()].filter(Boolean).join(' · ');
+    if (subtitle) {
+      element.subtitle = subtitle.slice(0, 80);
     }
 
     // Add image_url only if it's a valid URL
@@ -93,4 +135,71 @@ export async function sendProductCarousel(pageAccessToken: string, recipientPsid
   logger.info({ recipientPsid, cardCount: elements.length }, '✅ Messenger: Carousel sent');
 }
 
+export async function sendCartCarousel(
+  pageAccessToken: string,
+  recipientPsid: string,
+  items: OrderItem[],
+  currency: Currency = 'USD'
+): Promise<void> {
+  if (!items || items.length === 0) return;
+
+  const elements = items.slice(0, 10).map((item) => {
+    const lineKey = cartLineKey(item);
+    const element: any = {
+      title: orderItemLabel(item).slice(0, 80) || 'Product',
+      subtitle: `${item.quantity} x ${formatPrice(item.price, currency)} = ${formatPrice(item.quantity * item.price, currency)}`,
+      buttons: [
+        { type: 'postback', title: '+1', payload: buildPostbackPayload({ type: 'cart_increment', productId: lineKey }) },
+        { type: 'postback', title: '-1', payload: buildPostbackPayload({ type: 'cart_decrement', productId: lineKey }) },
+        { type: 'postback', title: 'Remove', payload: buildPostbackPayload({ type: 'cart_remove', productId: lineKey }) }
+      ]
+    };
+
+    const url = item.imageUrl?.trim();
+    if (url && (url.startsWith('http://') || url.startsWith('https://'))) {
+      element.image_url = url;
+    }
+
+    return element;
+  });
+
+  await graph.post('/me/messages', {
+    recipient: { id: recipientPsid },
+    messaging_type: 'RESPONSE',
+    message: {
+      attachment: {
+        type: 'template',
+        payload: {
+          template_type: 'generic',
+          elements
+        }
+      }
+    }
+  }, { params: buildParams(pageAccessToken) });
+  logger.info({ recipientPsid, cardCount: elements.length }, '✅ Messenger: Cart carousel sent');
+}
+
+/**
+ * Deliver a conversation response: carousels first, then the text (with quick replies)
+ * Carousels are priced in the currency of the reply's language
+ * Carousel failures are logged so the text reply still goes out
+ */
+export async function sendConversationResponse(
+  pageAccessToken: string,
+  recipientPsid: string,
+  resp: ConversationResponse
+): Promise<void> {
+  const currency = currencyFor(detectLanguage(resp.text));
+  try {
+    if (resp.products && resp.products.length > 0) {
+      await sendProductCarousel(pageAccessToken, recipientPsid, resp.products, currency);
+    }
+    if (resp.cartItems && resp.cartItems.length > 0) {
+      await sendCartCarousel(pageAccessToken, recipientPsid, resp.cartItems, currency);
+    }
+  } catch (err) {
+    logger.error({ err, recipientPsid }, 'Failed to send carousel');
+  }
 
+  await sendTextMessage(pageAccessToken, recipientPsid, resp.text, resp.quickReplies);
+}
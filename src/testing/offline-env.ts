@@ -0,0 +1,33 @@
+/**
+ * Environment for tests (transcript replay and unit tests)
+ *
+ * The app validates its env on import (src/config.ts); tests never touch these services.
+ * Set it before importing anything that reads the config.
+ */
+
+const OFFLINE_ENV: Record<string, string> = {
+  LOG_LEVEL: 'silent',
+  LLM_PROVIDER: 'scripted',
+  EMBEDDING_PROVIDER: 'hash',
+  PAGE_ACCESS_TOKEN: 'replay',
+  VERIFY_TOKEN: 'replay',
+  APP_SECRET: 'replay',
+  FIREBASE_PROJECT_ID: 'replay',
+  FIREBASE_CLIENT_EMAIL: 'replay@example.com',
+  FIREBASE_PRIVATE_KEY: 'replay-private-key-placeholder-not-a-real-key',
+  NEXT_PUBLIC_SUPABASE_URL: 'http://localhost.invalid',
+  SUPABASE_SERVICE_ROLE_KEY: 'replay-service-role-key',
+  // Fixed pricing and currencies so totals don't depend on the local .env
+  DELIVERY_FEE_PHNOM_PENH: '1.5',
+  DELIVERY_FEE_PROVINCE: '3',
+  TAX_RATE: '0',
+  KHR_PER_USD: '4000',
+  CURRENCY_EN: 'USD',
+  CURRENCY_KM: 'KHR'
+};
+
+export function useOfflineEnv(): void {
+  for (const [key, value] of Object.entries(OFFLINE_ENV)) {
+    process.env[key] = value;
+  }
+}
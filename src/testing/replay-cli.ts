@@ -0,0 +1,77 @@
+/**
+ * Replay conversation transcripts and compare them with their golden files
+ *
+ *   npm test                              # replay every transcript in test/conversations
+ *   npm test -- checkout                  # only transcripts whose file name contains "checkout"
+ *   npm run test:update [-- checkout]     # re-record golden files after an intended change
+ *
+ * Transcripts: test/conversations/<name>.json
+ * Golden files: test/conversations/golden/<name>.json
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { useOfflineEnv } from './offline-env';
+
+const TRANSCRIPT_DIR = resolve(__dirname, '../../test/conversations');
+const GOLDEN_DIR = join(TRANSCRIPT_DIR, 'golden');
+
+async function main(): Promise<number> {
+  useOfflineEnv();
+
+  // Imported after the env is in place
+  const { loadTranscript, replayTranscript, diffRecordings } = await import('./replay');
+
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const filters = args.filter(arg => !arg.startsWith('--'));
+
+  const files = readdirSync(TRANSCRIPT_DIR)
+    .filter(file => file.endsWith('.json'))
+    .filter(file => filters.length === 0 || filters.some(filter => file.includes(filter)))
+    .sort();
+
+  if (files.length === 0) {
+    console.error(`No transcripts found in ${TRANSCRIPT_DIR}`);
+    return 1;
+  }
+
+  let failed = 0;
+  for (const file of files) {
+    const goldenPath = join(GOLDEN_DIR, file);
+    const recording = await replayTranscript(loadTranscript(join(TRANSCRIPT_DIR, file)));
+
+    if (update) {
+      mkdirSync(GOLDEN_DIR, { recursive: true });
+      writeFileSync(goldenPath, JSON.stringify(recording, null, 2) + '\n');
+      console.log(`📝 ${file}: golden file written`);
+      continue;
+    }
+
+    if (!existsSync(goldenPath)) {
+      failed++;
+      console.log(`❌ ${file}: no golden file (run npm run test:update -- ${file.replace(/\.json$/, '')})`);
+      continue;
+    }
+
+    const diffs = diffRecordings(JSON.parse(readFileSync(goldenPath, 'utf8')), recording);
+    if (diffs.length > 0) {
+      failed++;
+      console.log(`❌ ${file}\n  ${diffs.join('\n  ')}`);
+    } else {
+      console.log(`✅ ${file} (${recording.turns.length} turns)`);
+    }
+  }
+
+  if (!update) {
+    console.log(`\n${files.length - failed}/${files.length} transcripts match their golden files`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
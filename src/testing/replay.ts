@@ -0,0 +1,260 @@
+import { readFileSync } from 'node:fs';
+import { handleConversation, type ConversationResponse } from '../conversation';
+import { createMemoryRepositories, setRepositories, type MemoryProduct, type MemoryRepositories } from '../repositories';
+import { createScriptedProvider, setLlmProvider, type ScriptedRule } from '../llm';
+import { createHashEmbeddingProvider, setEmbeddingProvider } from '../embeddings';
+import { setStaffNotifier, type StaffNotification } from '../notifiers';
+import type { LeadDoc } from '../services/leads-supabase';
+import type { Customer, Order } from '../services/orders';
+import type { PromoCode } from '../services/pricing';
+import { parsePostbackPayload, type PostbackEvent } from '../utils';
+
+/**
+ * Conversation replay harness
+ *
+ * A transcript is a JSON file with a product catalog, optional scripted LLM rules
+ * and a list of customer turns. Each turn goes through `handleConversation` with
+ * in-memory storage, the scripted LLM and hash embeddings, and what the bot did is
+ * recorded: reply text, stage after the turn, carousel products, quick replies,
+ * the cart and staff notifications. Orders created during the run are recorded at the end.
+ *
+ * The record is compared with the transcript's golden file; `npm run test:update`
+ * re-records golden files after an intended behaviour change.
+ */
+
+export type TranscriptTurn =
+  | { user: string }
+  | { postback: string; title?: string };  // Payload of a carousel button or quick reply, e.g. "BUY_p1"
+
+export type Transcript = {
+  description?: string;
+  userId?: string;
+  products: MemoryProduct[];
+  llm?: ScriptedRule[];
+  lead?: Partial<LeadDoc>;  // Starting state, e.g. a returning customer's details
+  promoCodes?: PromoCode[];
+  customers?: Customer[];  // Existing customers, e.g. one with the same phone from another chat
+  concurrentUpdates?: ConcurrentUpdate[];
+  failures?: InjectedFailure[];
+  turns: TranscriptTurn[];
+};
+
+/**
+ * Another writer (staff, a second message) changing the lead in the middle of a turn:
+ * applied once, right after the named repository call returns during that turn
+ */
+export type ConcurrentUpdate = {
+  turn: number;                   // 1-based
+  after: 'customers.findOrCreate' | 'promoCodes.redeem' | 'orders.create';
+  lead: Partial<LeadDoc>;
+};
+
+/**
+ * A repository call failing (database outage) in the middle of a turn: its next call
+ * during that turn throws instead of running
+ */
+export type InjectedFailure = {
+  turn: number;                   // 1-based
+  call: 'customers.findOrCreate' | 'promoCodes.redeem' | 'orders.create';
+};
+
+export type RecordedTurn = {
+  input: string;
+  reply: string;
+  stage: LeadDoc['stage'] | null;
+  products?: string[];       // "id: name"
+  quickReplies?: string[];   // "title → payload"
+  cart?: string[];           // "2x name (size, color) @ price"
+  cartTotal?: number;
+  silent?: boolean;          // Bot didn't answer (human handover)
+  staffNotified?: string[];  // "type: reason"
+};
+
+export type Recording = {
+  turns: RecordedTurn[];
+  orders: Array<Pick<Order, 'id' | 'customer_id' | 'status' | 'total' | 'items'>>;
+  customers?: Customer[];  // Only when the transcript starts with customers
+};
+
+export function loadTranscript(path: string): Transcript {
+  const transcript = JSON.parse(readFileSync(path, 'utf8')) as Transcript;
+  if (!Array.isArray(transcript.products) || !Array.isArray(transcript.turns)) {
+    throw new Error(`Invalid transcript ${path}: "products" and "turns" must be arrays`);
+  }
+  return transcript;
+}
+
+// mulberry32: the summary refresh in handleConversation is sampled with Math.random
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toPostbackEvent(payload: string, title?: string): PostbackEvent {
+  return { source: 'postback', payload, title, action: parsePostbackPayload(payload) };
+}
+
+function recordTurn(
+  input: string,
+  response: ConversationResponse,
+  lead: LeadDoc | undefined,
+  notifications: StaffNotification[]
+): RecordedTurn {
+  const turn: RecordedTurn = {
+    input,
+    reply: response.text,
+    stage: lead?.stage ?? null
+  };
+  if (response.silent) {
+    turn.silent = true;
+  }
+  if (response.products?.length) {
+    turn.products = response.products.map(p => `${p.id}: ${p.name}`);
+  }
+  if (response.quickReplies?.length) {
+    turn.quickReplies = response.quickReplies.map(q => `${q.title} → ${q.payload}`);
+  }
+  if (lead?.pendingOrder?.items.length) {
+    turn.cart = lead.pendingOrder.items.map(item => {
+      const variant = [item.size, item.color].filter(Boolean).join(', ');
+      return `${item.quantity}x ${item.productName}${variant ? ` (${variant})` : ''} @ ${item.price}`;
+    });
+    turn.cartTotal = lead.pendingOrder.total;
+  }
+  if (notifications.length > 0) {
+    turn.staffNotified = notifications.map(n => `${n.type}: ${n.reason}`);
+  }
+  return turn;
+}
+
+/**
+ * Wrap a repository method so its next call is followed by an unversioned lead update
+ */
+function injectConcurrentUpdate(repos: MemoryRepositories, userId: string, update: ConcurrentUpdate): void {
+  const [repoName, methodName] = update.after.split('.') as [keyof MemoryRepositories, string];
+  const repo = repos[repoName] as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+  const original = repo[methodName]!;
+  repo[methodName] = async (...args: unknown[]) => {
+    repo[methodName] = original;
+    const result = await original(...args);
+    await repos.leads.update(userId, update.lead);
+    return result;
+  };
+}
+
+/**
+ * Wrap a repository method so its next call throws without running
+ */
+function injectFailure(repos: MemoryRepositories, failure: InjectedFailure): void {
+  const [repoName, methodName] = failure.call.split('.') as [keyof MemoryRepositories, string];
+  const repo = repos[repoName] as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+  const original = repo[methodName]!;
+  repo[methodName] = async () => {
+    repo[methodName] = original;
+    throw new Error(`Injected failure: ${failure.call}`);
+  };
+}
+
+/**
+ * Play a transcript against fresh in-memory state and record what happened
+ */
+export async function replayTranscript(transcript: Transcript): Promise<Recording> {
+  const userId = transcript.userId ?? 'replay-user';
+  const repos = createMemoryRepositories({
+    products: transcript.products,
+    promoCodes: transcript.promoCodes ?? [],
+    customers: transcript.customers ?? []
+  });
+
+  // Anything that bypasses injection (default repositories, providers) stays offline too
+  setRepositories(repos);
+  setLlmProvider(createScriptedProvider(transcript.llm ?? []));
+  setEmbeddingProvider(createHashEmbeddingProvider(256));
+  const notifications: StaffNotification[] = [];
+  setStaffNotifier({ name: 'replay', notify: async (n) => { notifications.push(n); } });
+
+  if (transcript.lead) {
+    await repos.leads.getOrCreate(userId);
+    await repos.leads.update(userId, transcript.lead);
+  }
+
+  const random = Math.random;
+  Math.random = seededRandom(1);
+  try {
+    const turns: RecordedTurn[] = [];
+    for (const [index, turn] of transcript.turns.entries()) {
+      for (const update of transcript.concurrentUpdates ?? []) {
+        if (update.turn === index + 1) injectConcurrentUpdate(repos, userId, update);
+      }
+      for (const failure of transcript.failures ?? []) {
+        if (failure.turn === index + 1) injectFailure(repos, failure);
+      }
+
+      const response = 'postback' in turn
+        ? await handleConversation(userId, turn.title ?? '', { postback: toPostbackEvent(turn.postback, turn.title) }, repos)
+        : await handleConversation(userId, turn.user, undefined, repos);
+
+      // Let fire-and-forget writes (assistant message, summary refresh) land before reading state
+      await new Promise(resolve => setImmediate(resolve));
+      turns.push(recordTurn(
+        'postback' in turn ? `[${turn.postback}]` : turn.user,
+        response,
+        repos.state.leads.get(userId),
+        notifications.splice(0)
+      ));
+    }
+
+    const orders = [...repos.state.orders.values()].map(({ id, customer_id, status, total, items }) => ({
+      id, customer_id, status, total, items
+    }));
+    return transcript.customers ? { turns, orders, customers: repos.state.customers } : { turns, orders };
+  } finally {
+    Math.random = random;
+    setRepositories(null);
+    setLlmProvider(null);
+    setEmbeddingProvider(null);
+    setStaffNotifier(null);
+  }
+}
+
+/**
+ * Describe the differences between a recording and its golden file (empty when they match)
+ */
+export function diffRecordings(expected: Recording, actual: Recording): string[] {
+  const diffs: string[] = [];
+  const turnCount = Math.max(expected.turns.length, actual.turns.length);
+
+  for (let i = 0; i < turnCount; i++) {
+    const want = expected.turns[i];
+    const got = actual.turns[i];
+    if (!want || !got) {
+      diffs.push(`turn ${i + 1}: ${want ? 'missing from the run' : 'not in the golden file'}`);
+      continue;
+    }
+    for (const key of new Set([...Object.keys(want), ...Object.keys(got)]) as Set<keyof RecordedTurn>) {
+      const a = JSON.stringify(want[key]);
+      const b = JSON.stringify(got[key]);
+      if (a !== b) {
+        diffs.push(`turn ${i + 1} (${got.input}) ${key}:\n    expected ${a}\n    received ${b}`);
+      }
+    }
+  }
+
+  const wantOrders = JSON.stringify(expected.orders);
+  const gotOrders = JSON.stringify(actual.orders);
+  if (wantOrders !== gotOrders) {
+    diffs.push(`orders:\n    expected ${wantOrders}\n    received ${gotOrders}`);
+  }
+  const wantCustomers = JSON.stringify(expected.customers);
+  const gotCustomers = JSON.stringify(actual.customers);
+  if (wantCustomers !== gotCustomers) {
+    diffs.push(`customers:\n    expected ${wantCustomers}\n    received ${gotCustomers}`);
+  }
+  return diffs;
+}
@@ -0,0 +1,94 @@
+import { isQuestion } from './question-intents';
+import { extractVariantDetails } from './variants';
+
+/**
+ * Cart command parsing for free-text messages
+ *
+ * Examples:
+ * - "show my cart", "what's in my cart", "កន្ត្រករបស់ខ្ញុំ"
+ * - "add 2 Classic Sneakers to my cart", "add it to cart"
+ * - "add two of the blue ones in size 42 to my cart"
+ * - "remove the canvas sneakers", "remove sneakers from cart" (but not "can you drop it off tomorrow?")
+ * - "change the quantity of sneakers to 3", "set sneakers to 2"
+ * - "clear my cart", "checkout"
+ */
+
+export type CartCommand =
+  | { type: 'show' }
+  | { type: 'clear' }
+  | { type: 'checkout' }
+  | { type: 'add'; productQuery: string; quantity: number; size?: string; color?: string }
+  | { type: 'remove'; productQuery: string; fromCart: boolean }  // fromCart: "… from my cart" was said
+  | { type: 'set_quantity'; productQuery: string; quantity: number };
+
+const CART_WORD = '(?:cart|basket|bag)';
+
+const SHOW_PATTERNS = [
+  new RegExp(`\\b(show|view|see|check|open)\\s+(me\\s+)?(my\\s+|the\\s+)?${CART_WORD}\\b`, 'i'),
+  new RegExp(`\\bwhat'?s?\\s+(is\\s+)?in\\s+(my\\s+|the\\s+)?${CART_WORD}\\b`, 'i'),
+  new RegExp(`^(my\\s+)?${CART_WORD}\\??$`, 'i'),
+  /កន្ត្រក/
+];
+
+const CLEAR_PATTERN = new RegExp(`\\b(clear|empty|reset)\\s+(my\\s+|the\\s+)?${CART_WORD}\\b`, 'i');
+const CHECKOUT_PATTERN = /^(checkout|check out|place (my )?order|proceed to checkout)[!.\s]*$/i;
+const ADD_PATTERN = new RegExp(`\\badd\\s+(?:(\\d+)\\s*(?:x\\s+|of\\s+)?)?(?:the\\s+)?(.+?)\\s+(?:to|in|into)\\s+(?:my\\s+|the\\s+)?${CART_WORD}\\b`, 'i');
+const REMOVE_PATTERN = new RegExp(`\\b(?:remove|delete|take out|drop)\\s+(?:the\\s+)?(.+?)(\\s+from\\s+(?:my\\s+|the\\s+)?${CART_WORD})?[!.\\s]*$`, 'i');
+// "in size 42" inside the product name is a variant, not part of the name
+const SIZE_PHRASE = /\s*\b(?:in\s+)?(?:size|sz)\s*:?\s*\S+/gi;
+const QUANTITY_WORDS = /^(?:one|two|three|four|five|six|seven|eight|nine|ten)\s+(?:of\s+)?(?:the\s+)?/i;
+const SET_QTY_PATTERNS = [
+  /\b(?:change|set|update|make)\s+(?:the\s+)?(?:quantity|qty|amount)\s+(?:of|for)\s+(?:the\s+)?(.+?)\s+to\s+(\d+)\b/i,
+  /\b(?:change|set|update|make)\s+(?:the\s+)?(.+?)\s+(?:quantity\s+|qty\s+)?to\s+(\d+)\b/i
+];
+
+/**
+ * Parse a message into a cart command
+ * @returns the command, or null when the message is not about the cart
+ */
+export function parseCartCommand(message: string): CartCommand | null {
+  const text = message.trim();
+  if (!text) return null;
+
+  if (CLEAR_PATTERN.test(text)) {
+    return { type: 'clear' };
+  }
+
+  if (CHECKOUT_PATTERN.test(text)) {
+    return { type: 'checkout' };
+  }
+
+  const add = ADD_PATTERN.exec(text);
+  if (add && add[2]) {
+    const { quantity, ...variant } = extractVariantDetails(text);
+    return {
+      type: 'add',
+      productQuery: add[2].replace(SIZE_PHRASE, '').replace(QUANTITY_WORDS, '').trim() || add[2].trim(),
+      quantity: add[1] ? parseInt(add[1], 10) : quantity ?? 1,
+      ...variant
+    };
+  }
+
+  for (const pattern of SET_QTY_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match && match[1] && match[2]) {
+      return {
+        type: 'set_quantity',
+        productQuery: match[1].trim(),
+        quantity: parseInt(match[2], 10)
+      };
+    }
+  }
+
+  // "can you drop it off tomorrow?" is about delivery, not the cart
+  const remove = isQuestion(text) ? null : REMOVE_PATTERN.exec(text);
+  if (remove && remove[1]) {
+    return { type: 'remove', productQuery: remove[1].trim(), fromCart: Boolean(remove[2]) };
+  }
+
+  if (SHOW_PATTERNS.some(pattern => pattern.test(text))) {
+    return { type: 'show' };
+  }
+
+  return null;
+}
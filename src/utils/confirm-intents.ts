@@ -0,0 +1,90 @@
+/**
+ * Yes/no answers to a confirmation question (the order summary)
+ *
+ * Examples:
+ * - yes: "yes", "Yes please!", "ok go ahead", "sure", "👍", "បាទ", "ចាស", "បាទ/ចាស", "យល់ព្រម", "baat", "jah"
+ * - no: "no", "nope, cancel it", "not now", "👎", "ទេ", "អត់ទេ", "បោះបង់", "ot te"
+ *
+ * The whole message has to be the answer: "yes but deliver to my office" is not a plain yes.
+ */
+
+export type Confirmation = 'yes' | 'no';
+
+const YES_PHRASES = [
+  // English
+  'yes', 'yeah', 'yea', 'ya', 'yep', 'yup', 'y', 'ok', 'okay', 'okey', 'oki', 'k', 'kk', 'sure', 'alright',
+  'confirm', 'confirmed', 'i confirm', 'correct', 'right', "that's right", 'thats right', 'go ahead', 'proceed',
+  'sounds good', 'looks good', 'all good', 'perfect', 'do it', 'deal', 'absolutely', 'of course',
+  // Romanized Khmer
+  'baat', 'bat', 'baht', 'jah', 'jaa', 'ja', 'chas', 'cha', 'chaa', 'ban',
+  // Khmer
+  'បាទ', 'ចាស', 'ចា៎ស', 'ចាស៎', 'ចា', 'បាន', 'យល់ព្រម', 'ព្រម', 'អូខេ', 'អូឃេ', 'ត្រូវហើយ', 'ត្រូវ', 'បញ្ជាក់', 'ល្អ'
+];
+
+const NO_PHRASES = [
+  // English
+  'no', 'nope', 'nah', 'n', 'cancel', 'cancel it', 'cancel order', 'cancel the order', 'cancel my order',
+  "don't", 'dont', 'do not', 'stop', 'not now', 'never mind', 'nevermind', 'forget it', 'changed my mind',
+  'i changed my mind', 'not yet',
+  // Romanized Khmer
+  'te', 'tei', 'tey', 'ot te', 'ort te', 'at te', 'ot', 'ort', 'min te', 'mun te',
+  // Khmer
+  'ទេ', 'អត់ទេ', 'អត់', 'មិនទេ', 'មិនយកទេ', 'មិនបាច់ទេ', 'បោះបង់', 'លុបចោល', 'ឈប់'
+];
+
+const YES_EMOJI = /(?:👍|👌|✅|🆗|✔|🙆)/u;
+const NO_EMOJI = /(?:👎|❌|✖|🙅)/u;
+const ANY_EMOJI = /[\p{Extended_Pictographic}\u{1F3FB}-\u{1F3FF}️‍]/gu;
+
+// Politeness around the answer: "yes please", "no thanks", "សូមបញ្ជាក់", "បាទ អរគុណ"
+const FILLER = /\b(?:please|pls|plz|thanks|thank\s+you|thx|ty|sir|bro|then|orkun|arkun)\b|អរគុណ|សូម/g;
+
+const KHMER = /[ក-៿]/;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * One or more phrases, e.g. "yes confirm", "ok go ahead", "បាទយល់ព្រម"
+ * Latin phrases must end at a word boundary ("ban" doesn't match "bank"); Khmer is written without spaces
+ */
+function answerPattern(phrases: string[]): RegExp {
+  const alternatives = [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map(phrase => KHMER.test(phrase) ? escapeRegex(phrase) : `${escapeRegex(phrase)}(?![a-z'])`)
+    .join('|');
+  return new RegExp(`^(?:${alternatives})(?:\\s*(?:${alternatives}))*$`);
+}
+
+const YES_PATTERN = answerPattern(YES_PHRASES);
+const NO_PATTERN = answerPattern(NO_PHRASES);
+
+/**
+ * Read a yes or no from a customer's reply
+ * @returns null when the message isn't a plain yes or no (mixed, or something else entirely)
+ */
+export function parseConfirmation(text: string): Confirmation | null {
+  const raw = text.trim();
+  if (!raw) return null;
+
+  const words = raw
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(ANY_EMOJI, ' ')
+    .replace(FILLER, ' ')
+    .replace(/[!?.,;:/~()\-។៕]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const yesEmoji = YES_EMOJI.test(raw);
+  const noEmoji = NO_EMOJI.test(raw);
+  if (yesEmoji && noEmoji) return null;
+
+  if (!words) {
+    return yesEmoji ? 'yes' : noEmoji ? 'no' : null;
+  }
+  if (YES_PATTERN.test(words) && !noEmoji) return 'yes';
+  if (NO_PATTERN.test(words) && !yesEmoji) return 'no';
+  return null;
+}
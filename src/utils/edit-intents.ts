@@ -0,0 +1,152 @@
+import type { CheckoutField } from '../services/checkout-fields';
+import { isQuestion } from './question-intents';
+import { extractColor, normalizeDigits } from './variants';
+
+/**
+ * Corrections to details already given, in free-text messages
+ *
+ * Examples:
+ * - "actually my address is House 5, Street 110", "change my phone to 012 999 888", "deliver it to Siem Reap instead"
+ * - "I want to change my email", "my number is wrong" (the new value is asked for)
+ * - "change the size to 43", "make it 3", "in black instead", "change the sneakers to size 43"
+ * - "ប្តូរអាសយដ្ឋាន ផ្ទះលេខ 5 ផ្លូវ 110", "លេខទូរសព្ទថ្មី 012 999 888", "ប្តូរទំហំទៅ 43"
+ */
+
+export type EditCommand =
+  | { type: 'field'; field: CheckoutField; value: string | null }  // null: ask for the new value
+  | { type: 'item'; productQuery?: string; quantity?: number; size?: string; color?: string };
+
+const FIELD_WORDS: Array<[CheckoutField, string]> = [
+  ['phone', '(?:phone(?:\\s+number)?|mobile(?:\\s+number)?|number|tel|លេខទូរសព្ទ|លេខទូរសព័ទ្ធ|លេខទូរស័ព្ទ)'],
+  ['email', '(?:e-?mail(?:\\s+address)?|អ៊ីមែល)'],
+  ['address', '(?:(?:delivery\\s+|shipping\\s+)?address|អាសយដ្ឋាន)'],
+  ['name', '(?:full\\s+name|name|ឈ្មោះ)']
+];
+
+const LEAD_IN = '^(?:(?:actually|sorry|oops|wait|no|correction|update)[,!.:]?\\s+)*';
+
+// A value that only says the old one is wrong: ask for the new one
+const NOT_A_VALUE = /^(?:wrong|incorrect|not\s+(?:right|correct)|changed|different|outdated|old|ខុស|មិនត្រូវ)(?:\s+now)?$/i;
+
+function fieldPatterns(word: string): { withValue: RegExp[]; withoutValue: RegExp[] } {
+  return {
+    withValue: [
+      // "my address is …", "actually my phone number should be …"
+      new RegExp(`${LEAD_IN}(?:my\\s+|the\\s+)?(?:new\\s+)?${word}\\s+(?:is|should\\s+be|=|:)\\s*(.+)$`, 'i'),
+      // "change my address to …", "update email: …"
+      new RegExp(`^(?:please\\s+)?(?:change|update|edit|correct|fix|set)\\s+(?:my\\s+|the\\s+)?${word}\\s*(?:to|:|=)\\s*(.+)$`, 'i'),
+      // "use phone 012 999 888 instead", "new number 012 999 888"
+      new RegExp(`^(?:use\\s+|new\\s+|my\\s+new\\s+)(?:my\\s+|this\\s+)?${word}\\s*:?\\s+(.+?)(?:\\s+instead)?$`, 'i'),
+      // "ប្តូរអាសយដ្ឋាន …", "អាសយដ្ឋានថ្មី …", "អាសយដ្ឋានខ្ញុំគឺ …"
+      new RegExp(`^(?:សូម)?(?:ប្តូរ|ផ្លាស់ប្តូរ|កែ)${word}(?:ទៅ|ជា|មក)?\\s*(.+)$`),
+      new RegExp(`^${word}(?:ខ្ញុំ|របស់ខ្ញុំ)?\\s*(?:ថ្មី|គឺ)\\s*:?\\s*(.+)$`)
+    ],
+    withoutValue: [
+      // "I want to change my address", "can I update my phone?", "my number is wrong"
+      new RegExp(`\\b(?:change|update|edit|correct|fix)\\s+(?:my\\s+|the\\s+)?${word}\\b[\\s?!.]*(?:please)?[\\s?!.]*$`, 'i'),
+      new RegExp(`^(?:សូម)?(?:ប្តូរ|ផ្លាស់ប្តូរ|កែ)${word}(?:ខ្ញុំ|របស់ខ្ញុំ)?[\\s?!.]*$`)
+    ]
+  };
+}
+
+const FIELD_PATTERNS = FIELD_WORDS.map(([field, word]) => ({ field, ...fieldPatterns(word) }));
+
+// "deliver it to Siem Reap instead", "send it to my office at Street 51 instead"
+const DELIVER_TO = /^(?:(?:actually|sorry|oops|please)[,!.]?\s+)*(?:deliver|send|ship)\s+(?:it\s+|them\s+|the\s+order\s+)?to\s+(.+?)\s+instead[!.\s]*$/i;
+
+const SIZE_EDITS = [
+  /\b(?:change|switch|update)\s+(?:the\s+)?size(?:\s+of\s+(?:the\s+)?(.+?))?\s+to\s+(\S+)/i,
+  /\b(?:change|switch|make)\s+(?:the\s+)?(.+?)\s+(?:to\s+)?(?:a\s+|in\s+)?size\s+(\S+)/i,
+  /()\bsize\s+(\S+)\s+instead\b/i,
+  /()(?:ប្តូរ|យក)ទំហំ(?:ទៅ|ជា)?\s*(\S+)/
+];
+
+const COLOR_EDITS = [
+  /\b(?:change|switch|update)\s+(?:the\s+)?colou?r(?:\s+of\s+(?:the\s+)?(.+?))?\s+to\s+(.+)$/i,
+  /()\bin\s+(\S+)\s+instead\b/i,
+  /()(?:ប្តូរ|យក)ពណ៌(?:ទៅ|ជា)?\s*(.+)$/
+];
+
+const QUANTITY_EDITS = [
+  /\b(?:change|update|set)\s+(?:the\s+)?(?:quantity|qty|amount)\s+to\s+(\d+)\b/i,
+  /\bmake\s+it\s+(\d+)\b(?!\s*(?:size|sz))/i,
+  /\b(?:actually\s+)?(?:i\s+(?:want|need)\s+)?(\d+)\s+(?:of\s+them\s+|pieces\s+|pairs\s+)?instead\b/i,
+  /(?:ប្តូរ|កែ)ចំនួន(?:ទៅ|ជា)?\s*(\d+)/
+];
+
+// Words that point at the only item rather than naming one
+const NOT_A_PRODUCT = /^(?:it|this|that|them|mine|my\s+order|the\s+order)$/i;
+
+function productQuery(raw: string | undefined): string | undefined {
+  const query = raw?.trim();
+  return query && !NOT_A_PRODUCT.test(query) ? query : undefined;
+}
+
+function parseFieldEdit(text: string): EditCommand | null {
+  const deliverTo = DELIVER_TO.exec(text);
+  if (deliverTo?.[1]) {
+    return { type: 'field', field: 'address', value: deliverTo[1].trim() };
+  }
+
+  // "can I change my address?" is a request to change it, but "is my address …?" isn't a new address
+  const question = isQuestion(text);
+  for (const { field, withValue, withoutValue } of FIELD_PATTERNS) {
+    if (!question) {
+      for (const pattern of withValue) {
+        const value = pattern.exec(text)?.[1]?.trim().replace(/[.!]+$/, '');
+        if (value) {
+          return { type: 'field', field, value: NOT_A_VALUE.test(value) ? null : value };
+        }
+      }
+    }
+    if (withoutValue.some(pattern => pattern.test(text))) {
+      return { type: 'field', field, value: null };
+    }
+  }
+  return null;
+}
+
+function parseItemEdit(text: string): EditCommand | null {
+  const edit: Extract<EditCommand, { type: 'item' }> = { type: 'item' };
+
+  for (const pattern of SIZE_EDITS) {
+    const match = pattern.exec(text);
+    if (match?.[2]) {
+      edit.size = match[2].replace(/[.!?,]+$/, '').toUpperCase();
+      const query = productQuery(match[1]);
+      if (query) edit.productQuery = query;
+      break;
+    }
+  }
+
+  for (const pattern of COLOR_EDITS) {
+    const match = pattern.exec(text);
+    const color = match?.[2] ? extractColor(match[2]) : undefined;
+    if (color) {
+      edit.color = color;
+      const query = productQuery(match?.[1]);
+      if (query && !edit.productQuery) edit.productQuery = query;
+      break;
+    }
+  }
+
+  for (const pattern of QUANTITY_EDITS) {
+    const quantity = pattern.exec(text)?.[1];
+    if (quantity) {
+      edit.quantity = parseInt(quantity, 10);
+      break;
+    }
+  }
+
+  return edit.size || edit.color || edit.quantity ? edit : null;
+}
+
+/**
+ * Parse a correction to a customer detail or to the pending order
+ * @returns null when the message isn't an edit
+ */
+export function parseEditCommand(message: string): EditCommand | null {
+  const text = normalizeDigits(message.trim());
+  if (!text) return null;
+  return parseFieldEdit(text) ?? parseItemEdit(text);
+}
@@ -0,0 +1,25 @@
+/**
+ * Detect a customer asking for a real person
+ *
+ * Examples:
+ * - "talk to a person", "can I speak with a human?", "real person please"
+ * - "I want to talk to staff", "connect me to an agent", "customer service"
+ * - "ខ្ញុំចង់និយាយជាមួយមនុស្ស", "សុំនិយាយជាមួយបុគ្គលិក"
+ */
+
+const PERSON_WORD = '(?:person|human|agent|staff|someone|somebody|representative|operator|admin|owner|seller|real\\s+person)';
+
+const HUMAN_REQUEST_PATTERNS = [
+  new RegExp(`\\b(?:talk|speak|chat)\\s+(?:to|with)\\s+(?:a\\s+|an\\s+|the\\s+|your\\s+)?(?:real\\s+|live\\s+)?${PERSON_WORD}\\b`, 'i'),
+  new RegExp(`\\b(?:connect|transfer|put)\\s+me\\s+(?:to|with|through\\s+to)\\s+(?:a\\s+|an\\s+|the\\s+|your\\s+)?(?:real\\s+|live\\s+)?${PERSON_WORD}\\b`, 'i'),
+  /\b(?:real|live)\s+(?:person|human|agent)\b/i,
+  /\bhuman\s+(?:please|pls)\b/i,
+  /^(?:customer\s+(?:service|support)|human|agent)[!.?\s]*$/i,
+  /(?:និយាយ|ជជែក).*(?:មនុស្ស|បុគ្គលិក|ម្ចាស់ហាង|អ្នកលក់)/
+];
+
+export function isHumanRequest(text: string): boolean {
+  const msg = text.trim();
+  if (!msg) return false;
+  return HUMAN_REQUEST_PATTERNS.some(pattern => pattern.test(msg));
+}
@@ -5,7 +5,7 @@
  * across the codebase.
  */
 
-export { RateLimiter } from './rate-limiter';
+export { SenderLanes } from './sender-lanes';
 export { 
   verifyWebhookSignature, 
   verifyWebhookChallenge, 
@@ -16,6 +16,7 @@ export { clampText, sanitizeContent, hasContent } from './text';
 export { 
   filterProductsForDisplay, 
   shouldDisplayProducts,
+  isInStock,
   PRODUCT_DISPLAY_CONFIG 
 } from './products';
 export {
@@ -37,4 +38,20 @@ export {
   getPreferredLanguage,
   type Language
 } from './language';
-
+export {
+  buildPostbackPayload,
+  parsePostbackPayload,
+  type PostbackAction,
+  type PostbackEvent,
+  type QuickReply
+} from './postback';
+export {
+  extractVariantDetails,
+  extractQuantity,
+  extractSize,
+  extractColor,
+  parseSizeOptions,
+  matchSizeOption,
+  productHasColor,
+  type VariantDetails
+} from './variants';
@@ -1,4 +1,5 @@
 import { type Order, type OrderItem } from '../services/orders';
+import { extractVariantDetails, normalizeDigits, type VariantDetails } from './variants';
 
 /**
  * Format order summary for Facebook Messenger
@@ -38,20 +39,21 @@ We'll contact you shortly to arrange payment and delivery. Thank you!`;
 }
 
 /**
- * Extract product quantities from AI response
- * Example: "I want 2 blue sneakers and 1 red shirt"
- * Returns: [{ productId: 'xxx', quantity: 2 }, ...]
+ * Extract order intent, quantity and variant from a customer message
+ * Example: "I'll take 2 of the blue one in size 42"
+ * Returns: { wantsToOrder: true, quantity: 2, color: 'blue', size: '42', quantities: {...} }
  */
 export function extractOrderIntent(message: string): {
   wantsToOrder: boolean;
   quantities?: Record<string, number>;
-} {
+} & VariantDetails {
   const lower = message.toLowerCase();
   
   // Check if user wants to order
   const orderKeywords = [
-    'buy', 'purchase', 'order', 'want to buy', 'i\'ll take',
-    'add to cart', 'checkout', 'i want', 'get me'
+    'buy', 'purchase', 'order', 'want to buy', 'i\'ll take', 'i will take',
+    'add to cart', 'checkout', 'i want', 'get me',
+    'ទិញ', 'យក', 'កុម្ម៉ង់', 'បញ្ជាទិញ'
   ];
   
   const wantsToOrder = orderKeywords.some(keyword => lower.includes(keyword));
@@ -63,9 +65,10 @@ export function extractOrderIntent(message: string): {
   // Extract quantities (e.g., "2 blue sneakers", "1 shirt")
   const quantityPattern = /(\d+)\s+(?:of\s+)?(.+?)(?:\s+and|\s*,|\s*$)/gi;
   const quantities: Record<string, number> = {};
+  const text = normalizeDigits(message);
   
   let match;
-  while ((match = quantityPattern.exec(message)) !== null) {
+  while ((match = quantityPattern.exec(text)) !== null) {
     const qty = parseInt(match[1] || '0', 10);
     const productHint = match[2]?.trim();
     if (qty > 0 && productHint) {
@@ -73,6 +76,5 @@ export function extractOrderIntent(message: string): {
     }
   }
 
-  return { wantsToOrder, quantities };
+  return { wantsToOrder, quantities, ...extractVariantDetails(message) };
 }
-
@@ -0,0 +1,78 @@
+/**
+ * Order lookup commands in free-text messages (orders that were already placed)
+ *
+ * Examples:
+ * - "where is my order", "order status", "track my order", "order #3f2a91c4"
+ * - "cancel my order", "cancel order #3f2a91c4"
+ * - "my orders", "order history", "show my past orders"
+ * - "ការបញ្ជាទិញរបស់ខ្ញុំនៅឯណា", "បោះបង់ការបញ្ជាទិញ"
+ *
+ * `orderRef` is the order ID (or its first characters) when the customer named one.
+ */
+
+export type OrderCommand =
+  | { type: 'status'; orderRef?: string }
+  | { type: 'cancel'; orderRef?: string }
+  | { type: 'list' };
+
+const ORDER_WORD = '(?:order|package|parcel|delivery|shipment)';
+const KM_ORDER = 'ការបញ្ជាទិញ';
+
+const UUID_PATTERN = /\b([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/i;
+const REF_PATTERNS = [
+  /#\s*([a-z0-9][a-z0-9-]{2,})/i,
+  /\border\s+(?:id|number|no\.?|code)\s*:?\s*([a-z0-9][a-z0-9-]{2,})/i,
+  new RegExp(`${KM_ORDER}\\s*(?:លេខ)?\\s*#?\\s*([a-z0-9][a-z0-9-]{2,})`, 'i')
+];
+
+const LIST_PATTERNS = [
+  /\b(?:my|past|previous|all|recent)\s+(?:past\s+|previous\s+)?orders\b/i,
+  /\border\s+history\b/i,
+  /\borders\s+(?:i(?:'ve| have)?\s+)?(?:made|placed)\b/i,
+  new RegExp(`${KM_ORDER}(?:ទាំងអស់|ពីមុន)`)
+];
+
+const CANCEL_PATTERNS = [
+  new RegExp(`\\bcancel\\s+(?:my\\s+|the\\s+|this\\s+|that\\s+)?(?:last\\s+|latest\\s+)?${ORDER_WORD}\\b`, 'i'),
+  new RegExp(`(?:បោះបង់|លុប)${KM_ORDER}`)
+];
+
+const STATUS_PATTERNS = [
+  new RegExp(`\\bwhere(?:'?s|\\s+is)\\s+(?:my\\s+)?(?:last\\s+)?${ORDER_WORD}\\b`, 'i'),
+  new RegExp(`\\b${ORDER_WORD}\\s+status\\b`, 'i'),
+  new RegExp(`\\bstatus\\s+of\\s+(?:my\\s+)?${ORDER_WORD}\\b`, 'i'),
+  new RegExp(`\\btrack(?:ing)?\\s+(?:my\\s+)?${ORDER_WORD}\\b`, 'i'),
+  new RegExp(`\\b(?:has|did|is)\\s+my\\s+${ORDER_WORD}\\s+(?:been\\s+)?(?:shipped|sent|arrived|delivered|confirmed)\\b`, 'i'),
+  /\border\s*#\s*[a-z0-9]/i,
+  new RegExp(`${KM_ORDER}(?:របស់ខ្ញុំ)?.*(?:នៅឯណា|ដល់ណា|ស្ថានភាព)`)
+];
+
+function extractOrderRef(text: string): string | undefined {
+  const uuid = UUID_PATTERN.exec(text);
+  if (uuid?.[1]) return uuid[1].toLowerCase();
+
+  for (const pattern of REF_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match?.[1]) return match[1].toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * Parse an order lookup command from a user message
+ * @returns null when the message is not about a placed order
+ */
+export function parseOrderCommand(text: string): OrderCommand | null {
+  const msg = text.trim();
+  if (!msg) return null;
+
+  const withRef = <T extends { type: 'status' | 'cancel' }>(command: T): T => {
+    const orderRef = extractOrderRef(msg);
+    return orderRef ? { ...command, orderRef } : command;
+  };
+
+  if (CANCEL_PATTERNS.some(p => p.test(msg))) return withRef({ type: 'cancel' });
+  if (LIST_PATTERNS.some(p => p.test(msg))) return { type: 'list' };
+  if (STATUS_PATTERNS.some(p => p.test(msg))) return withRef({ type: 'status' });
+  return null;
+}
@@ -0,0 +1,123 @@
+/**
+ * Postback and quick-reply payload model
+ *
+ * Carousel buttons and quick replies carry a short string payload
+ * (e.g. "BUY_<productId>"). This module is the single place that builds
+ * and parses those strings so the webhook and conversation layers only
+ * ever deal with typed actions.
+ */
+
+export type PostbackAction =
+  | { type: 'buy'; productId: string }
+  | { type: 'more_like'; productId: string }
+  | { type: 'details'; productId: string }
+  | { type: 'cart_add'; productId: string }
+  | { type: 'cart_remove'; productId: string }
+  | { type: 'cart_increment'; productId: string }
+  | { type: 'cart_decrement'; productId: string }
+  | { type: 'view_cart' }
+  | { type: 'clear_cart' }
+  | { type: 'checkout' }
+  | { type: 'keep_shopping' }
+  | { type: 'get_started' }
+  | { type: 'confirm_order' }
+  | { type: 'decline_order' }
+  | { type: 'choose_size'; size: string }
+  | { type: 'cancel_order'; orderId: string }
+  | { type: 'unknown'; payload: string };
+
+type ProductAction = Extract<PostbackAction, { productId: string }>;
+type SimpleAction = Exclude<PostbackAction, ProductAction | { type: 'choose_size' } | { type: 'cancel_order' } | { type: 'unknown' }>;
+
+export type PostbackSource = 'postback' | 'quick_reply';
+
+export type PostbackEvent = {
+  source: PostbackSource;
+  payload: string;
+  title: string | undefined;
+  action: PostbackAction;
+};
+
+export type QuickReply = {
+  title: string;
+  payload: string;
+};
+
+const PRODUCT_PREFIXES: Record<ProductAction['type'], string> = {
+  buy: 'BUY_',
+  more_like: 'MORE_',
+  details: 'DETAILS_',
+  cart_add: 'CART_ADD_',
+  cart_remove: 'CART_REMOVE_',
+  cart_increment: 'CART_INC_',
+  cart_decrement: 'CART_DEC_'
+};
+
+const SIMPLE_PAYLOADS: Record<SimpleAction['type'], string> = {
+  view_cart: 'VIEW_CART',
+  clear_cart: 'CLEAR_CART',
+  checkout: 'CHECKOUT',
+  keep_shopping: 'KEEP_SHOPPING',
+  get_started: 'GET_STARTED',
+  confirm_order: 'CONFIRM_ORDER',  // Yes/No quick replies on the order summary
+  decline_order: 'DECLINE_ORDER'
+};
+
+// Size quick replies carry the option itself: "SIZE_42"
+const SIZE_PREFIX = 'SIZE_';
+
+// "Yes, cancel" quick reply after "cancel my order": "CANCEL_ORDER_<orderId>"
+const CANCEL_ORDER_PREFIX = 'CANCEL_ORDER_';
+
+// Older carousels used a single price button; treat taps on them as "details"
+const LEGACY_PRICE_PREFIX = 'PRICE_';
+
+/**
+ * Build the payload string for a postback action
+ */
+export function buildPostbackPayload(action: Exclude<PostbackAction, { type: 'unknown' }>): string {
+  if ('productId' in action) {
+    return `${PRODUCT_PREFIXES[action.type]}${action.productId}`;
+  }
+  if (action.type === 'choose_size') {
+    return `${SIZE_PREFIX}${action.size}`;
+  }
+  if (action.type === 'cancel_order') {
+    return `${CANCEL_ORDER_PREFIX}${action.orderId}`;
+  }
+  return SIMPLE_PAYLOADS[action.type];
+}
+
+/**
+ * Parse a raw payload string into a typed action
+ * Unrecognized payloads are returned as { type: 'unknown' } rather than dropped
+ */
+export function parsePostbackPayload(payload: string): PostbackAction {
+  const raw = payload.trim();
+
+  for (const [type, simplePayload] of Object.entries(SIMPLE_PAYLOADS) as Array<[SimpleAction['type'], string]>) {
+    if (raw === simplePayload) {
+      return { type };
+    }
+  }
+
+  for (const [type, prefix] of Object.entries(PRODUCT_PREFIXES) as Array<[ProductAction['type'], string]>) {
+    if (raw.startsWith(prefix) && raw.length > prefix.length) {
+      return { type, productId: raw.slice(prefix.length) };
+    }
+  }
+
+  if (raw.startsWith(SIZE_PREFIX) && raw.length > SIZE_PREFIX.length) {
+    return { type: 'choose_size', size: raw.slice(SIZE_PREFIX.length) };
+  }
+
+  if (raw.startsWith(CANCEL_ORDER_PREFIX) && raw.length > CANCEL_ORDER_PREFIX.length) {
+    return { type: 'cancel_order', orderId: raw.slice(CANCEL_ORDER_PREFIX.length) };
+  }
+
+  if (raw.startsWith(LEGACY_PRICE_PREFIX) && raw.length > LEGACY_PRICE_PREFIX.length) {
+    return { type: 'details', productId: raw.slice(LEGACY_PRICE_PREFIX.length) };
+  }
+
+  return { type: 'unknown', payload: raw };
+}
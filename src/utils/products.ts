@@ -15,6 +15,14 @@ export const PRODUCT_DISPLAY_CONFIG = {
   MAX_RETRIEVE_FOR_CONTEXT: 5,
 } as const;
 
+/**
+ * Check whether a product can be ordered in the given quantity
+ * Unknown stock (null) counts as available so older search functions keep working
+ */
+export function isInStock(product: Pick<RetrievedProduct, 'stock'>, quantity: number = 1): boolean {
+  return product.stock == null || product.stock >= quantity;
+}
+
 /**
  * Filter and limit products for display in carousel
  * 
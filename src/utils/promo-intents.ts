@@ -0,0 +1,65 @@
+/**
+ * Promo code commands in free-text messages
+ *
+ * Examples:
+ * - "promo code SAVE10", "my coupon is welcome5", "discount code: EID2024", "apply code SAVE10"
+ * - "remove the promo code", "cancel my coupon"
+ * - "កូដបញ្ចុះតម្លៃ SAVE10", "ដកកូដ"
+ *
+ * Codes are returned upper-case.
+ */
+
+export type PromoCommand =
+  | { type: 'apply'; code: string }
+  | { type: 'remove' };
+
+const CODE = '([a-z0-9][a-z0-9_-]{2,19})';
+
+const APPLY_PATTERNS = [
+  new RegExp(`\\b(?:promo|discount|coupon|voucher)(?:\\s+code)?\\s*(?:is|:|=|#)?\\s*${CODE}\\b`, 'i'),
+  new RegExp(`\\b(?:use|apply|redeem|enter)\\s+(?:the\\s+|my\\s+|this\\s+)?(?:promo\\s+|discount\\s+|coupon\\s+)?code\\s*:?\\s*${CODE}\\b`, 'i'),
+  new RegExp(`(?:កូដបញ្ចុះតម្លៃ|ប្រូម៉ូកូដ|គូប៉ុង|កូដ)\\s*:?\\s*${CODE}`, 'i')
+];
+
+const REMOVE_PATTERNS = [
+  /\b(?:remove|delete|cancel|drop|clear)\s+(?:the\s+|my\s+|this\s+)?(?:promo|discount|coupon|voucher)(?:\s+code)?\b/i,
+  /(?:ដក|លុប)(?:កូដ|គូប៉ុង)/
+];
+
+// Words that follow "discount"/"coupon" in questions rather than being a code
+const NOT_CODES = new Set([
+  'code', 'codes', 'please', 'pls', 'for', 'on', 'available', 'today', 'now', 'is', 'are', 'do', 'does',
+  'can', 'have', 'any', 'the', 'this', 'that', 'and', 'or', 'if', 'with', 'when', 'what', 'how', 'still',
+  'price', 'prices', 'offer', 'offers', 'sale', 'deal', 'deals'
+]);
+
+/**
+ * Parse a promo code command from a user message
+ * @returns null when the message isn't about a promo code
+ */
+export function parsePromoCommand(text: string): PromoCommand | null {
+  const msg = text.trim();
+  if (!msg) return null;
+
+  if (REMOVE_PATTERNS.some(p => p.test(msg))) return { type: 'remove' };
+
+  for (const pattern of APPLY_PATTERNS) {
+    const code = pattern.exec(msg)?.[1];
+    if (code && !NOT_CODES.has(code.toLowerCase())) {
+      return { type: 'apply', code: code.toUpperCase() };
+    }
+  }
+  return null;
+}
+
+/**
+ * A message that is nothing but something shaped like a code ("SAVE10", "WELCOME")
+ * Only worth looking up where a code is expected (order confirmation)
+ */
+export function looksLikePromoCode(text: string): string | null {
+  const msg = text.trim();
+  if (!/^[a-z0-9][a-z0-9_-]{2,19}$/i.test(msg)) return null;
+  const hasDigitAndLetter = /\d/.test(msg) && /[a-z]/i.test(msg);
+  const isUpperCase = msg.length >= 4 && msg === msg.toUpperCase() && /[A-Z]/.test(msg);
+  return hasDigitAndLetter || isUpperCase ? msg.toUpperCase() : null;
+}
@@ -0,0 +1,25 @@
+/**
+ * Detect a message that asks something instead of answering
+ * Used while collecting checkout details, so "how much is shipping?" isn't saved as a name
+ *
+ * Examples:
+ * - "how much is shipping?", "what time do you deliver", "can I pay cash on delivery"
+ * - "ដឹកជញ្ជូនថ្លៃប៉ុន្មាន", "អាចបង់ប្រាក់ពេលទទួលបានឬទេ"
+ */
+
+const QUESTION_MARK = /[?？]\s*$/;
+
+// "how ...", "what ...": a question word followed by more words
+const WH_QUESTION = /^(?:how|what|when|where|why|which|who|whats|what's|how's)\s+\S+/i;
+
+// "can I ...", "do you ...", "is delivery ...": an auxiliary followed by who or what it's about
+// (a bare "Will" or "May" is more likely the start of a name)
+const YES_NO_QUESTION = /^(?:can|could|do|does|did|is|are|will|would|should|may|shall)\s+(?:i|you|we|it|they|there|this|that|the|my|your|delivery|shipping)\b/i;
+
+const KHMER_QUESTION = /(?:ប៉ុន្មាន|យ៉ាងម៉េច|ម៉េច|ដូចម្តេច|ហេតុអ្វី|ពេលណា|ឬទេ|ឬអត់|អ្វីខ្លះ|មែនទេ|បានទេ)/;
+
+export function isQuestion(text: string): boolean {
+  const msg = text.trim();
+  if (!msg) return false;
+  return QUESTION_MARK.test(msg) || WH_QUESTION.test(msg) || YES_NO_QUESTION.test(msg) || KHMER_QUESTION.test(msg);
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import type { LlmToolCall, LlmToolDefinition } from '../llm';
+
+/**
+ * Tools the sales model can call during a conversation
+ *
+ * Each tool has a zod schema; the model gets it as JSON schema, and its arguments are
+ * validated against it before anything runs. The conversation executes the calls
+ * (search, cart, checkout, order) with the same services as buttons and typed commands.
+ */
+
+const productId = z.string().min(1).describe('Product ID from search results, e.g. "p1"');
+const quantity = z.number().int().min(1).max(20).describe('How many units (default 1)');
+const size = z.string().min(1).describe('Size the customer asked for, e.g. "42" or "M"');
+const color = z.string().min(1).describe('Color the customer asked for, e.g. "blue"');
+
+const SALES_TOOL_SCHEMAS = {
+  search_products: z.object({
+    query: z.string().min(1).describe('What the customer is looking for, in English or Khmer'),
+    show: z.number().int().min(1).max(5).optional()
+      .describe('How many products to show as cards: 1-2 for a specific item, up to 5 when the customer wants options')
+  }),
+  show_product_details: z.object({ productId }),
+  add_to_cart: z.object({
+    productId,
+    quantity: quantity.optional(),
+    size: size.optional(),
+    color: color.optional()
+  }),
+  start_checkout: z.object({
+    productId: productId.optional().describe('Product to buy now; omit to check out the cart'),
+    quantity: quantity.optional(),
+    size: size.optional(),
+    color: color.optional()
+  }),
+  set_customer_field: z.object({
+    field: z.enum(['name', 'phone', 'email', 'address']),
+    value: z.string().min(1).max(300)
+  }),
+  confirm_order: z.object({}),
+  cancel_order: z.object({
+    orderId: z.string().min(1).optional().describe('ID of an order already placed; omit to cancel the order being confirmed')
+  })
+};
+
+export type SalesToolName = keyof typeof SALES_TOOL_SCHEMAS;
+
+export type SalesToolCall = {
+  [K in SalesToolName]: { name: K; args: z.infer<(typeof SALES_TOOL_SCHEMAS)[K]> }
+}[SalesToolName];
+
+const DESCRIPTIONS: Record<SalesToolName, string> = {
+  search_products: 'Search the catalog. Use it before recommending or answering about products; results include IDs, prices, sizes and stock.',
+  show_product_details: 'Show one product with its details and buttons, when the customer asks about a specific product.',
+  add_to_cart: 'Add a product to the cart when the customer wants it but may keep shopping.',
+  start_checkout: 'Start buying: a product the customer just chose ("I\'ll take it", "2 of the blue ones in size 42"), or the cart. Missing details are asked for afterwards.',
+  set_customer_field: 'Save a detail the customer gave for delivery: name, phone, email or address.',
+  confirm_order: 'Place the order after the customer clearly agreed to the order summary.',
+  cancel_order: 'Cancel the order being confirmed, or an order the customer placed earlier (they are asked to confirm).'
+};
+
+export const SALES_TOOLS: LlmToolDefinition[] = (Object.keys(SALES_TOOL_SCHEMAS) as SalesToolName[]).map(name => {
+  const { $schema: _dialect, ...parameters } = z.toJSONSchema(SALES_TOOL_SCHEMAS[name]);
+  return { name, description: DESCRIPTIONS[name], parameters };
+});
+
+export function isSalesToolName(name: string): name is SalesToolName {
+  return Object.prototype.hasOwnProperty.call(SALES_TOOL_SCHEMAS, name);
+}
+
+/**
+ * Validate a tool call from the model
+ * @returns the typed call, or an error to send back to the model so it can correct itself
+ */
+export function parseSalesToolCall(call: LlmToolCall): { ok: true; call: SalesToolCall } | { ok: false; error: string } {
+  if (!isSalesToolName(call.name)) {
+    return { ok: false, error: `Unknown tool "${call.name}"` };
+  }
+
+  let raw: unknown;
+  try {
+    raw = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    return { ok: false, error: 'Arguments are not valid JSON' };
+  }
+
+  const parsed = SALES_TOOL_SCHEMAS[call.name].safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+    return { ok: false, error: `Invalid arguments for ${call.name}: ${issues.join('; ')}` };
+  }
+
+  return { ok: true, call: { name: call.name, args: parsed.data } as SalesToolCall };
+}
@@ -0,0 +1,31 @@
+/**
+ * In-process ordered lanes: tasks with the same key run one at a time, in the order
+ * they were queued; tasks with different keys run concurrently.
+ * Used by the worker so two messages from one customer are never handled at the same time.
+ */
+export class SenderLanes {
+  private tails: Map<string, Promise<void>>;
+
+  constructor() {
+    this.tails = new Map();
+  }
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.then(() => undefined, () => undefined);
+
+    this.tails.set(key, tail);
+    void tail.then(() => {
+      // Drop idle lanes so the map doesn't grow with every sender ever seen
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+
+    return result;
+  }
+
+  /** Number of senders with queued or running tasks */
+  get size(): number {
+    return this.tails.size;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Quantity and variant (size / color) extraction for English and Khmer messages
+ *
+ * Examples:
+ * - "2 of the blue one in size 42"  → { quantity: 2, color: 'blue', size: '42' }
+ * - "I'll take three, size M"        → { quantity: 3, size: 'M' }
+ * - "យកពីរគូ ពណ៌ខ្មៅ ទំហំ ៤២"          → { quantity: 2, color: 'black', size: '42' }
+ */
+
+export type VariantDetails = {
+  quantity?: number;
+  size?: string;
+  color?: string;
+};
+
+const KHMER_DIGITS = '០១២៣៤៥៦៧៨៩';
+
+const ENGLISH_NUMBER_WORDS: Record<string, number> = {
+  one: 1, a: 1, an: 1, single: 1, two: 2, pair: 2, couple: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+// Longest first so "ប្រាំមួយ" (6) wins over "ប្រាំ" (5) and "មួយ" (1)
+const KHMER_NUMBER_WORDS: Array<[string, number]> = [
+  ['ប្រាំបួន', 9], ['ប្រាំបី', 8], ['ប្រាំពីរ', 7], ['ប្រាំមួយ', 6],
+  ['ប្រាំ', 5], ['បួន', 4], ['បី', 3], ['ពីរ', 2], ['មួយ', 1], ['ដប់', 10]
+];
+
+// Khmer classifiers that follow a quantity: pair, piece, item, set
+const KHMER_CLASSIFIERS = '(?:គូ|ដុំ|ឈុត|មួយ|ខ្សែ|ផ្ទាំង|ដើម)';
+
+// Canonical (English) color → accepted spellings
+const COLOR_WORDS: Record<string, string[]> = {
+  black: ['black', 'ខ្មៅ'],
+  white: ['white', 'ពណ៌ស'],
+  red: ['red', 'ក្រហម'],
+  blue: ['blue', 'navy', 'ខៀវ'],
+  green: ['green', 'បៃតង'],
+  yellow: ['yellow', 'លឿង'],
+  gray: ['gray', 'grey', 'ប្រផេះ'],
+  pink: ['pink', 'ផ្កាឈូក'],
+  brown: ['brown', 'ត្នោត'],
+  purple: ['purple', 'ស្វាយ'],
+  orange: ['orange', 'ទឹកក្រូច'],
+  beige: ['beige', 'cream']
+};
+
+const LETTER_SIZES = ['XXS', 'XS', 'S', 'M', 'L', 'XL', 'XXL', 'XXXL', '2XL', '3XL'];
+
+/**
+ * Convert Khmer digits (០-៩) to ASCII digits
+ */
+export function normalizeDigits(text: string): string {
+  return text.replace(/[០-៩]/g, (d) => String(KHMER_DIGITS.indexOf(d)));
+}
+
+/**
+ * Extract a quantity ("2 of", "two", "x3", "qty 4", "ពីរគូ", "២")
+ * Numbers that are clearly sizes ("size 42") are ignored
+ */
+export function extractQuantity(message: string): number | undefined {
+  const text = normalizeDigits(message).toLowerCase();
+  const withoutSize = text.replace(/\b(size|sz|eu|us|uk)\s*:?\s*\d+(\.\d+)?/g, ' ').replace(/(ទំហំ|លេខ|សាយ)\s*\d+/g, ' ');
+
+  const explicit = /\b(?:qty|quantity|x)\s*:?\s*(\d{1,2})\b/.exec(withoutSize)
+    ?? /\b(\d{1,2})\s*(?:x\b|pcs?\b|pieces?\b|pairs?\b|units?\b|of\b)/.exec(withoutSize)
+    ?? new RegExp(`(\\d{1,2})\\s*${KHMER_CLASSIFIERS}`).exec(withoutSize);
+  if (explicit?.[1]) {
+    const qty = parseInt(explicit[1], 10);
+    if (qty > 0) return qty;
+  }
+
+  const word = /\b(one|two|three|four|five|six|seven|eight|nine|ten|a pair|a couple)\b/.exec(withoutSize);
+  if (word?.[1]) {
+    const key = word[1].replace(/^a\s+/, '');
+    const qty = ENGLISH_NUMBER_WORDS[key];
+    if (qty) return qty;
+  }
+
+  for (const [khmer, qty] of KHMER_NUMBER_WORDS) {
+    if (new RegExp(`${khmer}\\s*${KHMER_CLASSIFIERS}`).test(withoutSize)) {
+      return qty;
+    }
+  }
+
+  // A bare leading number ("2 blue sneakers", "I want 2")
+  const bare = /(?:^|\bwant\s+|\btake\s+|\bbuy\s+|\border\s+|\bget\s+)(\d{1,2})\b/.exec(withoutSize);
+  if (bare?.[1]) {
+    const qty = parseInt(bare[1], 10);
+    if (qty > 0) return qty;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract a requested size ("size 42", "in size M", "EU 40", "ទំហំ ៤២", "លេខ 39")
+ */
+export function extractSize(message: string): string | undefined {
+  const text = normalizeDigits(message);
+
+  const labeled = /\b(?:size|sz|eu|us|uk)\s*:?\s*([0-9]{1,2}(?:\.5)?|x{0,3}[sml]|[23]xl)\b/i.exec(text)
+    ?? /(?:ទំហំ|លេខ|សាយ)\s*([0-9]{1,2}(?:\.5)?|[a-z]{1,4})/i.exec(text);
+  if (labeled?.[1]) {
+    return labeled[1].toUpperCase();
+  }
+
+  // Letter sizes on their own ("M please", "XL") only when they are the whole token
+  const letter = new RegExp(`(?:^|\\s)(${LETTER_SIZES.join('|')})(?=$|[\\s,.!?])`).exec(text);
+  if (letter?.[1]) {
+    return letter[1].toUpperCase();
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract a requested color as a canonical English name
+ */
+export function extractColor(message: string): string | undefined {
+  const text = message.toLowerCase();
+  for (const [color, words] of Object.entries(COLOR_WORDS)) {
+    for (const word of words) {
+      const isKhmer = /[ក-៿]/.test(word);
+      const matched = isKhmer ? text.includes(word) : new RegExp(`\\b${word}\\b`).test(text);
+      if (matched) return color;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract quantity, size and color from a message
+ */
+export function extractVariantDetails(message: string): VariantDetails {
+  const details: VariantDetails = {};
+  const quantity = extractQuantity(message);
+  const size = extractSize(message);
+  const color = extractColor(message);
+  if (quantity !== undefined) details.quantity = quantity;
+  if (size !== undefined) details.size = size;
+  if (color !== undefined) details.color = color;
+  return details;
+}
+
+/**
+ * Parse a product's size column ("38, 39, 40" / "S/M/L") into options
+ */
+export function parseSizeOptions(size: string | null | undefined): string[] {
+  if (!size) return [];
+  return Array.from(new Set(
+    normalizeDigits(size)
+      .split(/[,/|;]+|\s+/)
+      .map(s => s.trim().toUpperCase())
+      .filter(s => s.length > 0)
+  ));
+}
+
+/**
+ * Match a requested size against a product's options
+ * @returns the option as written on the product, or undefined if not offered
+ */
+export function matchSizeOption(requested: string, options: string[]): string | undefined {
+  const want = normalizeDigits(requested).trim().toUpperCase();
+  return options.find(option => {
+    if (option === want) return true;
+    const a = Number(option);
+    const b = Number(want);
+    return !Number.isNaN(a) && !Number.isNaN(b) && a === b;
+  });
+}
+
+/**
+ * Check whether a product's name or description mentions a color
+ */
+export function productHasColor(product: { name: string; description?: string | null }, color: string): boolean {
+  const text = `${product.name} ${product.description ?? ''}`.toLowerCase();
+  const words = COLOR_WORDS[color] ?? [color];
+  return words.some(word => text.includes(word));
+}
@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import { logger } from '../logger';
+import { parsePostbackPayload, type PostbackEvent } from './postback';
 
 /**
  * Verify Facebook webhook signature using HMAC SHA256
@@ -42,11 +43,12 @@ export type MessagingEvent = {
   mid: string | undefined;
   imageUrl?: string;
   hasImage: boolean;
+  postback?: PostbackEvent;
 };
 
 /**
  * Parse and extract messaging events from Facebook webhook payload
- * Handles both text and image messages
+ * Handles text and image messages, button postbacks and quick-reply taps
  * @param body Webhook request body
  * @returns Array of messaging events
  */
@@ -62,8 +64,8 @@ export function extractMessagingEvents(body: any): MessagingEvent[] {
   for (const entry of body.entry ?? []) {
     for (const event of entry.messaging ?? []) {
       const senderId: string | undefined = event.sender?.id;
-      const messageText: string | undefined = event.message?.text;
-      const mid: string | undefined = event.message?.mid;
+      const messageText: string | undefined = event.message?.text ?? event.postback?.title;
+      const mid: string | undefined = event.message?.mid ?? event.postback?.mid;
       const attachments: any[] = event.message?.attachments ?? [];
 
       // Deduplicate by message ID
@@ -91,11 +93,17 @@ export function extractMessagingEvents(body: any): MessagingEvent[] {
         }
       }
 
-      // Process if has text or image
+      // Button taps arrive as `postback`, quick-reply taps as `message.quick_reply`
+      const postback = extractPostback(event);
+      if (postback) {
+        logger.info({ senderId, source: postback.source, action: postback.action.type }, '👆 Postback received');
+      }
+
+      // Process if has text, image or postback
       const hasText = typeof messageText === 'string' && messageText.trim().length > 0;
       const hasImage = !!imageUrl;
 
-      if (hasText || hasImage) {
+      if (hasText || hasImage || postback) {
         const event: MessagingEvent = {
           senderId,
           messageText: messageText || '',
@@ -107,6 +115,10 @@ export function extractMessagingEvents(body: any): MessagingEvent[] {
         if (imageUrl) {
           event.imageUrl = imageUrl;
         }
+
+        if (postback) {
+          event.postback = postback;
+        }
         
         events.push(event);
       }
@@ -117,7 +129,8 @@ export function extractMessagingEvents(body: any): MessagingEvent[] {
     {
       totalEvents: events.length,
       withImages: events.filter(e => e.hasImage).length,
-      textOnly: events.filter(e => !e.hasImage).length
+      postbacks: events.filter(e => e.postback).length,
+      textOnly: events.filter(e => !e.hasImage && !e.postback).length
     },
     '📨 Messaging events extracted'
   );
@@ -125,6 +138,33 @@ export function extractMessagingEvents(body: any): MessagingEvent[] {
   return events;
 }
 
+/**
+ * Read a postback or quick-reply payload from a raw messaging entry
+ */
+function extractPostback(event: any): PostbackEvent | undefined {
+  const postbackPayload: unknown = event.postback?.payload;
+  if (typeof postbackPayload === 'string' && postbackPayload.length > 0) {
+    return {
+      source: 'postback',
+      payload: postbackPayload,
+      title: event.postback?.title,
+      action: parsePostbackPayload(postbackPayload)
+    };
+  }
+
+  const quickReplyPayload: unknown = event.message?.quick_reply?.payload;
+  if (typeof quickReplyPayload === 'string' && quickReplyPayload.length > 0) {
+    return {
+      source: 'quick_reply',
+      payload: quickReplyPayload,
+      title: event.message?.text,
+      action: parsePostbackPayload(quickReplyPayload)
+    };
+  }
+
+  return undefined;
+}
+
 /**
  * Verify webhook subscription challenge (used during webhook setup)
  * @param mode hub.mode query parameter
@@ -0,0 +1,138 @@
+import { env } from './config';
+import { logger } from './logger';
+import { handleConversation } from './conversation';
+import { sendConversationResponse, sendSenderAction } from './social/facebook';
+import { SenderLanes } from './utils/sender-lanes';
+import {
+  claimWebhookJobs,
+  completeWebhookJob,
+  failWebhookJob,
+  saveWebhookJobResponse,
+  type WebhookJob
+} from './services/jobs';
+import { claimMessage } from './services/idempotency';
+import { sendOrderNotification } from './services/order-notifications';
+
+/**
+ * Webhook job worker
+ *
+ * Claims jobs from the queue, runs the conversation and sends the reply
+ * (or, for order status jobs, sends the status message).
+ * Runs as a polling loop in the Express server, and per invocation on Vercel
+ * (right after the webhook enqueues, and from the /api/worker cron for retries).
+ */
+
+export type WorkerRunStats = {
+  processed: number;
+  retried: number;
+  dead: number;
+};
+
+const BATCH_SIZE = 5;
+
+// claim_webhook_jobs hands out one job per sender at a time; the lanes also keep
+// overlapping runs in this process (e.g. two warm webhook invocations) from interleaving
+const lanes = new SenderLanes();
+
+async function processJob(job: WebhookJob): Promise<void> {
+  if (job.kind === 'order_status') {
+    await sendOrderNotification(job.event);
+    return;
+  }
+
+  const { senderId, messageText, mid, imageUrl, hasImage, postback } = job.event;
+
+  let response = job.response;
+  if (!response) {
+    // Meta redelivers slow webhooks: the same message may be queued more than once
+    if (mid && !(await claimMessage(mid, job.id))) {
+      logger.info({ jobId: job.id, senderId, mid }, '🔁 Worker: Duplicate message, skipping');
+      return;
+    }
+
+    sendSenderAction(env.PAGE_ACCESS_TOKEN, senderId, 'typing_on')
+      .catch((err) => logger.debug({ err }, 'Failed to send typing indicator'));
+
+    response = await handleConversation(senderId, messageText, {
+      mid,
+      ...(hasImage && imageUrl ? { imageUrl } : {}),
+      ...(postback ? { postback } : {})
+    });
+    await saveWebhookJobResponse(job.id, response);
+  } else {
+    logger.info({ jobId: job.id, senderId }, '🔁 Worker: Re-sending stored reply');
+  }
+
+  // Staff are handling the conversation (human handover): just clear the typing indicator
+  if (response.silent) {
+    await sendSenderAction(env.PAGE_ACCESS_TOKEN, senderId, 'typing_off')
+      .catch((err) => logger.debug({ err }, 'Failed to clear typing indicator'));
+    return;
+  }
+
+  await sendConversationResponse(env.PAGE_ACCESS_TOKEN, senderId, response);
+}
+
+/**
+ * Process ready jobs until the queue is empty or the time budget is spent
+ */
+export async function runWebhookWorker(opts: { budgetMs?: number } = {}): Promise<WorkerRunStats> {
+  const deadline = Date.now() + (opts.budgetMs ?? 25_000);
+  const stats: WorkerRunStats = { processed: 0, retried: 0, dead: 0 };
+
+  while (Date.now() < deadline) {
+    const jobs = await claimWebhookJobs(BATCH_SIZE);
+    if (jobs.length === 0) break;
+
+    // Jobs from different senders run in parallel; a sender's own jobs run in order
+    await Promise.all(jobs.map(job => lanes.run(job.senderId, async () => {
+      try {
+        await processJob(job);
+        await completeWebhookJob(job.id);
+        stats.processed++;
+      } catch (err: any) {
+        logger.error({ err, jobId: job.id, senderId: job.senderId, attempt: job.attempts }, '❌ Worker: Job failed');
+        const status = await failWebhookJob(job, err).catch(() => 'pending');
+        if (status === 'dead') stats.dead++;
+        else stats.retried++;
+      }
+    })));
+  }
+
+  if (stats.processed + stats.retried + stats.dead > 0) {
+    logger.info(stats, '✅ Worker: Run finished');
+  }
+  return stats;
+}
+
+let running: Promise<WorkerRunStats> | null = null;
+
+/**
+ * Start a run unless one is already in progress (server: after enqueueing, and on every poll)
+ */
+export function kickWebhookWorker(): Promise<WorkerRunStats> {
+  if (!running) {
+    running = runWebhookWorker()
+      .catch((err) => {
+        logger.error({ err }, '❌ Worker: Run failed');
+        return { processed: 0, retried: 0, dead: 0 };
+      })
+      .finally(() => {
+        running = null;
+      });
+  }
+  return running;
+}
+
+/**
+ * Poll the queue in the background (long-running server only)
+ * Picks up retries whose backoff has expired and jobs left behind by a crash
+ */
+export function startWebhookWorker(intervalMs: number = env.WORKER_POLL_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    void kickWebhookWorker();
+  }, intervalMs);
+  timer.unref();
+  logger.info({ intervalMs }, '👷 Worker: Polling webhook queue');
+  return () => clearInterval(timer);
+}
@@ -211,6 +211,8 @@ create table if not exists public.order_items (
   product_id uuid not null references public.products(id) on delete restrict,
   qty integer not null check (qty > 0),
   price numeric not null default 0,
+  size text,
+  color text,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
@@ -0,0 +1,91 @@
+-- ====================================================
+-- Per-sender ordering and optimistic concurrency on leads
+-- ====================================================
+-- Run after supabase_conversations_migration.sql and supabase_webhook_jobs.sql.
+--
+-- 1. leads.version is bumped on every update; the bot updates a lead only
+--    while it is still at the version it read (see updateLead in leads-supabase.ts)
+-- 2. webhook jobs get an insertion sequence, and claim_webhook_jobs hands out
+--    only a sender's oldest open job, never two of the same sender at once
+
+-- ====================================================
+-- 1. Lead version
+-- ====================================================
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.leads.version IS 'Incremented on every update (optimistic concurrency)';
+
+CREATE OR REPLACE FUNCTION public.bump_lead_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_leads_bump_version ON public.leads;
+CREATE TRIGGER trg_leads_bump_version
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_lead_version();
+
+-- ====================================================
+-- 2. Per-sender job lanes
+-- ====================================================
+-- created_at is the same for every event of one webhook delivery, so order by seq
+ALTER TABLE public.webhook_jobs
+ADD COLUMN IF NOT EXISTS seq bigint GENERATED ALWAYS AS IDENTITY;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_sender_seq ON public.webhook_jobs (sender_id, seq);
+
+-- A job is claimable when it is ready, no earlier job of the same sender is still
+-- open (pending or processing), and the sender has no job held by a live worker
+CREATE OR REPLACE FUNCTION public.claim_webhook_jobs(
+  batch_size integer DEFAULT 5,
+  lock_timeout_seconds integer DEFAULT 120,
+  p_tenant_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.webhook_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.webhook_jobs
+  SET status = 'dead',
+      locked_at = NULL,
+      last_error = coalesce(last_error, 'Worker did not finish the job')
+  WHERE status = 'processing'
+    AND locked_at < now() - make_interval(secs => lock_timeout_seconds)
+    AND attempts >= max_attempts
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+
+  RETURN QUERY
+  UPDATE public.webhook_jobs j
+  SET status = 'processing',
+      locked_at = now(),
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT c.id FROM public.webhook_jobs c
+    WHERE (
+        (c.status = 'pending' AND c.run_at <= now())
+        OR (c.status = 'processing' AND c.locked_at < now() - make_interval(secs => lock_timeout_seconds))
+      )
+      AND (p_tenant_id IS NULL OR c.tenant_id = p_tenant_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.webhook_jobs o
+        WHERE o.sender_id = c.sender_id
+          AND o.id <> c.id
+          AND (
+            (o.status IN ('pending', 'processing') AND o.seq < c.seq)
+            OR (o.status = 'processing' AND o.locked_at >= now() - make_interval(secs => lock_timeout_seconds))
+          )
+      )
+    ORDER BY c.run_at, c.seq
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
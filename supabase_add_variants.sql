@@ -0,0 +1,15 @@
+-- Add size/color variants to orders
+-- Cart items on leads.pending_order (JSONB) already carry { size, color };
+-- this persists the chosen variant on order_items and allows the ask_size stage
+
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS size text DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS color text DEFAULT NULL;
+
+COMMENT ON COLUMN public.order_items.size IS 'Size chosen by the customer (one of products.size)';
+COMMENT ON COLUMN public.order_items.color IS 'Color requested by the customer, if any';
+
+-- Allow the size follow-up stage
+ALTER TABLE public.leads DROP CONSTRAINT IF EXISTS leads_stage_check;
+ALTER TABLE public.leads ADD CONSTRAINT leads_stage_check
+  CHECK (stage IN ('ask_item', 'ask_size', 'ask_name', 'ask_phone', 'ask_email', 'ask_address', 'completed', 'confirm_order', 'processing_order'));
@@ -20,7 +20,7 @@ CREATE TABLE IF NOT EXISTS public.leads (
   
   -- Conversation stage
   stage text NOT NULL DEFAULT 'ask_item' 
-    CHECK (stage IN ('ask_item', 'ask_name', 'ask_phone', 'ask_email', 'ask_address', 'completed', 'confirm_order', 'processing_order')),
+    CHECK (stage IN ('ask_item', 'ask_size', 'ask_name', 'ask_phone', 'ask_email', 'ask_address', 'completed', 'confirm_order', 'processing_order')),
   
   -- Pending order (JSONB for flexibility)
   pending_order jsonb, -- { items: [...], total: number }
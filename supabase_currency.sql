@@ -0,0 +1,12 @@
+-- ====================================================
+-- Order currency
+-- ====================================================
+-- Amounts on orders stay in US dollars (like catalog prices). Orders also record the
+-- currency the customer was shown (riel for Khmer conversations by default, see
+-- src/services/money.ts) and the riel exchange rate at the time, so staff can quote
+-- the same riel amount later.
+-- Run after supabase_pricing.sql.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'KHR')),
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(12,4) CHECK (exchange_rate > 0);  -- KHR per USD; NULL on older orders
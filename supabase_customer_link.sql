@@ -0,0 +1,54 @@
+-- ====================================================
+-- Returning customers
+-- ====================================================
+-- leads.customer_id links a Messenger user (PSID) to the customer they ordered as.
+-- It is set when an order is placed; on the next checkout the bot greets the customer
+-- by name, fills in details missing on the lead from the customer record and offers
+-- to ship to the same address as last time. See recognizeCustomer in src/conversation.ts.
+--
+-- customers.psid is the chat a customer was created from. The phone typed in chat isn't
+-- verified, so orders only reuse (and update) customers from their own chat; another chat
+-- with the same phone gets its own customer. See findOrCreateCustomer in src/services/orders.ts.
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS psid text;
+
+COMMENT ON COLUMN public.customers.psid IS 'Messenger user (PSID) the customer was created from';
+
+-- Existing customers belong to the chat of their first order
+UPDATE public.customers c
+SET psid = o.psid
+FROM (
+  SELECT DISTINCT ON (customer_id) customer_id, psid
+  FROM public.orders
+  WHERE psid IS NOT NULL
+  ORDER BY customer_id, created_at ASC
+) o
+WHERE c.id = o.customer_id
+  AND c.psid IS NULL;
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.leads.customer_id IS 'Customer this chat ordered as (set when an order is placed)';
+
+CREATE INDEX IF NOT EXISTS idx_leads_customer ON public.leads (customer_id);
+
+-- Link existing leads through the last order placed from their chat (orders.psid),
+-- when that order's customer was created from the same chat
+UPDATE public.leads l
+SET customer_id = o.customer_id
+FROM (
+  SELECT DISTINCT ON (tenant_id, psid) tenant_id, psid, customer_id
+  FROM public.orders
+  WHERE psid IS NOT NULL
+  ORDER BY tenant_id, psid, created_at DESC
+) o
+JOIN public.customers c ON c.id = o.customer_id
+WHERE l.user_id = o.psid
+  AND l.tenant_id = o.tenant_id
+  AND c.psid = o.psid
+  AND l.customer_id IS NULL;
+
+-- findOrCreateCustomer: this chat's newest customer with a phone (several can share one)
+CREATE INDEX IF NOT EXISTS idx_customers_tenant_psid_phone ON public.customers (tenant_id, psid, phone, created_at DESC);
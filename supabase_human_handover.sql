@@ -0,0 +1,21 @@
+-- ====================================================
+-- Human handover
+-- ====================================================
+-- While a lead is in the human_handover stage the bot saves the customer's
+-- messages but doesn't reply. leads.handover holds why and until when:
+--   { "reason": "customer_request" | "low_confidence" | "staff",
+--     "startedAt": "...", "expiresAt": "...", "resumeStage": "ask_item" }
+-- See src/services/handover.ts.
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS handover jsonb DEFAULT NULL;
+
+COMMENT ON COLUMN public.leads.handover IS 'Set while staff handle the conversation (stage = human_handover)';
+
+ALTER TABLE public.leads DROP CONSTRAINT IF EXISTS leads_stage_check;
+ALTER TABLE public.leads ADD CONSTRAINT leads_stage_check
+  CHECK (stage IN ('ask_item', 'ask_size', 'ask_name', 'ask_phone', 'ask_email', 'ask_address', 'completed', 'confirm_order', 'processing_order', 'human_handover'));
+
+-- GET /admin/handovers
+CREATE INDEX IF NOT EXISTS idx_leads_handover ON public.leads (tenant_id, updated_at)
+  WHERE stage = 'human_handover';
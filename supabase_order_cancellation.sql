@@ -0,0 +1,15 @@
+-- ====================================================
+-- Customer order cancellation
+-- ====================================================
+-- Customers can cancel their own order from the chat while it is still pending
+-- ("cancel my order"); the order moves to the new 'cancelled' status.
+-- Pending orders haven't taken stock yet (accept_order does), so nothing is restocked.
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'paid', 'refunded', 'cancelled'));
+
+-- "my orders": orders placed from the chat, newest first
+CREATE INDEX IF NOT EXISTS idx_orders_customer_created ON public.orders (customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_psid_created ON public.orders (tenant_id, psid, created_at DESC)
+  WHERE psid IS NOT NULL;
@@ -0,0 +1,201 @@
+-- ====================================================
+-- Order lifecycle and status history
+-- ====================================================
+-- Orders move through pending → confirmed → paid → packed → shipped → delivered,
+-- and can be cancelled or refunded (allowed transitions: src/services/order-lifecycle.ts).
+-- Every change is recorded in order_status_history with who made it.
+-- Paying takes stock (accept_order); cancelling or refunding an order that took stock
+-- puts it back (restock_order).
+-- Run after supabase_order_cancellation.sql.
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'confirmed', 'paid', 'packed', 'shipped', 'delivered', 'cancelled', 'refunded'));
+
+-- ====================================================
+-- Status history
+-- ====================================================
+
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id bigserial PRIMARY KEY,
+  tenant_id uuid REFERENCES public.tenants(id),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status text,        -- NULL when the order was created
+  to_status text NOT NULL,
+  actor_type text NOT NULL CHECK (actor_type IN ('customer', 'staff', 'system')),
+  actor_id text,           -- PSID for customers, staff name when given
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON public.order_status_history (order_id, created_at);
+
+-- Only the service role (the bot and admin API) reads and writes the history
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- ====================================================
+-- Stock RPCs
+-- ====================================================
+-- The service role (bot, admin API) has no auth.uid(); dashboard users must belong to the order's tenant.
+
+CREATE OR REPLACE FUNCTION public.accept_order(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_tenant uuid;
+BEGIN
+  SELECT status, tenant_id INTO v_status, v_tenant FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+  IF auth.role() <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM public.user_tenants ut WHERE ut.user_id = auth.uid() AND ut.tenant_id = v_tenant
+  ) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  -- Idempotent: already paid
+  IF v_status = 'paid' THEN RETURN; END IF;
+  IF v_status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Only pending or confirmed orders can be accepted (current: %)', v_status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_items oi
+    JOIN public.products p ON p.id = oi.product_id
+    WHERE oi.order_id = p_order_id AND p.stock < oi.qty AND p.tenant_id = v_tenant
+  ) THEN
+    RAISE EXCEPTION 'Insufficient stock for one or more items';
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock - oi.qty
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id AND oi.product_id = p.id AND p.tenant_id = v_tenant;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = p_order_id;
+END;
+$$;
+
+-- Cancel or refund an order that took stock, putting its items back
+CREATE OR REPLACE FUNCTION public.restock_order(p_order_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_tenant uuid;
+BEGIN
+  IF p_status NOT IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Restock status must be cancelled or refunded (got: %)', p_status;
+  END IF;
+
+  SELECT status, tenant_id INTO v_status, v_tenant FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+  IF auth.role() <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM public.user_tenants ut WHERE ut.user_id = auth.uid() AND ut.tenant_id = v_tenant
+  ) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  -- Idempotent: already restocked with this status
+  IF v_status = p_status THEN RETURN; END IF;
+  IF v_status NOT IN ('paid', 'packed', 'shipped', 'delivered') THEN
+    RAISE EXCEPTION 'Only paid orders can be restocked (current: %)', v_status;
+  END IF;
+  IF p_status = 'cancelled' AND v_status IN ('shipped', 'delivered') THEN
+    RAISE EXCEPTION 'Shipped orders can only be refunded (current: %)', v_status;
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock + oi.qty
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id AND oi.product_id = p.id AND p.tenant_id = v_tenant;
+
+  UPDATE public.orders SET status = p_status WHERE id = p_order_id;
+END;
+$$;
+
+-- ====================================================
+-- Sales figures: everything paid and not refunded or cancelled
+-- ====================================================
+
+CREATE OR REPLACE FUNCTION public.sales_total_between(p_start date, p_end date)
+RETURNS numeric
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT coalesce(sum(o.total), 0)::numeric
+  FROM public.orders o
+  WHERE o.status IN ('paid', 'packed', 'shipped', 'delivered')
+    AND o.date BETWEEN p_start AND p_end
+    AND EXISTS (
+      SELECT 1 FROM public.user_tenants ut
+      WHERE ut.user_id = auth.uid() AND ut.tenant_id = o.tenant_id
+    );
+$$;
+
+CREATE OR REPLACE VIEW public.top_products_sales AS
+SELECT
+  p.id,
+  p.name,
+  coalesce(sum(oi.qty), 0)::integer AS total_qty,
+  coalesce(sum(oi.qty * oi.price), 0)::numeric AS total_amount
+FROM public.products p
+JOIN public.order_items oi ON oi.product_id = p.id AND oi.tenant_id = p.tenant_id
+JOIN public.orders o ON o.id = oi.order_id AND o.status IN ('paid', 'packed', 'shipped', 'delivered') AND o.tenant_id = p.tenant_id
+WHERE EXISTS (
+  SELECT 1 FROM public.user_tenants ut
+  WHERE ut.user_id = auth.uid() AND ut.tenant_id = p.tenant_id
+)
+GROUP BY p.id, p.name;
+
+CREATE OR REPLACE VIEW public.sales_totals_daily AS
+SELECT
+  o.date AS day,
+  coalesce(sum(o.total), 0)::numeric AS total
+FROM public.orders o
+WHERE o.status IN ('paid', 'packed', 'shipped', 'delivered')
+  AND EXISTS (
+    SELECT 1 FROM public.user_tenants ut
+    WHERE ut.user_id = auth.uid() AND ut.tenant_id = o.tenant_id
+  )
+GROUP BY o.date
+ORDER BY day DESC;
+
+CREATE OR REPLACE VIEW public.sales_totals_weekly AS
+SELECT
+  to_char(date_trunc('week', o.date), 'IYYY-IW') AS iso_week,
+  date_trunc('week', o.date)::date AS week_start,
+  coalesce(sum(o.total), 0)::numeric AS total
+FROM public.orders o
+WHERE o.status IN ('paid', 'packed', 'shipped', 'delivered')
+  AND EXISTS (
+    SELECT 1 FROM public.user_tenants ut
+    WHERE ut.user_id = auth.uid() AND ut.tenant_id = o.tenant_id
+  )
+GROUP BY 1, 2
+ORDER BY week_start DESC;
+
+CREATE OR REPLACE VIEW public.sales_totals_monthly AS
+SELECT
+  to_char(date_trunc('month', o.date), 'YYYY-MM') AS ym,
+  date_trunc('month', o.date)::date AS month_start,
+  coalesce(sum(o.total), 0)::numeric AS total
+FROM public.orders o
+WHERE o.status IN ('paid', 'packed', 'shipped', 'delivered')
+  AND EXISTS (
+    SELECT 1 FROM public.user_tenants ut
+    WHERE ut.user_id = auth.uid() AND ut.tenant_id = o.tenant_id
+  )
+GROUP BY 1, 2
+ORDER BY month_start DESC;
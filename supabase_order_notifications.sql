@@ -0,0 +1,26 @@
+-- ====================================================
+-- Order status notifications
+-- ====================================================
+-- Orders remember the Messenger user (PSID) who placed them, so a status change
+-- made by staff (accept, refund, cancel) can be sent to that customer.
+
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS psid TEXT;
+
+-- Orders placed before this migration: link the last order of each chat
+UPDATE public.orders o
+SET psid = l.user_id
+FROM public.leads l
+WHERE l.last_order_id = o.id
+  AND o.psid IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_psid ON public.orders (psid) WHERE psid IS NOT NULL;
+
+-- ====================================================
+-- Notification jobs
+-- ====================================================
+-- Run after supabase_webhook_jobs.sql. Status messages are queued in webhook_jobs
+-- (kind 'order_status', sender_id 'order:<id>' so each order is its own lane) and
+-- sent by the worker, with the queue's retries and dead letter.
+ALTER TABLE public.webhook_jobs
+ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'message'
+  CHECK (kind IN ('message', 'order_status'));
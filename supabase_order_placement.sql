@@ -0,0 +1,17 @@
+-- ====================================================
+-- Idempotent order placement
+-- ====================================================
+-- Before writing anything, placeOrder moves the lead to processing_order with a
+-- placement ID in leads.pending_order (JSONB, so no column is needed there).
+-- The order is created with that ID: when the message is handled again (a lead
+-- version conflict, a worker retry) the existing order is found instead of
+-- placing a second one. See placeOrder / resumePlacement in src/conversation.ts.
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS placement_id text;
+
+COMMENT ON COLUMN public.orders.placement_id IS 'Checkout the order was placed from (at most one order each)';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_placement
+  ON public.orders (tenant_id, placement_id)
+  WHERE placement_id IS NOT NULL;
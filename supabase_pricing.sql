@@ -0,0 +1,90 @@
+-- ====================================================
+-- Order pricing: promo codes, delivery fee and tax
+-- ====================================================
+-- Order totals are subtotal − discount + delivery fee + tax (src/services/pricing.ts).
+-- Delivery fees and the tax rate come from the bot's env (DELIVERY_FEE_PHNOM_PENH,
+-- DELIVERY_FEE_PROVINCE, TAX_RATE); promo codes are managed in promo_codes.
+-- Each order keeps its own breakdown, so changing fees later doesn't change past orders.
+-- Run after supabase_order_lifecycle.sql.
+
+-- ====================================================
+-- Promo codes
+-- ====================================================
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES public.tenants(id),
+  code text NOT NULL CHECK (code = upper(code)),  -- Customers can type it in any case
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),  -- 10 = 10% off, or $10 off
+  active boolean NOT NULL DEFAULT true,
+  expires_at timestamptz,     -- NULL = never expires
+  max_uses integer,           -- NULL = unlimited
+  used_count integer NOT NULL DEFAULT 0,
+  min_subtotal numeric(10,2), -- Smallest cart the code applies to
+
+  -- Metadata
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (tenant_id, code),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100)
+);
+
+DROP TRIGGER IF EXISTS trg_promo_codes_updated_at ON public.promo_codes;
+CREATE TRIGGER trg_promo_codes_updated_at
+  BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Dashboard users manage their tenant's codes; the bot uses the service role
+DROP POLICY IF EXISTS promo_codes_all ON public.promo_codes;
+CREATE POLICY promo_codes_all ON public.promo_codes FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.user_tenants ut WHERE ut.user_id = auth.uid() AND ut.tenant_id = promo_codes.tenant_id)
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.user_tenants ut WHERE ut.user_id = auth.uid() AND ut.tenant_id = promo_codes.tenant_id)
+);
+
+-- Count one use of a code if it is still valid for the subtotal
+-- The check and the increment are one statement, so the last use of a code can't be taken twice
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(p_code text, p_tenant_id uuid, p_subtotal numeric)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  UPDATE public.promo_codes
+  SET used_count = used_count + 1
+  WHERE code = upper(p_code)
+    AND tenant_id IS NOT DISTINCT FROM p_tenant_id
+    AND active
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_uses IS NULL OR used_count < max_uses)
+    AND (min_subtotal IS NULL OR p_subtotal >= min_subtotal)
+  RETURNING id INTO v_id;
+
+  RETURN v_id IS NOT NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_promo_code(text, uuid, numeric) FROM public, anon, authenticated;
+
+-- ====================================================
+-- Price breakdown on orders
+-- ====================================================
+-- total stays the amount to pay; existing orders get subtotal = total
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS subtotal numeric(10,2),
+  ADD COLUMN IF NOT EXISTS discount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS promo_code text,
+  ADD COLUMN IF NOT EXISTS delivery_zone text CHECK (delivery_zone IN ('phnom_penh', 'province')),
+  ADD COLUMN IF NOT EXISTS delivery_fee numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax numeric(10,2) NOT NULL DEFAULT 0;
+
+UPDATE public.orders SET subtotal = total WHERE subtotal IS NULL;
@@ -0,0 +1,64 @@
+-- ====================================================
+-- Message deduplication (idempotency store)
+-- ====================================================
+-- Meta redelivers a webhook when our 200 is slow, so the same message (mid)
+-- can arrive several times and on different instances. The worker claims each
+-- mid here before running the conversation; only the first job to claim it
+-- (or a retry of that same job) goes through. Claims expire after a TTL.
+
+CREATE TABLE IF NOT EXISTS public.processed_messages (
+  mid text PRIMARY KEY,      -- Facebook message ID
+  owner text NOT NULL,       -- Webhook job that handles the message
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_processed_messages_expires ON public.processed_messages (expires_at);
+
+ALTER TABLE public.processed_messages ENABLE ROW LEVEL SECURITY;
+
+-- Returns true when p_owner holds the claim on p_mid (first claim, or the same owner again)
+CREATE OR REPLACE FUNCTION public.claim_message_id(
+  p_mid text,
+  p_owner text,
+  p_ttl_seconds integer DEFAULT 86400
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_owner text;
+BEGIN
+  -- Expired claims: this mid, plus a small batch of others to keep the table small
+  DELETE FROM public.processed_messages
+  WHERE mid = p_mid AND expires_at < now();
+
+  DELETE FROM public.processed_messages
+  WHERE ctid IN (
+    SELECT ctid FROM public.processed_messages WHERE expires_at < now() LIMIT 100
+  );
+
+  INSERT INTO public.processed_messages (mid, owner, expires_at)
+  VALUES (p_mid, p_owner, now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (mid) DO NOTHING;
+
+  SELECT owner INTO v_owner FROM public.processed_messages WHERE mid = p_mid;
+  RETURN v_owner = p_owner;
+END;
+$$;
+
+-- ====================================================
+-- Chat history: one row per incoming message
+-- ====================================================
+-- Remove duplicates left by earlier redeliveries, then let saveUserMessage skip
+-- a message_id it has already saved
+DELETE FROM public.chat_messages a
+USING public.chat_messages b
+WHERE a.message_id IS NOT NULL
+  AND a.user_id = b.user_id
+  AND a.message_id = b.message_id
+  AND a.role = b.role
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_chat_messages_user_message
+  ON public.chat_messages (user_id, role, message_id);
@@ -0,0 +1,102 @@
+-- ====================================================
+-- Promo code redemptions per placement
+-- ====================================================
+-- placeOrder redeems the code before it creates the order. Each redemption is kept
+-- with the placement ID (see supabase_order_placement.sql), so:
+--   - redeeming again for the same placement doesn't count a second use
+--   - when the order couldn't be written, release_promo_redemption gives the use back
+--     and the customer's next "yes" still gets the discount
+-- A redemption whose placement has an order is never released.
+-- Run after supabase_pricing.sql and supabase_order_placement.sql.
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+  tenant_id uuid REFERENCES public.tenants(id),
+  placement_id text NOT NULL,
+  promo_code_id uuid NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_redemptions_placement
+  ON public.promo_redemptions (tenant_id, placement_id) NULLS NOT DISTINCT;
+
+-- Only the bot (service role) writes redemptions
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Count one use of a code for a placement if it is still valid for the subtotal
+-- The check and the increment are one statement, so the last use of a code can't be taken twice
+DROP FUNCTION IF EXISTS public.redeem_promo_code(text, uuid, numeric);
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(p_code text, p_tenant_id uuid, p_subtotal numeric, p_placement_id text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  -- Already counted for this placement (the message is being handled again)
+  IF EXISTS (
+    SELECT 1 FROM public.promo_redemptions r
+    JOIN public.promo_codes p ON p.id = r.promo_code_id
+    WHERE r.placement_id = p_placement_id
+      AND r.tenant_id IS NOT DISTINCT FROM p_tenant_id
+      AND p.code = upper(p_code)
+  ) THEN
+    RETURN true;
+  END IF;
+
+  UPDATE public.promo_codes
+  SET used_count = used_count + 1
+  WHERE code = upper(p_code)
+    AND tenant_id IS NOT DISTINCT FROM p_tenant_id
+    AND active
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_uses IS NULL OR used_count < max_uses)
+    AND (min_subtotal IS NULL OR p_subtotal >= min_subtotal)
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.promo_redemptions (tenant_id, placement_id, promo_code_id)
+  VALUES (p_tenant_id, p_placement_id, v_id);
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_promo_code(text, uuid, numeric, text) FROM public, anon, authenticated;
+
+-- Give back the use counted for a placement that has no order
+-- Returns false when there was nothing to release (no redemption, or the order was written)
+CREATE OR REPLACE FUNCTION public.release_promo_redemption(p_placement_id text, p_tenant_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo_code_id uuid;
+BEGIN
+  DELETE FROM public.promo_redemptions r
+  WHERE r.placement_id = p_placement_id
+    AND r.tenant_id IS NOT DISTINCT FROM p_tenant_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.placement_id = p_placement_id
+        AND o.tenant_id IS NOT DISTINCT FROM p_tenant_id
+    )
+  RETURNING r.promo_code_id INTO v_promo_code_id;
+
+  IF v_promo_code_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.promo_codes
+  SET used_count = greatest(used_count - 1, 0)
+  WHERE id = v_promo_code_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.release_promo_redemption(text, uuid) FROM public, anon, authenticated;
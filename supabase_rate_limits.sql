@@ -0,0 +1,115 @@
+-- ====================================================
+-- Shared rate limit counters (RATE_LIMIT_BACKEND=postgres)
+-- ====================================================
+-- Every instance (Express server, warm Vercel containers) counts against the
+-- same row per key. rate_limit_hit locks the row, applies the algorithm and
+-- returns the decision in one round trip. Same arithmetic as src/ratelimit/algorithms.ts.
+
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+  key text PRIMARY KEY,                  -- e.g. "text:<psid>"
+  tokens double precision,               -- token-bucket: tokens left
+  updated_ms bigint,                     -- token-bucket: last refill (epoch ms)
+  window_start_ms bigint,                -- sliding-window: start of the current window (epoch ms)
+  current_count integer NOT NULL DEFAULT 0,
+  previous_count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires ON public.rate_limits (expires_at);
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+  p_key text,
+  p_algorithm text,
+  p_limit integer,
+  p_window_ms integer
+)
+RETURNS TABLE (allowed boolean, remaining integer, retry_after_ms integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_now bigint := floor(extract(epoch FROM clock_timestamp()) * 1000);
+  v_row public.rate_limits%ROWTYPE;
+  v_tokens double precision;
+  v_rate double precision := p_limit::double precision / p_window_ms;
+  v_start bigint := (v_now / p_window_ms) * p_window_ms;
+  v_current integer := 0;
+  v_previous integer := 0;
+  v_weighted double precision;
+BEGIN
+  -- Expired counters: a small batch per call keeps the table small
+  DELETE FROM public.rate_limits
+  WHERE ctid IN (
+    SELECT ctid FROM public.rate_limits WHERE expires_at < now() AND key <> p_key LIMIT 100
+  );
+
+  INSERT INTO public.rate_limits (key, expires_at)
+  VALUES (p_key, now())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO v_row FROM public.rate_limits r WHERE r.key = p_key FOR UPDATE;
+
+  IF p_algorithm = 'token-bucket' THEN
+    IF v_row.tokens IS NULL OR v_row.expires_at < now() THEN
+      v_tokens := p_limit;
+    ELSE
+      v_tokens := least(p_limit, v_row.tokens + greatest(0, v_now - v_row.updated_ms) * v_rate);
+    END IF;
+
+    IF v_tokens >= 1 THEN
+      allowed := true;
+      v_tokens := v_tokens - 1;
+      remaining := floor(v_tokens);
+      retry_after_ms := 0;
+    ELSE
+      allowed := false;
+      remaining := 0;
+      retry_after_ms := ceil((1 - v_tokens) / v_rate);
+    END IF;
+
+    UPDATE public.rate_limits r
+    SET tokens = v_tokens,
+        updated_ms = v_now,
+        expires_at = now() + make_interval(secs => p_window_ms / 1000.0)
+    WHERE r.key = p_key;
+
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- sliding-window
+  IF v_row.window_start_ms = v_start THEN
+    v_current := v_row.current_count;
+    v_previous := v_row.previous_count;
+  ELSIF v_row.window_start_ms = v_start - p_window_ms THEN
+    v_previous := v_row.current_count;
+  END IF;
+
+  v_weighted := v_previous * (p_window_ms - (v_now - v_start))::double precision / p_window_ms;
+
+  IF v_weighted + v_current + 1 <= p_limit THEN
+    allowed := true;
+    v_current := v_current + 1;
+    remaining := floor(p_limit - v_weighted - v_current);
+    retry_after_ms := 0;
+  ELSE
+    allowed := false;
+    remaining := 0;
+    IF v_current + 1 > p_limit OR v_previous = 0 THEN
+      retry_after_ms := p_window_ms - (v_now - v_start);
+    ELSE
+      retry_after_ms := greatest(1, ceil(p_window_ms * (1 - (p_limit - 1 - v_current)::double precision / v_previous)) - (v_now - v_start));
+    END IF;
+  END IF;
+
+  UPDATE public.rate_limits r
+  SET window_start_ms = v_start,
+      current_count = v_current,
+      previous_count = v_previous,
+      expires_at = now() + make_interval(secs => 2 * p_window_ms / 1000.0)
+  WHERE r.key = p_key;
+
+  RETURN NEXT;
+END;
+$$;
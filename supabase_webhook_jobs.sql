@@ -0,0 +1,93 @@
+-- ====================================================
+-- Durable Webhook Job Queue
+-- ====================================================
+-- Every incoming Messenger event is stored here before the webhook answers Meta,
+-- then processed by the worker (server loop or /api/worker cron).
+-- Failed jobs are retried with exponential backoff; after max_attempts they are
+-- marked 'dead' and can be inspected and replayed through the admin API.
+
+CREATE TABLE IF NOT EXISTS public.webhook_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES public.tenants(id),
+  sender_id text NOT NULL, -- Facebook user ID
+  event jsonb NOT NULL,    -- MessagingEvent as extracted from the webhook payload
+  response jsonb,          -- Reply computed by the bot; a retry only re-sends it
+
+  -- Processing state
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'done', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_at timestamptz NOT NULL DEFAULT now(), -- Not claimed before this time (backoff)
+  locked_at timestamptz,                     -- Set while a worker holds the job
+  last_error text,
+
+  -- Metadata
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_ready ON public.webhook_jobs (status, run_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_sender ON public.webhook_jobs (sender_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_tenant ON public.webhook_jobs (tenant_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS trg_webhook_jobs_updated_at ON public.webhook_jobs;
+CREATE TRIGGER trg_webhook_jobs_updated_at
+  BEFORE UPDATE ON public.webhook_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_updated_at();
+
+-- Auto-set tenant_id on insert
+DROP TRIGGER IF EXISTS trg_webhook_jobs_set_tenant ON public.webhook_jobs;
+CREATE TRIGGER trg_webhook_jobs_set_tenant
+  BEFORE INSERT ON public.webhook_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_tenant_id_generic();
+
+-- Only the service role (webhook, worker, admin API) touches the queue
+ALTER TABLE public.webhook_jobs ENABLE ROW LEVEL SECURITY;
+
+-- ====================================================
+-- Claim ready jobs
+-- ====================================================
+-- Locks up to batch_size jobs for this worker. A job stuck in 'processing' for
+-- longer than lock_timeout_seconds (worker killed mid-flight) is claimed again,
+-- or marked dead when it has no attempts left.
+CREATE OR REPLACE FUNCTION public.claim_webhook_jobs(
+  batch_size integer DEFAULT 5,
+  lock_timeout_seconds integer DEFAULT 120,
+  p_tenant_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.webhook_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.webhook_jobs
+  SET status = 'dead',
+      locked_at = NULL,
+      last_error = coalesce(last_error, 'Worker did not finish the job')
+  WHERE status = 'processing'
+    AND locked_at < now() - make_interval(secs => lock_timeout_seconds)
+    AND attempts >= max_attempts
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+
+  RETURN QUERY
+  UPDATE public.webhook_jobs j
+  SET status = 'processing',
+      locked_at = now(),
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT id FROM public.webhook_jobs
+    WHERE (
+        (status = 'pending' AND run_at <= now())
+        OR (status = 'processing' AND locked_at < now() - make_interval(secs => lock_timeout_seconds))
+      )
+      AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id)
+    ORDER BY run_at, created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addToCart,
+  applyStockLimits,
+  cartItemCount,
+  cartLineKey,
+  changeCartQuantity,
+  findProductByName,
+  itemNeedingSize,
+  removeFromCart,
+  setCartItemVariant,
+  setCartQuantity,
+  type CartProduct
+} from '../../src/services/cart';
+
+const sneakers: CartProduct = { id: 'p1', name: 'White Leather Sneakers', price: 60, size: '40, 41, 42' };
+const tote: CartProduct = { id: 'p2', name: 'Canvas Tote Bag', price: 12.5 };
+
+describe('cart', () => {
+  it('merges the same product and variant into one line', () => {
+    let cart = addToCart(null, tote, 2);
+    cart = addToCart(cart, tote);
+    assert.equal(cart.items.length, 1);
+    assert.equal(cart.items[0]!.quantity, 3);
+    assert.equal(cart.total, 37.5);
+    assert.equal(cartItemCount(cart), 3);
+  });
+
+  it('keeps sizes of one product on separate lines', () => {
+    let cart = addToCart(null, sneakers, 1, { size: '41' });
+    cart = addToCart(cart, sneakers, 1, { size: '42' });
+    assert.deepEqual(cart.items.map(cartLineKey), ['p1:41:', 'p1:42:']);
+    assert.equal(cart.total, 120);
+  });
+
+  it('drops a size the product does not come in, so it is asked for later', () => {
+    const cart = addToCart(null, sneakers, 1, { size: '45' });
+    assert.equal(cart.items[0]!.size, null);
+    assert.equal(itemNeedingSize(cart)?.productId, 'p1');
+    assert.equal(itemNeedingSize(addToCart(null, sneakers, 1, { size: '40' })), null);
+  });
+
+  it('clamps quantities and removes a line set to 0', () => {
+    const cart = addToCart(null, tote, 500);
+    assert.equal(cart.items[0]!.quantity, 99);
+    assert.equal(setCartQuantity(cart, 'p2', 0).items.length, 0);
+    assert.equal(changeCartQuantity(setCartQuantity(cart, 'p2', 1), 'p2', -1).items.length, 0);
+    assert.equal(changeCartQuantity(cart, 'missing', 1).items.length, 1);
+  });
+
+  it('removes every line of a product by its id', () => {
+    let cart = addToCart(null, sneakers, 1, { size: '41' });
+    cart = addToCart(cart, sneakers, 1, { size: '42' });
+    cart = addToCart(cart, tote);
+    const updated = removeFromCart(cart, 'p1');
+    assert.deepEqual(updated.items.map(i => i.productId), ['p2']);
+    assert.equal(updated.total, 12.5);
+  });
+
+  it('keeps the promo code while the cart changes', () => {
+    const cart = { ...addToCart(null, tote, 2), promo: { code: 'SAVE10', type: 'percent' as const, value: 10 } };
+    assert.deepEqual(addToCart(cart, sneakers).promo, cart.promo);
+  });
+
+  it('merges a line into an existing one when its variant changes to match', () => {
+    let cart = addToCart(null, sneakers, 1, { size: '41' });
+    cart = addToCart(cart, sneakers, 2, { size: '42' });
+    const updated = setCartItemVariant(cart, 'p1:41:', { size: '42' });
+    assert.equal(updated.items.length, 1);
+    assert.equal(updated.items[0]!.quantity, 3);
+  });
+
+  it('trims the cart to stock shared by variant lines', () => {
+    let cart = addToCart(null, sneakers, 2, { size: '41' });
+    cart = addToCart(cart, sneakers, 2, { size: '42' });
+    cart = addToCart(cart, tote);
+    const { cart: trimmed, shortages } = applyStockLimits(cart, new Map([['p1', 3]]));
+    assert.deepEqual(trimmed.items.map(i => `${cartLineKey(i)} x${i.quantity}`), ['p1:41: x2', 'p1:42: x1']);
+    assert.deepEqual(shortages.map(s => `${s.item.productId} ${s.available}`), ['p1 1', 'p2 0']);
+  });
+
+  it('finds products by pronoun, name and shared words', () => {
+    const candidates = [sneakers, tote];
+    assert.equal(findProductByName('this one', candidates), sneakers);
+    assert.equal(findProductByName('the canvas tote bag', candidates), tote);
+    assert.equal(findProductByName('leather shoes', candidates), sneakers);
+    assert.equal(findProductByName('hoodie', candidates), null);
+  });
+});
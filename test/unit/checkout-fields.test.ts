@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateCheckoutField } from '../../src/services/checkout-fields';
+
+describe('checkout fields', () => {
+  it('accepts names and refuses answers that are not names', () => {
+    assert.deepEqual(validateCheckoutField('name', '  Dara   Sok '), { ok: true, value: 'Dara Sok' });
+    assert.deepEqual(validateCheckoutField('name', 'សុខ ដារា'), { ok: true, value: 'សុខ ដារា' });
+    assert.deepEqual(validateCheckoutField('name', 'ok'), { ok: false });
+    assert.deepEqual(validateCheckoutField('name', '012345678'), { ok: false });
+    assert.deepEqual(validateCheckoutField('name', 'dara@example.com'), { ok: false });
+  });
+
+  it('normalizes Cambodian phone numbers, Khmer digits included', () => {
+    assert.deepEqual(validateCheckoutField('phone', '012 345 678'), { ok: true, value: '+85512345678' });
+    assert.deepEqual(validateCheckoutField('phone', '០១២ ៣៤៥ ៦៧៨'), { ok: true, value: '+85512345678' });
+    assert.deepEqual(validateCheckoutField('phone', 'tomorrow'), { ok: false });
+  });
+
+  it('takes an email or a skip', () => {
+    assert.deepEqual(validateCheckoutField('email', 'dara@example.com'), { ok: true, value: 'dara@example.com' });
+    assert.deepEqual(validateCheckoutField('email', '.'), { ok: true, value: null });
+    assert.deepEqual(validateCheckoutField('email', 'skip'), { ok: true, value: null });
+    assert.deepEqual(validateCheckoutField('email', 'Skip it'), { ok: true, value: null });
+    assert.deepEqual(validateCheckoutField('email', 'dara at example'), { ok: false });
+  });
+
+  it('keeps an email that contains "skip"', () => {
+    assert.deepEqual(validateCheckoutField('email', 'skipper@gmail.com'), { ok: true, value: 'skipper@gmail.com' });
+    assert.deepEqual(validateCheckoutField('email', 'noskip@shop.kh'), { ok: true, value: 'noskip@shop.kh' });
+    assert.deepEqual(validateCheckoutField('email', 'skip this one'), { ok: false });
+  });
+
+  it('needs an address with more than a single word', () => {
+    assert.deepEqual(validateCheckoutField('address', 'House 12, Street 271'), { ok: true, value: 'House 12, Street 271' });
+    assert.deepEqual(validateCheckoutField('address', 'Siem Reap'), { ok: true, value: 'Siem Reap' });
+    assert.deepEqual(validateCheckoutField('address', 'ផ្ទះលេខ១២'), { ok: true, value: 'ផ្ទះលេខ១២' });
+    assert.deepEqual(validateCheckoutField('address', 'Kampot'), { ok: false });
+    assert.deepEqual(validateCheckoutField('address', 'yes'), { ok: false });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasRequiredDetails, isCollectingStage, nextCheckoutStage, transition } from '../../src/services/checkout';
+import type { LeadDoc, OrderItem } from '../../src/services/leads-supabase';
+
+const tote: OrderItem = { productId: 'p1', productName: 'Canvas Tote Bag', quantity: 1, price: 12 };
+const sneakers: OrderItem = { ...tote, productId: 'p2', productName: 'Sneakers', sizeOptions: ['41', '42'] };
+
+function lead(overrides: Partial<LeadDoc> = {}): LeadDoc {
+  return { userId: 'u1', stage: 'ask_item', pendingOrder: { items: [tote], total: 12 }, ...overrides };
+}
+
+const details = { name: 'Dara Sok', phone: '+85512345678', address: 'House 12, Street 271, Phnom Penh' };
+
+describe('checkout', () => {
+  it('asks for details in order, with the optional email after the phone', () => {
+    assert.equal(transition(lead(), 'buy'), 'ask_name');
+    assert.equal(transition(lead({ stage: 'ask_name', name: 'Dara' }), 'field_collected'), 'ask_phone');
+    assert.equal(transition(lead({ stage: 'ask_phone', name: 'Dara', phone: '+85512345678' }), 'field_collected'), 'ask_email');
+    assert.equal(transition(lead({ stage: 'ask_email', name: 'Dara', phone: '+85512345678' }), 'field_collected'), 'ask_address');
+    assert.equal(transition(lead({ stage: 'ask_address', ...details }), 'field_collected'), 'confirm_order');
+  });
+
+  it('asks for a missing size first', () => {
+    assert.equal(transition(lead({ ...details, pendingOrder: { items: [sneakers], total: 12 } }), 'buy'), 'ask_size');
+  });
+
+  it('goes straight to the summary for a returning buyer, without asking for email again', () => {
+    assert.equal(transition(lead({ stage: 'completed', ...details }), 'buy'), 'confirm_order');
+    assert.equal(hasRequiredDetails(lead(details)), true);
+    assert.equal(hasRequiredDetails(lead({ ...details, phone: ' ' })), false);
+  });
+
+  it('needs items to start checkout', () => {
+    assert.equal(transition(lead({ pendingOrder: null }), 'buy'), null);
+    assert.equal(nextCheckoutStage(lead({ ...details, pendingOrder: null })), 'completed');
+  });
+
+  it('places an order through processing_order and can fall back to the summary', () => {
+    const confirming = lead({ stage: 'confirm_order', ...details });
+    assert.equal(transition(confirming, 'place'), 'processing_order');
+    assert.equal(transition({ ...confirming, stage: 'processing_order' }, 'placement_failed'), 'confirm_order');
+    assert.equal(transition({ ...confirming, stage: 'processing_order' }, 'order_placed'), 'completed');
+    assert.equal(transition(lead({ stage: 'ask_item' }), 'place'), null);
+  });
+
+  it('goes back to a detail and returns to the summary once it is given again', () => {
+    const confirming = lead({ stage: 'confirm_order', ...details });
+    assert.equal(transition(confirming, 'edit_phone'), 'ask_phone');
+    assert.equal(nextCheckoutStage({ ...confirming, stage: 'ask_phone' }, 'ask_phone'), 'confirm_order');
+    assert.equal(transition(confirming, 'cancel'), 'completed');
+  });
+
+  it('knows which stages collect details', () => {
+    assert.equal(isCollectingStage('ask_size'), true);
+    assert.equal(isCollectingStage('ask_address'), true);
+    assert.equal(isCollectingStage('confirm_order'), false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createIdempotencyStore, createMemoryIdempotencyStore, type IdempotencyStore } from '../../src/services/idempotency';
+
+const TTL_MS = 60_000;
+
+function failingStore(): IdempotencyStore {
+  return {
+    name: 'down',
+    async claim() { throw new Error('database unreachable'); },
+    async release() { throw new Error('database unreachable'); }
+  };
+}
+
+describe('idempotency store', () => {
+  it('lets only the first owner claim a key, and that owner again', async () => {
+    const store = createMemoryIdempotencyStore();
+    assert.equal(await store.claim('mid-1', 'job-1', TTL_MS), true);
+    assert.equal(await store.claim('mid-1', 'job-1', TTL_MS), true);
+    assert.equal(await store.claim('mid-1', 'job-2', TTL_MS), false);
+  });
+
+  it('frees a key its owner releases, but not one released by someone else', async () => {
+    const store = createMemoryIdempotencyStore();
+    await store.claim('mid-1', 'delivery-1', TTL_MS);
+    await store.release('mid-1', 'delivery-2');
+    assert.equal(await store.claim('mid-1', 'delivery-2', TTL_MS), false);
+
+    await store.release('mid-1', 'delivery-1');
+    assert.equal(await store.claim('mid-1', 'delivery-2', TTL_MS), true);
+  });
+
+  it('claims and releases in the fallback while the primary store is down', async () => {
+    const store = createIdempotencyStore(failingStore(), createMemoryIdempotencyStore());
+    assert.equal(await store.claim('mid-1', 'delivery-1', TTL_MS), true);
+    assert.equal(await store.claim('mid-1', 'delivery-2', TTL_MS), false);
+
+    await store.release('mid-1', 'delivery-1');
+    assert.equal(await store.claim('mid-1', 'delivery-2', TTL_MS), true);
+  });
+});
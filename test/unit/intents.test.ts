@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCartCommand } from '../../src/utils/cart-intents';
+import { parseConfirmation } from '../../src/utils/confirm-intents';
+import { parseEditCommand } from '../../src/utils/edit-intents';
+import { isHumanRequest } from '../../src/utils/handover-intents';
+import { parseOrderCommand } from '../../src/utils/order-intents';
+import { looksLikePromoCode, parsePromoCommand } from '../../src/utils/promo-intents';
+import { isQuestion } from '../../src/utils/question-intents';
+
+describe('cart commands', () => {
+  it('parses cart commands', () => {
+    assert.deepEqual(parseCartCommand('show my cart'), { type: 'show' });
+    assert.deepEqual(parseCartCommand('clear my cart'), { type: 'clear' });
+    assert.deepEqual(parseCartCommand('checkout'), { type: 'checkout' });
+    assert.deepEqual(parseCartCommand('add 2 Classic Sneakers to my cart'), { type: 'add', productQuery: 'Classic Sneakers', quantity: 2 });
+    assert.deepEqual(parseCartCommand('set sneakers to 2'), { type: 'set_quantity', productQuery: 'sneakers', quantity: 2 });
+  });
+
+  it('tells removals that name the cart from ones that may not be about it', () => {
+    assert.deepEqual(parseCartCommand('remove sneakers from my cart'), { type: 'remove', productQuery: 'sneakers', fromCart: true });
+    assert.deepEqual(parseCartCommand('remove the grey hoodie'), { type: 'remove', productQuery: 'grey hoodie', fromCart: false });
+    assert.equal(parseCartCommand('can you drop it off tomorrow?'), null);
+    assert.equal(parseCartCommand('hello'), null);
+  });
+});
+
+describe('confirmations', () => {
+  it('reads whole-message yes and no answers in English and Khmer', () => {
+    assert.equal(parseConfirmation('Yes please!'), 'yes');
+    assert.equal(parseConfirmation('បាទ/ចាស'), 'yes');
+    assert.equal(parseConfirmation('👍'), 'yes');
+    assert.equal(parseConfirmation('nope, cancel it'), 'no');
+    assert.equal(parseConfirmation('អត់ទេ'), 'no');
+    assert.equal(parseConfirmation('yes but deliver to my office'), null);
+  });
+});
+
+describe('edit commands', () => {
+  it('parses corrections to details with and without the new value', () => {
+    assert.deepEqual(parseEditCommand('actually my address is Old Market, Siem Reap'), { type: 'field', field: 'address', value: 'Old Market, Siem Reap' });
+    assert.deepEqual(parseEditCommand('change my phone to 012 999 888'), { type: 'field', field: 'phone', value: '012 999 888' });
+    assert.deepEqual(parseEditCommand('my number is wrong'), { type: 'field', field: 'phone', value: null });
+  });
+
+  it('parses changes to the cart item', () => {
+    assert.deepEqual(parseEditCommand('change the size to 43'), { type: 'item', size: '43' });
+    assert.deepEqual(parseEditCommand('make it 2'), { type: 'item', quantity: 2 });
+  });
+});
+
+describe('order commands', () => {
+  it('parses order lookups and cancellations', () => {
+    assert.deepEqual(parseOrderCommand('where is my order'), { type: 'status' });
+    assert.deepEqual(parseOrderCommand('order #3f2a91c4'), { type: 'status', orderRef: '3f2a91c4' });
+    assert.deepEqual(parseOrderCommand('cancel my order'), { type: 'cancel' });
+    assert.deepEqual(parseOrderCommand('order history'), { type: 'list' });
+    assert.equal(parseOrderCommand('I want to order a bag'), null);
+  });
+});
+
+describe('promo commands', () => {
+  it('parses codes and removals, not questions about discounts', () => {
+    assert.deepEqual(parsePromoCommand('my coupon is welcome5'), { type: 'apply', code: 'WELCOME5' });
+    assert.deepEqual(parsePromoCommand('remove the promo code'), { type: 'remove' });
+    assert.equal(parsePromoCommand('do you have any discount codes?'), null);
+    assert.equal(looksLikePromoCode('SAVE10'), 'SAVE10');
+    assert.equal(looksLikePromoCode('yes'), null);
+  });
+});
+
+describe('questions and handover requests', () => {
+  it('spots questions', () => {
+    assert.equal(isQuestion('how much is shipping'), true);
+    assert.equal(isQuestion('can I pay cash on delivery'), true);
+    assert.equal(isQuestion('ដឹកជញ្ជូនថ្លៃប៉ុន្មាន'), true);
+    assert.equal(isQuestion('Will Smith'), false);
+  });
+
+  it('spots requests for a person', () => {
+    assert.equal(isHumanRequest('can I speak with a human?'), true);
+    assert.equal(isHumanRequest('customer service'), true);
+    assert.equal(isHumanRequest('សុំនិយាយជាមួយបុគ្គលិក'), true);
+    assert.equal(isHumanRequest('is this a real leather bag'), false);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { currencyFor, formatMoney, formatPrice, isCurrency, toMoney } from '../../src/services/money';
+
+// Offline env: 4000 riel to the dollar, USD for English and riel for Khmer
+describe('money', () => {
+  it('shows dollars with cents and grouped thousands', () => {
+    assert.equal(formatPrice(12.5, 'USD'), '$12.50');
+    assert.equal(formatPrice(1234, 'USD'), '$1,234.00');
+    assert.equal(formatMoney({ amount: -1.2, currency: 'USD' }), '-$1.20');
+  });
+
+  it('converts to riel rounded to 100', () => {
+    assert.deepEqual(toMoney(12.83, 'KHR'), { amount: 51300, currency: 'KHR' });
+    assert.equal(formatPrice(12.83, 'KHR'), '51,300៛');
+    assert.equal(formatPrice(10, 'KHR', 4100), '41,000៛');
+  });
+
+  it('picks the currency of the conversation language', () => {
+    assert.equal(currencyFor('en'), 'USD');
+    assert.equal(currencyFor('km'), 'KHR');
+    assert.equal(isCurrency('KHR'), true);
+    assert.equal(isCurrency('EUR'), false);
+  });
+});
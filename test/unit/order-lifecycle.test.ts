@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canTransitionOrder,
+  isOrderStatus,
+  nextOrderStatuses,
+  OrderTransitionError,
+  stockEffect
+} from '../../src/services/order-lifecycle';
+
+describe('order lifecycle', () => {
+  it('allows orders to move forward, be cancelled until shipped and refunded once paid', () => {
+    assert.equal(canTransitionOrder('pending', 'paid'), true);
+    assert.equal(canTransitionOrder('packed', 'cancelled'), true);
+    assert.equal(canTransitionOrder('shipped', 'cancelled'), false);
+    assert.equal(canTransitionOrder('pending', 'refunded'), false);
+    assert.equal(canTransitionOrder('delivered', 'refunded'), true);
+    assert.deepEqual(nextOrderStatuses('cancelled'), []);
+  });
+
+  it('takes stock when an order is paid and puts it back when a paid order is cancelled', () => {
+    assert.equal(stockEffect('pending', 'paid'), 'take');
+    assert.equal(stockEffect('paid', 'shipped'), 'none');
+    assert.equal(stockEffect('packed', 'cancelled'), 'restore');
+    assert.equal(stockEffect('delivered', 'refunded'), 'restore');
+    assert.equal(stockEffect('pending', 'cancelled'), 'none');
+  });
+
+  it('explains refused transitions', () => {
+    assert.equal(new OrderTransitionError('o1', 'shipped', 'pending').message, "Order o1 can't go from shipped to pending (allowed: delivered, refunded)");
+    assert.equal(new OrderTransitionError('o1', 'refunded', 'paid').message, "Order o1 can't go from refunded to paid (refunded is final)");
+    assert.equal(isOrderStatus('packed'), true);
+    assert.equal(isOrderStatus('lost'), false);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPostbackPayload, parsePostbackPayload, type PostbackAction } from '../../src/utils/postback';
+
+describe('postback payloads', () => {
+  it('parses every payload it builds', () => {
+    const actions: Array<Exclude<PostbackAction, { type: 'unknown' }>> = [
+      { type: 'buy', productId: 'p1' },
+      { type: 'cart_add', productId: 'abc-123' },
+      { type: 'cart_decrement', productId: 'p1' },
+      { type: 'view_cart' },
+      { type: 'confirm_order' },
+      { type: 'choose_size', size: '42' },
+      { type: 'cancel_order', orderId: '3f2a91c4' }
+    ];
+    for (const action of actions) {
+      assert.deepEqual(parsePostbackPayload(buildPostbackPayload(action)), action);
+    }
+  });
+
+  it('reads legacy price buttons as details and keeps unknown payloads', () => {
+    assert.deepEqual(parsePostbackPayload('PRICE_p1'), { type: 'details', productId: 'p1' });
+    assert.deepEqual(parsePostbackPayload(' BUY_ '), { type: 'unknown', payload: 'BUY_' });
+    assert.deepEqual(parsePostbackPayload('SOMETHING'), { type: 'unknown', payload: 'SOMETHING' });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPromoCode, deliveryZoneFor, priceOrder, promoDiscount, type PromoCode } from '../../src/services/pricing';
+import type { OrderItem } from '../../src/services/leads-supabase';
+
+// Fees from the offline env: $1.50 in Phnom Penh, $3 to the provinces, no tax
+const items: OrderItem[] = [
+  { productId: 'p1', productName: 'Canvas Tote Bag', quantity: 2, price: 12 },
+  { productId: 'p2', productName: 'Sneakers', quantity: 1, price: 60.5 }
+];
+
+const save10: PromoCode = { code: 'SAVE10', type: 'percent', value: 10, active: true, usedCount: 0 };
+
+describe('pricing', () => {
+  it('finds the delivery zone from the address', () => {
+    assert.equal(deliveryZoneFor('House 12, Street 271, Phnom Penh'), 'phnom_penh');
+    assert.equal(deliveryZoneFor('Toul Kork'), 'phnom_penh');
+    assert.equal(deliveryZoneFor('ផ្ទះលេខ ១២ ភ្នំពេញ'), 'phnom_penh');
+    assert.equal(deliveryZoneFor('Old Market, Siem Reap'), 'province');
+    assert.equal(deliveryZoneFor(''), null);
+  });
+
+  it('prices an order with delivery and a promo code', () => {
+    assert.deepEqual(priceOrder(items, { address: 'Siem Reap', promo: save10 }), {
+      subtotal: 84.5,
+      discount: 8.45,
+      promoCode: 'SAVE10',
+      deliveryZone: 'province',
+      deliveryFee: 3,
+      taxRate: 0,
+      tax: 0,
+      total: 79.05
+    });
+    assert.equal(priceOrder(items).deliveryFee, 0);
+  });
+
+  it('caps fixed discounts at the subtotal and drops codes below their minimum', () => {
+    assert.equal(promoDiscount({ code: 'BIG', type: 'fixed', value: 100 }, 24), 24);
+    assert.equal(promoDiscount({ code: 'MIN50', type: 'fixed', value: 5, minSubtotal: 50 }, 24), 0);
+    assert.equal(priceOrder(items.slice(0, 1), { promo: { code: 'MIN50', type: 'fixed', value: 5, minSubtotal: 50 } }).promoCode, null);
+  });
+
+  it('says why a promo code cannot be used', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    assert.equal(checkPromoCode(null, 10, now), 'not_found');
+    assert.equal(checkPromoCode({ ...save10, active: false }, 10, now), 'inactive');
+    assert.equal(checkPromoCode({ ...save10, expiresAt: '2025-12-31T00:00:00Z' }, 10, now), 'expired');
+    assert.equal(checkPromoCode({ ...save10, maxUses: 1, usedCount: 1 }, 10, now), 'used_up');
+    assert.equal(checkPromoCode({ ...save10, minSubtotal: 20 }, 10, now), 'min_subtotal');
+    assert.equal(checkPromoCode(save10, 10, now), null);
+  });
+});
@@ -0,0 +1,171 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { slidingWindowHit, tokenBucketHit, type BucketState, type WindowState } from '../../src/ratelimit/algorithms';
+import { createRedisRateLimitStore, encodeCommand, HIT_SCRIPT, parseReply } from '../../src/ratelimit/redis';
+import type { RateLimitDecision, RateLimitRule } from '../../src/ratelimit/types';
+
+// No type definitions are published for fengari (Lua in JavaScript)
+const { lua, lauxlib, lualib, to_luastring } = require('fengari');
+
+describe('RESP', () => {
+  it('encodes commands as arrays of bulk strings', () => {
+    assert.equal(encodeCommand(['GET', 'ключ', 42]).toString(), '*3\r\n$3\r\nGET\r\n$8\r\nключ\r\n$2\r\n42\r\n');
+  });
+
+  it('parses every reply type', () => {
+    const parse = (raw: string) => parseReply(Buffer.from(raw), 0);
+    assert.deepEqual(parse('+OK\r\n'), { value: 'OK', next: 5 });
+    assert.deepEqual(parse(':42\r\n'), { value: 42, next: 5 });
+    assert.deepEqual(parse('$-1\r\n'), { value: null, next: 5 });
+    assert.deepEqual(parse('$5\r\nhe\r\no\r\n'), { value: 'he\r\no', next: 11 });
+    assert.deepEqual(parse('*3\r\n:1\r\n:4\r\n$-1\r\n'), { value: [1, 4, null], next: 17 });
+    assert.deepEqual(parse('-ERR unknown command\r\n')?.value, new Error('ERR unknown command'));
+    assert.throws(() => parse('?\r\n'), /Unexpected Redis reply type/);
+  });
+
+  it('waits for replies split across chunks', () => {
+    const reply = Buffer.from('*2\r\n:1\r\n$3\r\nabc\r\n+OK\r\n');
+    for (let cut = 1; cut < 17; cut++) {
+      assert.equal(parseReply(reply.subarray(0, cut), 0), null);
+    }
+    const first = parseReply(reply, 0);
+    assert.deepEqual(first, { value: [1, 'abc'], next: 17 });
+    assert.deepEqual(parseReply(reply, first!.next), { value: 'OK', next: 22 });
+  });
+});
+
+/**
+ * HIT_SCRIPT in a Lua VM, with the few Redis commands it calls on a table and a settable clock
+ */
+function createScriptRunner(): (key: string, rule: RateLimitRule, now: number) => RateLimitDecision {
+  const L = lauxlib.luaL_newstate();
+  lualib.luaL_openlibs(L);
+  lua.lua_pushstring(L, to_luastring(HIT_SCRIPT));
+  lua.lua_setglobal(L, to_luastring('SCRIPT'));
+  const prelude = `
+    local data = {}
+    NOW = 0
+    redis = {}
+    function redis.call(command, key, ...)
+      local args = { ... }
+      if command == 'TIME' then
+        return { tostring(NOW // 1000), tostring((NOW % 1000) * 1000) }
+      end
+      data[key] = data[key] or {}
+      if command == 'HMGET' then
+        local values = {}
+        for i, field in ipairs(args) do values[i] = data[key][field] or false end
+        return values
+      elseif command == 'HSET' then
+        for i = 1, #args, 2 do data[key][args[i]] = tostring(args[i + 1]) end
+      end
+      return 1
+    end
+    local hit = load(SCRIPT)
+    function run(key, algorithm, limit, window, now)
+      NOW = now
+      KEYS = { key }
+      ARGV = { algorithm, tostring(limit), tostring(window) }
+      local reply = hit()
+      -- Redis truncates numbers in replies to integers
+      return math.tointeger(reply[1] // 1), math.tointeger(reply[2] // 1), math.tointeger(reply[3] // 1)
+    end
+  `;
+  assert.equal(lauxlib.luaL_dostring(L, to_luastring(prelude)), lua.LUA_OK);
+
+  return (key, rule, now) => {
+    lua.lua_getglobal(L, to_luastring('run'));
+    lua.lua_pushstring(L, to_luastring(key));
+    lua.lua_pushstring(L, to_luastring(rule.algorithm));
+    lua.lua_pushinteger(L, rule.limit);
+    lua.lua_pushinteger(L, rule.windowMs);
+    lua.lua_pushinteger(L, now);
+    assert.equal(lua.lua_pcall(L, 5, 3, 0), lua.LUA_OK);
+    const decision = {
+      allowed: lua.lua_tointeger(L, -3) === 1,
+      remaining: lua.lua_tointeger(L, -2),
+      retryAfterMs: lua.lua_tointeger(L, -1)
+    };
+    lua.lua_pop(L, 3);
+    return decision;
+  };
+}
+
+describe('Redis hit script', () => {
+  // Bursts, a pause shorter than the refill of one event, and idle time across windows
+  const times = [0, 10, 20, 30, 40, 50, 60, 150, 260, 600, 990, 1000, 1010, 1400, 2500, 2510, 2520, 2530, 2540, 2550, 2560];
+
+  it('decides like the in-memory token bucket', () => {
+    const run = createScriptRunner();
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 5, windowMs: 1000 };
+    let state: BucketState | undefined;
+    for (const now of times) {
+      const expected = tokenBucketHit(state, rule, now);
+      // The script keeps the tokens as text, which Lua writes with 14 significant digits
+      state = { ...expected.state, tokens: Number(expected.state.tokens.toPrecision(14)) };
+      assert.deepEqual(run('user', rule, now), expected.decision, `hit at ${now}ms`);
+    }
+  });
+
+  it('decides like the in-memory sliding window', () => {
+    const run = createScriptRunner();
+    const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 4, windowMs: 1000 };
+    let state: WindowState | undefined;
+    for (const now of times) {
+      const expected = slidingWindowHit(state, rule, now);
+      state = expected.state;
+      assert.deepEqual(run('user', rule, now), expected.decision, `hit at ${now}ms`);
+    }
+  });
+
+  it('keeps separate counts per key', () => {
+    const run = createScriptRunner();
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 1, windowMs: 60_000 };
+    assert.equal(run('a', rule, 0).allowed, true);
+    assert.equal(run('a', rule, 1).allowed, false);
+    assert.equal(run('b', rule, 1).allowed, true);
+  });
+});
+
+describe('Redis connection', () => {
+  const servers: net.Server[] = [];
+  const sockets: net.Socket[] = [];
+  after(() => {
+    sockets.forEach(socket => socket.destroy());
+    servers.forEach(server => server.close());
+  });
+
+  // Answers every command with an allowed decision, unless `reply` is off
+  async function startServer(opts: { reply: boolean }): Promise<{ url: string; connections: () => number }> {
+    let connections = 0;
+    const server = net.createServer(socket => {
+      connections++;
+      sockets.push(socket);
+      socket.on('data', () => {
+        if (opts.reply) socket.write('*3\r\n:1\r\n:4\r\n:0\r\n');
+      });
+    });
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    return { url: `redis://127.0.0.1:${port}`, connections: () => connections };
+  }
+
+  const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 5, windowMs: 1000 };
+
+  it('keeps an idle connection open past the timeout', async () => {
+    const server = await startServer({ reply: true });
+    const store = createRedisRateLimitStore(server.url, { timeoutMs: 50 });
+    assert.deepEqual(await store.hit('user', rule), { allowed: true, remaining: 4, retryAfterMs: 0 });
+    await new Promise(resolve => setTimeout(resolve, 150));
+    assert.deepEqual(await store.hit('user', rule), { allowed: true, remaining: 4, retryAfterMs: 0 });
+    assert.equal(server.connections(), 1);
+  });
+
+  it('gives up on a reply that does not come', async () => {
+    const server = await startServer({ reply: false });
+    const store = createRedisRateLimitStore(server.url, { timeoutMs: 50 });
+    await assert.rejects(store.hit('user', rule), /Redis connection closed/);
+  });
+});
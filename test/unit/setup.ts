@@ -0,0 +1,4 @@
+// Preloaded by `npm run test:unit` (node -r): the config is read on import
+import { useOfflineEnv } from '../../src/testing/offline-env';
+
+useOfflineEnv();